@@ -2,22 +2,36 @@
  * Audio Capture Manager
  * 
  * Manages audio capture from Windows microphones using WASAPI through
- * Node.js FFI bindings to native C++ modules.
+ * Node.js FFI bindings to native C++ modules, or from any other registered
+ * capture backend (e.g. WAV files, raw PCM streams). Every capture runs as
+ * its own CaptureSession, up to server.maxConcurrentStreams at a time.
  */
 
 import { EventEmitter } from 'events';
+import path from 'path';
 import { Logger } from '../utils/logger.js';
 import { ConfigManager } from '../utils/config-manager.js';
 import { ErrorHandler, AudioMCPError } from '../utils/error-handler.js';
+import { CaptureBackendRegistry } from './capture-backend-registry.js';
+import { WavFileBackend } from './wav-file-backend.js';
+import { PcmStreamBackend, PcmStreamSource } from './pcm-stream-backend.js';
+import { AudioFormat } from './format-converter.js';
+import { AudioLevelReport } from './level-meter.js';
+import { CaptureSession, CaptureGap } from './capture-session.js';
 
-// Native module interface (will be implemented by C++ module)
-interface NativeAudioModule {
+// Native module interface (implemented by the C++ module and capture backends)
+export interface NativeAudioModule {
   initialize(): boolean;
   startCapture(config: AudioCaptureConfig): boolean;
   stopCapture(): boolean;
   getDevices(): AudioDevice[];
   cleanup(): boolean;
   setAudioCallback(callback: (audioData: Buffer) => void): void;
+  // Format of the buffers passed to the audio callback (Float32 at the
+  // requested rate and channel count when not implemented)
+  getCaptureFormat?(): AudioFormat | null;
+  // Backends whose source can end or fail asynchronously report it here
+  setErrorCallback?(callback: (error: AudioMCPError) => void): void;
 }
 
 export interface AudioCaptureConfig {
@@ -38,143 +52,31 @@ export interface AudioDevice {
 
 export interface AudioChunk {
   data: Float32Array;
+  // Wall-clock capture time of the first frame, from the capture timeline
   timestamp: number;
+  // Sample frame offset of the first frame on the capture timeline
+  startSample: number;
   duration: number;
   sampleRate: number;
   channels: number;
 }
 
-/**
- * Ring buffer for efficient audio data management
- */
-class RingBuffer {
-  private buffer: Float32Array;
-  private writePos = 0;
-  private readPos = 0;
-  private size: number;
-  
-  constructor(sizeInSamples: number) {
-    this.size = sizeInSamples;
-    this.buffer = new Float32Array(sizeInSamples);
-  }
-  
-  write(data: Float32Array): boolean {
-    const availableSpace = this.getAvailableSpace();
-    if (data.length > availableSpace) {
-      return false; // Buffer overflow
-    }
-    
-    for (let i = 0; i < data.length; i++) {
-      this.buffer[this.writePos] = data[i];
-      this.writePos = (this.writePos + 1) % this.size;
-    }
-    
-    return true;
-  }
-  
-  read(samples: number): Float32Array {
-    const available = this.getAvailableData();
-    const toRead = Math.min(samples, available);
-    const result = new Float32Array(toRead);
-    
-    for (let i = 0; i < toRead; i++) {
-      result[i] = this.buffer[this.readPos];
-      this.readPos = (this.readPos + 1) % this.size;
-    }
-    
-    return result;
-  }
-  
-  getAvailableData(): number {
-    return (this.writePos - this.readPos + this.size) % this.size;
-  }
-  
-  getAvailableSpace(): number {
-    return this.size - this.getAvailableData() - 1;
-  }
-  
-  clear(): void {
-    this.writePos = 0;
-    this.readPos = 0;
-  }
-}
-
-/**
- * Voice Activity Detection (simple energy-based)
- */
-class VoiceActivityDetector {
-  private energyThreshold: number;
-  private silenceThreshold: number;
-  private minSpeechDuration: number;
-  private minSilenceDuration: number;
-  private speechStartTime = 0;
-  private silenceStartTime = 0;
-  private isSpeaking = false;
-  
-  constructor(
-    energyThreshold = 0.01,
-    silenceThreshold = 0.005,
-    minSpeechDuration = 300,
-    minSilenceDuration = 500
-  ) {
-    this.energyThreshold = energyThreshold;
-    this.silenceThreshold = silenceThreshold;
-    this.minSpeechDuration = minSpeechDuration;
-    this.minSilenceDuration = minSilenceDuration;
-  }
-  
-  processAudio(audioData: Float32Array, timestamp: number): boolean {
-    const energy = this.calculateEnergy(audioData);
-    const now = timestamp;
-    
-    if (energy > this.energyThreshold) {
-      if (!this.isSpeaking) {
-        this.speechStartTime = now;
-      }
-      this.isSpeaking = true;
-      this.silenceStartTime = 0;
-    } else if (energy < this.silenceThreshold) {
-      if (this.isSpeaking && this.silenceStartTime === 0) {
-        this.silenceStartTime = now;
-      }
-      
-      if (this.isSpeaking && 
-          this.silenceStartTime > 0 && 
-          (now - this.silenceStartTime) > this.minSilenceDuration) {
-        this.isSpeaking = false;
-        this.speechStartTime = 0;
-        this.silenceStartTime = 0;
-      }
-    }
-    
-    return this.isSpeaking && (now - this.speechStartTime) > this.minSpeechDuration;
-  }
-  
-  private calculateEnergy(audioData: Float32Array): number {
-    let sum = 0;
-    for (let i = 0; i < audioData.length; i++) {
-      sum += audioData[i] * audioData[i];
-    }
-    return Math.sqrt(sum / audioData.length);
-  }
-}
-
 export class AudioCaptureManager extends EventEmitter {
   private logger: Logger;
   private config: ConfigManager;
   private nativeModule: NativeAudioModule | null = null;
-  private ringBuffer: RingBuffer | null = null;
-  private vad: VoiceActivityDetector;
-  private isCapturing = false;
-  private currentConfig: AudioCaptureConfig | null = null;
-  private audioChunks: AudioChunk[] = [];
-  private processingInterval: NodeJS.Timeout | null = null;
+  private backends: CaptureBackendRegistry;
+  private backendModules: Map<string, NativeAudioModule> = new Map();
+  private sessions: Map<string, CaptureSession> = new Map();
+  // Most recently stopped session, kept so its history can still be read
+  private lastSession: CaptureSession | null = null;
   
   constructor() {
     super();
     this.logger = Logger.getInstance();
     this.config = ConfigManager.getInstance();
-    this.vad = new VoiceActivityDetector();
+    this.backends = new CaptureBackendRegistry();
+    this.registerBuiltInBackends();
   }
   
   /**
@@ -184,17 +86,8 @@ export class AudioCaptureManager extends EventEmitter {
     try {
       this.logger.info('Initializing Audio Capture Manager');
       
-      // Load native module
-      this.nativeModule = this.loadNativeModule();
-      
-      if (!this.nativeModule.initialize()) {
-        throw ErrorHandler.createCaptureError('Failed to initialize native audio module');
-      }
-      
-      // Set up audio callback
-      this.nativeModule.setAudioCallback((audioData: Buffer) => {
-        this.onAudioData(audioData);
-      });
+      // Load the configured default backend for device enumeration
+      this.nativeModule = this.loadBackend(this.config.getAudioConfig().backend);
       
       this.logger.info('Audio Capture Manager initialized successfully');
       
@@ -205,40 +98,57 @@ export class AudioCaptureManager extends EventEmitter {
   }
   
   /**
-   * Start audio capture
+   * Start a capture session on a device
    */
-  async startCapture(config: AudioCaptureConfig): Promise<void> {
-    if (this.isCapturing) {
-      throw ErrorHandler.createCaptureError('Audio capture already in progress');
+  async startCapture(config: AudioCaptureConfig): Promise<CaptureSession> {
+    const maxSessions = this.config.getServerConfig().maxConcurrentStreams;
+    if (this.sessions.size >= maxSessions) {
+      throw ErrorHandler.createCaptureError(`Maximum of ${maxSessions} concurrent capture sessions reached`, {
+        sessions: Array.from(this.sessions.keys())
+      });
+    }
+    
+    const existing = this.findSessionByDevice(config.deviceId);
+    if (existing) {
+      throw ErrorHandler.createCaptureError(
+        `Device ${config.deviceId} is already being captured by session ${existing.id}`
+      );
     }
     
     try {
       this.logger.info('Starting audio capture', config);
       
-      if (!this.nativeModule) {
-        throw ErrorHandler.createCaptureError('Native module not initialized');
+      // Every device gets its own backend instance so sessions never share a source
+      const resolved = this.backends.resolve(config.deviceId, this.config.getAudioConfig().backend);
+      const backend = this.loadBackend(resolved.backend, resolved.source, config.deviceId);
+      
+      // A backend instance shared between devices (the native addon, which
+      // has a single audio callback) serves one of them at a time
+      const sharing = this.findSessionByBackend(backend);
+      if (sharing) {
+        throw ErrorHandler.createCaptureError(
+          `Capture backend ${resolved.backend} captures one device at a time and is in use by session ${sharing.id}`,
+          { deviceId: sharing.config.deviceId }
+        );
       }
       
-      // Create ring buffer based on configuration
-      const bufferSizeInSamples = Math.ceil(
-        (config.sampleRate * config.channels * 10) // 10 seconds buffer
-      );
-      this.ringBuffer = new RingBuffer(bufferSizeInSamples);
+      const session = new CaptureSession(this.generateSessionId(), config, backend);
+      this.forwardSessionEvents(session);
       
-      // Start native capture
-      if (!this.nativeModule.startCapture(config)) {
-        throw ErrorHandler.createCaptureError('Failed to start native audio capture');
+      // Register first so the backend callbacks can find the session
+      this.sessions.set(session.id, session);
+      try {
+        session.start();
+      } catch (error) {
+        this.sessions.delete(session.id);
+        session.removeAllListeners();
+        throw error;
       }
       
-      this.currentConfig = config;
-      this.isCapturing = true;
-      this.audioChunks = [];
+      this.emit('captureStarted', config, session.id);
+      this.logger.info(`Audio capture session ${session.id} started successfully`);
       
-      // Start processing audio chunks
-      this.startAudioProcessing();
-      
-      this.emit('captureStarted', config);
-      this.logger.info('Audio capture started successfully');
+      return session;
       
     } catch (error) {
       this.logger.error('Failed to start audio capture', error);
@@ -247,40 +157,86 @@ export class AudioCaptureManager extends EventEmitter {
   }
   
   /**
-   * Stop audio capture
+   * Stop one capture session, or all of them when no ID is given
    */
-  async stopCapture(): Promise<void> {
-    if (!this.isCapturing) {
-      return;
+  async stopCapture(sessionId?: string): Promise<void> {
+    if (sessionId !== undefined && !this.sessions.has(sessionId)) {
+      throw ErrorHandler.createCaptureError(`Capture session not found: ${sessionId}`);
     }
     
-    try {
-      this.logger.info('Stopping audio capture');
+    const sessions = sessionId !== undefined
+      ? [this.sessions.get(sessionId)!]
+      : Array.from(this.sessions.values());
       
-      if (this.nativeModule) {
-        this.nativeModule.stopCapture();
-      }
-      
-      this.isCapturing = false;
-      this.currentConfig = null;
-      
-      if (this.processingInterval) {
-        clearInterval(this.processingInterval);
-        this.processingInterval = null;
+    for (const session of sessions) {
+      try {
+        this.logger.info(`Stopping audio capture session ${session.id}`);
+        
+        this.sessions.delete(session.id);
+        session.stop();
+        session.removeAllListeners();
+        this.lastSession = session;
+        
+        this.emit('captureStopped', session.id);
+        this.logger.info(`Audio capture session ${session.id} stopped successfully`);
+        
+      } catch (error) {
+        this.logger.error('Failed to stop audio capture', error);
+        throw error;
       }
-      
-      if (this.ringBuffer) {
-        this.ringBuffer.clear();
-        this.ringBuffer = null;
+    }
+  }
+  
+  /**
+   * Pause a capture session (the only active one by default) without closing its device
+   */
+  pauseCapture(sessionId?: string): CaptureGap {
+    return this.resolveActiveSession(sessionId).pause();
+  }
+  
+  /**
+   * Resume a paused capture session (the only active one by default)
+   */
+  resumeCapture(sessionId?: string): CaptureGap {
+    return this.resolveActiveSession(sessionId).resume();
+  }
+  
+  /**
+   * Get an active capture session by ID
+   */
+  getSession(sessionId: string): CaptureSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+  
+  /**
+   * Get all active capture sessions
+   */
+  getSessions(): CaptureSession[] {
+    return Array.from(this.sessions.values());
+  }
+  
+  /**
+   * Find the session a request addresses: the given ID, otherwise the only
+   * active session, otherwise the most recently stopped one
+   */
+  resolveSession(sessionId?: string): CaptureSession | null {
+    if (sessionId !== undefined) {
+      const session = this.sessions.get(sessionId)
+        ?? (this.lastSession?.id === sessionId ? this.lastSession : undefined);
+        
+      if (!session) {
+        throw ErrorHandler.createCaptureError(`Capture session not found: ${sessionId}`);
       }
-      
-      this.emit('captureStopped');
-      this.logger.info('Audio capture stopped successfully');
-      
-    } catch (error) {
-      this.logger.error('Failed to stop audio capture', error);
-      throw error;
+      return session;
     }
+    
+    if (this.sessions.size > 1) {
+      throw ErrorHandler.createCaptureError('Several capture sessions are active, specify a sessionId', {
+        sessions: Array.from(this.sessions.keys())
+      });
+    }
+    
+    return this.sessions.values().next().value ?? this.lastSession;
   }
   
   /**
@@ -304,30 +260,28 @@ export class AudioCaptureManager extends EventEmitter {
   /**
    * Get audio stream for real-time processing
    */
-  async getAudioStream(): Promise<ReadableStream> {
-    if (!this.isCapturing) {
+  async getAudioStream(sessionId?: string): Promise<ReadableStream> {
+    const session = this.resolveSession(sessionId);
+    if (!session?.isActive()) {
       throw ErrorHandler.createCaptureError('No active audio capture');
     }
     
-    return new ReadableStream({
-      start: (controller) => {
-        this.on('audioChunk', (chunk: AudioChunk) => {
-          controller.enqueue(chunk);
-        });
-        
-        this.on('captureStopped', () => {
-          controller.close();
-        });
-      }
-    });
+    return session.getAudioStream();
+  }
+  
+  /**
+   * Get the most recent seconds of processed audio from a session (active or
+   * most recently stopped)
+   */
+  getRecentAudio(seconds: number, sessionId?: string): AudioChunk | null {
+    return this.resolveSession(sessionId)?.getRecentAudio(seconds) ?? null;
   }
   
   /**
    * Get recent audio chunks
    */
-  getRecentAudioChunks(durationSeconds = 10): AudioChunk[] {
-    const cutoffTime = Date.now() - (durationSeconds * 1000);
-    return this.audioChunks.filter(chunk => chunk.timestamp > cutoffTime);
+  getRecentAudioChunks(durationSeconds = 10, sessionId?: string): AudioChunk[] {
+    return this.resolveSession(sessionId)?.getRecentAudioChunks(durationSeconds) ?? [];
   }
   
   /**
@@ -338,12 +292,26 @@ export class AudioCaptureManager extends EventEmitter {
       this.logger.info('Cleaning up Audio Capture Manager');
       
       await this.stopCapture();
+      this.lastSession = null;
       
-      if (this.nativeModule) {
-        this.nativeModule.cleanup();
-        this.nativeModule = null;
+      // Keys can share an instance (the native addon); clean it up once
+      const cleaned = new Set<NativeAudioModule>();
+      for (const [key, backendModule] of this.backendModules) {
+        if (cleaned.has(backendModule)) {
+          continue;
+        }
+        cleaned.add(backendModule);
+        
+        try {
+          backendModule.cleanup();
+        } catch (error) {
+          this.logger.error(`Error cleaning up capture backend ${key}`, error);
+        }
       }
       
+      this.backendModules.clear();
+      this.nativeModule = null;
+      
       this.removeAllListeners();
       this.logger.info('Audio Capture Manager cleanup completed');
       
@@ -353,6 +321,237 @@ export class AudioCaptureManager extends EventEmitter {
     }
   }
   
+  /**
+   * Get the latest input levels and a diagnosis of the input signal
+   */
+  getAudioLevels(sessionId?: string): AudioLevelReport {
+    const session = this.resolveSession(sessionId);
+    
+    if (!session?.isActive()) {
+      return {
+        capturing: false,
+        sessionId: session?.id ?? null,
+        deviceId: session?.config.deviceId ?? null,
+        status: 'inactive',
+        secondsSinceAudio: null,
+        levels: null,
+        vad: null
+      };
+    }
+    
+    return session.getAudioLevels();
+  }
+  
+  /**
+   * Get the configuration of an active capture session
+   */
+  getCaptureConfig(sessionId?: string): AudioCaptureConfig | null {
+    const session = this.resolveSession(sessionId);
+    return session?.isActive() ? session.config : null;
+  }
+  
+  /**
+   * Get the names of the registered capture backends
+   */
+  getCaptureBackends(): string[] {
+    return this.backends.getBackendNames();
+  }
+  
+  /**
+   * Re-emit a session's events on the manager, with the session ID appended
+   */
+  private forwardSessionEvents(session: CaptureSession): void {
+    for (const event of ['audioChunk', 'utteranceStarted', 'utterance', 'vadFrame', 'levels', 'bufferOverflow', 'timelineDrift', 'capturePaused', 'captureResumed']) {
+      session.on(event, (...args: unknown[]) => this.emit(event, ...args, session.id));
+    }
+    
+    session.on('captureError', (error: AudioMCPError) => {
+      this.emit('captureError', error, session.id);
+      
+      this.stopCapture(session.id).catch((stopError) => {
+        this.logger.error('Failed to stop capture after backend error', stopError);
+      });
+    });
+  }
+  
+  private resolveActiveSession(sessionId?: string): CaptureSession {
+    const session = this.resolveSession(sessionId);
+    if (!session?.isActive()) {
+      throw ErrorHandler.createCaptureError('No active audio capture');
+    }
+    return session;
+  }
+  
+  private findSessionByDevice(deviceId: string): CaptureSession | undefined {
+    return Array.from(this.sessions.values()).find(session => session.config.deviceId === deviceId);
+  }
+  
+  private generateSessionId(): string {
+    return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+  
+  /**
+   * Register the capture backends that ship with the server
+   */
+  private registerBuiltInBackends(): void {
+    this.backends.register({
+      name: 'native',
+      description: 'WASAPI capture through the compiled native module',
+      create: () => this.loadNativeModule()
+    });
+    
+    this.backends.register({
+      name: 'wav',
+      description: 'Real-time playback of a WAV file or a directory of WAV files',
+      create: (source) => {
+        const wavConfig = this.config.getAudioConfig().wav;
+        const wavPath = source || wavConfig?.path;
+        
+        // Device IDs come from clients, so a path is only read if the
+        // configuration names it
+        if (source && !this.isConfiguredDevice(`wav:${source}`) && !this.isInWavPath(source)) {
+          throw ErrorHandler.createConfigError(
+            `WAV source ${source} is not configured (add it to audio.deviceProfiles or audio.wav.path)`
+          );
+        }
+        
+        if (!wavPath) {
+          throw ErrorHandler.createConfigError('No WAV source configured (use wav:<path> or audio.wav.path)');
+        }
+        
+        return new WavFileBackend({
+          path: wavPath,
+          loop: wavConfig?.loop ?? false
+        });
+      }
+    });
+    
+    this.backends.register({
+      name: 'pcm',
+      description: 'Raw PCM from stdin, a named pipe or a capture command (pcm:stdin, pcm:pipe:<path>, pcm:command)',
+      create: (source) => {
+        const pcmConfig = this.config.getAudioConfig().pcm;
+        
+        return new PcmStreamBackend({
+          // A source from the config is trusted; one from a device ID only if
+          // the configuration names that device
+          source: source
+            ? this.resolvePcmSource(source, this.isConfiguredDevice(`pcm:${source}`))
+            : this.resolvePcmSource(pcmConfig?.source || 'command', true),
+          format: pcmConfig?.format ?? 's16le',
+          sampleRate: pcmConfig?.sampleRate ?? 16000,
+          channels: pcmConfig?.channels ?? 1
+        });
+      }
+    });
+  }
+  
+  /**
+   * Whether a device ID is named in the configuration: the default or
+   * rolling buffer device, or a device with a profile
+   */
+  private isConfiguredDevice(deviceId: string): boolean {
+    const audioConfig = this.config.getAudioConfig();
+    
+    return deviceId === audioConfig.deviceId ||
+      deviceId === audioConfig.rollingBuffer.deviceId ||
+      Object.prototype.hasOwnProperty.call(audioConfig.deviceProfiles, deviceId);
+  }
+  
+  /**
+   * Whether a WAV source is audio.wav.path itself or a WAV file directly
+   * inside it
+   */
+  private isInWavPath(source: string): boolean {
+    const wavPath = this.config.getAudioConfig().wav?.path;
+    if (!wavPath) {
+      return false;
+    }
+    
+    const resolved = path.resolve(source);
+    return resolved === path.resolve(wavPath) ||
+      (path.dirname(resolved) === path.resolve(wavPath) && path.extname(resolved).toLowerCase() === '.wav');
+  }
+  
+  /**
+   * Map a pcm backend source string to a stream source. Unless the source
+   * is configured, stdin and pipes are only opened if audio.pcm names them.
+   */
+  private resolvePcmSource(source: string, configured: boolean): PcmStreamSource {
+    const pcmConfig = this.config.getAudioConfig().pcm;
+    
+    if (source === 'stdin') {
+      if (!configured && pcmConfig?.source !== 'stdin') {
+        throw ErrorHandler.createConfigError(
+          'PCM source stdin is not configured (set audio.pcm.source or add pcm:stdin to audio.deviceProfiles)'
+        );
+      }
+      return { type: 'stdin' };
+    }
+    
+    if (source === 'pipe' || source.startsWith('pipe:')) {
+      const pipePath = source.slice('pipe:'.length) || pcmConfig?.path;
+      if (!pipePath) {
+        throw ErrorHandler.createConfigError('No named pipe configured (use pcm:pipe:<path> or audio.pcm.path)');
+      }
+      if (!configured && !(pcmConfig?.path && path.resolve(pipePath) === path.resolve(pcmConfig.path))) {
+        throw ErrorHandler.createConfigError(
+          `PCM pipe ${pipePath} is not configured (set audio.pcm.path or add it to audio.deviceProfiles)`
+        );
+      }
+      return { type: 'pipe', path: pipePath };
+    }
+    
+    if (source === 'command') {
+      // Only the configured command may run, never one supplied by a client
+      if (!pcmConfig?.command) {
+        throw ErrorHandler.createConfigError('No capture command configured (audio.pcm.command)');
+      }
+      return { type: 'command', command: pcmConfig.command, args: pcmConfig.args };
+    }
+    
+    throw ErrorHandler.createConfigError(`Unknown PCM source: ${source}`);
+  }
+  
+  /**
+   * Get the backend instance cached under a key (a device ID or backend
+   * name), creating it on first use
+   */
+  private loadBackend(name: string, source?: string, key = source ? `${name}:${source}` : name): NativeAudioModule {
+    let backendModule = this.backendModules.get(key);
+    
+    if (!backendModule) {
+      const created = this.backends.get(name).create(source);
+      
+      // The native addon is a single instance, already set up if another
+      // key loaded it
+      if (!Array.from(this.backendModules.values()).includes(created)) {
+        if (!created.initialize()) {
+          throw ErrorHandler.createCaptureError(`Failed to initialize capture backend ${key}`);
+        }
+        
+        // Route the backend's audio to the session currently using it
+        created.setAudioCallback((audioData: Buffer) => {
+          this.findSessionByBackend(created)?.onAudioData(audioData);
+        });
+        
+        created.setErrorCallback?.((error: AudioMCPError) => {
+          this.findSessionByBackend(created)?.onBackendError(error);
+        });
+      }
+      
+      this.backendModules.set(key, created);
+      backendModule = created;
+      this.logger.info(`Capture backend ${name} loaded`, { key });
+    }
+    
+    return backendModule;
+  }
+  
+  private findSessionByBackend(backend: NativeAudioModule): CaptureSession | undefined {
+    return Array.from(this.sessions.values()).find(session => session.backend === backend);
+  }
+  
   /**
    * Load native audio module
    */
@@ -375,10 +574,26 @@ export class AudioCaptureManager extends EventEmitter {
   private createMockNativeModule(): NativeAudioModule {
     this.logger.warn('Using mock native audio module for development');
     
+    let audioCallback: ((audioData: Buffer) => void) | null = null;
+    let timer: NodeJS.Timeout | null = null;
+    
+    const stop = (): boolean => {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+      return true;
+    };
+    
     return {
       initialize: () => true,
-      startCapture: () => true,
-      stopCapture: () => true,
+      startCapture: () => {
+        stop();
+        // Simulate audio data for testing
+        timer = setInterval(() => audioCallback?.(Buffer.alloc(4096)), 100);
+        return true;
+      },
+      stopCapture: stop,
       getDevices: () => [{
         id: 'default',
         name: 'Default Microphone',
@@ -387,99 +602,13 @@ export class AudioCaptureManager extends EventEmitter {
         channels: 1,
         sampleRate: 44100
       }],
-      cleanup: () => true,
+      cleanup: () => {
+        audioCallback = null;
+        return stop();
+      },
       setAudioCallback: (callback) => {
-        // Simulate audio data for testing
-        setInterval(() => {
-          if (this.isCapturing) {
-            const mockAudio = Buffer.alloc(4096);
-            callback(mockAudio);
-          }
-        }, 100);
+        audioCallback = callback;
       }
     };
   }
-  
-  /**
-   * Handle incoming audio data from native module
-   */
-  private onAudioData(audioData: Buffer): void {
-    if (!this.isCapturing || !this.ringBuffer || !this.currentConfig) {
-      return;
-    }
-    
-    try {
-      // Convert buffer to Float32Array
-      const floatData = new Float32Array(
-        audioData.buffer,
-        audioData.byteOffset,
-        audioData.byteLength / 4
-      );
-      
-      // Write to ring buffer
-      if (!this.ringBuffer.write(floatData)) {
-        this.logger.warn('Ring buffer overflow, dropping audio data');
-        this.emit('bufferOverflow');
-      }
-      
-    } catch (error) {
-      this.logger.error('Error processing audio data', error);
-    }
-  }
-  
-  /**
-   * Start audio chunk processing
-   */
-  private startAudioProcessing(): void {
-    const chunkIntervalMs = 100; // Process chunks every 100ms
-    
-    this.processingInterval = setInterval(() => {
-      this.processAudioChunks();
-    }, chunkIntervalMs);
-  }
-  
-  /**
-   * Process audio chunks from ring buffer
-   */
-  private processAudioChunks(): void {
-    if (!this.ringBuffer || !this.currentConfig) {
-      return;
-    }
-    
-    const samplesPerChunk = Math.floor(
-      this.currentConfig.sampleRate * this.currentConfig.channels * 1.0 // 1 second chunks
-    );
-    
-    const availableData = this.ringBuffer.getAvailableData();
-    
-    if (availableData >= samplesPerChunk) {
-      const audioData = this.ringBuffer.read(samplesPerChunk);
-      const timestamp = Date.now();
-      
-      // Apply voice activity detection
-      const hasVoice = this.vad.processAudio(audioData, timestamp);
-      
-      if (hasVoice) {
-        const chunk: AudioChunk = {
-          data: audioData,
-          timestamp,
-          duration: 1000, // 1 second
-          sampleRate: this.currentConfig.sampleRate,
-          channels: this.currentConfig.channels
-        };
-        
-        // Store chunk
-        this.audioChunks.push(chunk);
-        
-        // Limit history
-        const maxChunks = this.config.getServerConfig().transcriptionHistoryLimit;
-        if (this.audioChunks.length > maxChunks) {
-          this.audioChunks = this.audioChunks.slice(-maxChunks);
-        }
-        
-        // Emit chunk for processing
-        this.emit('audioChunk', chunk);
-      }
-    }
-  }
 }
@@ -0,0 +1,83 @@
+/**
+ * Audio History Buffer
+ * 
+ * Fixed-capacity circular store of the most recent canonical audio, kept
+ * alongside the processing ring buffer so already-processed audio can still
+ * be read back (e.g. for the live stream resource).
+ */
+
+export class AudioHistoryBuffer {
+  private buffer: Float32Array;
+  private channels: number;
+  private capacityFrames: number;
+  private totalFrames = 0;
+  
+  constructor(capacityFrames: number, channels: number) {
+    this.capacityFrames = Math.max(1, Math.floor(capacityFrames));
+    this.channels = channels;
+    this.buffer = new Float32Array(this.capacityFrames * channels);
+  }
+  
+  /**
+   * Append interleaved samples, overwriting the oldest audio when full
+   */
+  write(samples: Float32Array): void {
+    const frames = Math.floor(samples.length / this.channels);
+    if (frames === 0) {
+      return;
+    }
+    
+    // Only the newest capacity's worth of a large block can survive
+    const keepFrames = Math.min(frames, this.capacityFrames);
+    const source = samples.subarray((frames - keepFrames) * this.channels, frames * this.channels);
+    const start = ((this.totalFrames + frames - keepFrames) % this.capacityFrames) * this.channels;
+    
+    const firstPart = Math.min(source.length, this.buffer.length - start);
+    this.buffer.set(source.subarray(0, firstPart), start);
+    this.buffer.set(source.subarray(firstPart), 0);
+    
+    this.totalFrames += frames;
+  }
+  
+  /**
+   * Read the most recent frames (up to what is buffered), oldest first
+   */
+  readLatest(frames: number): Float32Array {
+    return this.readRange(this.totalFrames - Math.max(0, Math.floor(frames)), this.totalFrames);
+  }
+  
+  /**
+   * Read frames [startFrame, endFrame) counted since the buffer was created
+   * or cleared, clipped to what is still buffered
+   */
+  readRange(startFrame: number, endFrame: number): Float32Array {
+    const start = Math.max(this.totalFrames - this.getAvailableFrames(), Math.floor(startFrame));
+    const end = Math.min(this.totalFrames, Math.floor(endFrame));
+    const result = new Float32Array(Math.max(0, end - start) * this.channels);
+    const offset = (start % this.capacityFrames) * this.channels;
+    
+    const firstPart = Math.min(result.length, this.buffer.length - offset);
+    result.set(this.buffer.subarray(offset, offset + firstPart));
+    result.set(this.buffer.subarray(0, result.length - firstPart), firstPart);
+    
+    return result;
+  }
+  
+  /**
+   * Number of frames that can currently be read back
+   */
+  getAvailableFrames(): number {
+    return Math.min(this.totalFrames, this.capacityFrames);
+  }
+  
+  /**
+   * Number of frames written since the buffer was created or cleared
+   */
+  getTotalFrames(): number {
+    return this.totalFrames;
+  }
+  
+  clear(): void {
+    this.totalFrames = 0;
+  }
+}
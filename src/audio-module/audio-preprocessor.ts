@@ -0,0 +1,358 @@
+/**
+ * Audio Preprocessor
+ * 
+ * Ordered DSP chain applied to canonical audio before VAD and segmentation:
+ * DC-blocking high-pass filter, spectral-subtraction noise suppression,
+ * automatic gain control and peak normalization. Every stage is streaming
+ * and returns exactly as many samples as it is given.
+ */
+
+import { PreprocessingProfile, PreprocessingProfileSchema } from '../utils/config-manager.js';
+import { StreamFormat } from './format-converter.js';
+import { fft, hannWindow, nextPowerOfTwo } from './fft.js';
+
+export type PreprocessingStageName = PreprocessingProfile['stages'][number];
+
+interface PreprocessingStage {
+  readonly name: PreprocessingStageName;
+  process(samples: Float32Array): Float32Array;
+}
+
+const BUILT_IN_PROFILES: Record<string, unknown> = {
+  off: { highPass: { enabled: false } },
+  default: {},
+  office: {
+    noiseSuppression: { enabled: true },
+    agc: { enabled: true },
+    normalize: { enabled: true }
+  }
+};
+
+/**
+ * Look up one of the profiles that ship with the server (off, default, office)
+ */
+export function getBuiltInPreprocessingProfile(name: string): PreprocessingProfile | undefined {
+  return name in BUILT_IN_PROFILES ? PreprocessingProfileSchema.parse(BUILT_IN_PROFILES[name]) : undefined;
+}
+
+export class AudioPreprocessor {
+  private stages: PreprocessingStage[];
+  
+  constructor(profile: PreprocessingProfile, format: StreamFormat) {
+    this.stages = [];
+    
+    for (const name of profile.stages) {
+      switch (name) {
+        case 'highPass':
+          if (profile.highPass.enabled) {
+            this.stages.push(new HighPassFilter(format, profile.highPass.cutoffHz));
+          }
+          break;
+        case 'noiseSuppression':
+          if (profile.noiseSuppression.enabled) {
+            this.stages.push(new SpectralNoiseSuppressor(format, profile.noiseSuppression));
+          }
+          break;
+        case 'agc':
+          if (profile.agc.enabled) {
+            this.stages.push(new AutomaticGainControl(format, profile.agc));
+          }
+          break;
+        case 'normalize':
+          if (profile.normalize.enabled) {
+            this.stages.push(new PeakNormalizer(format, profile.normalize));
+          }
+          break;
+      }
+    }
+  }
+  
+  /**
+   * Run interleaved samples through the enabled stages, in order
+   */
+  process(samples: Float32Array): Float32Array {
+    if (this.stages.length === 0) {
+      return samples;
+    }
+    
+    // Stages work in place, so never modify the caller's buffer
+    let output: Float32Array = new Float32Array(samples);
+    for (const stage of this.stages) {
+      output = stage.process(output);
+    }
+    return output;
+  }
+  
+  /**
+   * Names of the enabled stages, in processing order
+   */
+  getStageNames(): PreprocessingStageName[] {
+    return this.stages.map(stage => stage.name);
+  }
+}
+
+/**
+ * Second-order Butterworth high-pass; removes DC offset and rumble
+ */
+class HighPassFilter implements PreprocessingStage {
+  readonly name = 'highPass';
+  private channels: number;
+  private b0: number;
+  private b1: number;
+  private b2: number;
+  private a1: number;
+  private a2: number;
+  // x[n-1], x[n-2], y[n-1], y[n-2] per channel
+  private state: Float64Array[];
+  
+  constructor(format: StreamFormat, cutoffHz: number) {
+    this.channels = format.channels;
+    
+    const w0 = (2 * Math.PI * Math.min(cutoffHz, format.sampleRate * 0.45)) / format.sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+    const a0 = 1 + alpha;
+    
+    this.b0 = (1 + cos) / 2 / a0;
+    this.b1 = -(1 + cos) / a0;
+    this.b2 = (1 + cos) / 2 / a0;
+    this.a1 = (-2 * cos) / a0;
+    this.a2 = (1 - alpha) / a0;
+    this.state = Array.from({ length: format.channels }, () => new Float64Array(4));
+  }
+  
+  process(samples: Float32Array): Float32Array {
+    for (let i = 0; i < samples.length; i++) {
+      const s = this.state[i % this.channels];
+      const x = samples[i];
+      const y = this.b0 * x + this.b1 * s[0] + this.b2 * s[1] - this.a1 * s[2] - this.a2 * s[3];
+      
+      s[1] = s[0];
+      s[0] = x;
+      s[3] = s[2];
+      s[2] = y;
+      samples[i] = y;
+    }
+    return samples;
+  }
+}
+
+/**
+ * STFT spectral subtraction with a recursively tracked noise spectrum.
+ * Uses 50% overlapped sqrt-Hann frames (~32 ms) and delays the signal by
+ * one frame.
+ */
+class SpectralNoiseSuppressor implements PreprocessingStage {
+  readonly name = 'noiseSuppression';
+  private options: PreprocessingProfile['noiseSuppression'];
+  private channels: number;
+  private fftSize: number;
+  private hop: number;
+  private window: Float32Array;
+  private input: number[][];
+  private output: number[][];
+  private overlap: Float64Array[];
+  private noise: Float64Array[];
+  private previousGain: Float64Array[];
+  private frames: number[];
+  
+  // Frames used to seed the noise estimate
+  private static readonly WARMUP_FRAMES = 10;
+  
+  constructor(format: StreamFormat, options: PreprocessingProfile['noiseSuppression']) {
+    this.options = options;
+    this.channels = format.channels;
+    this.fftSize = nextPowerOfTwo(Math.round(format.sampleRate * 0.032));
+    this.hop = this.fftSize / 2;
+    this.window = hannWindow(this.fftSize).map(Math.sqrt);
+    
+    const bins = this.fftSize / 2 + 1;
+    this.input = Array.from({ length: this.channels }, () => []);
+    // Pre-filled with one frame of silence so output can always keep pace with input
+    this.output = Array.from({ length: this.channels }, () => new Array(this.fftSize).fill(0));
+    this.overlap = Array.from({ length: this.channels }, () => new Float64Array(this.fftSize));
+    this.noise = Array.from({ length: this.channels }, () => new Float64Array(bins));
+    this.previousGain = Array.from({ length: this.channels }, () => new Float64Array(bins).fill(1));
+    this.frames = new Array(this.channels).fill(0);
+  }
+  
+  process(samples: Float32Array): Float32Array {
+    const frames = Math.floor(samples.length / this.channels);
+    
+    for (let ch = 0; ch < this.channels; ch++) {
+      const input = this.input[ch];
+      for (let i = 0; i < frames; i++) {
+        input.push(samples[i * this.channels + ch]);
+      }
+      
+      while (input.length >= this.fftSize) {
+        this.processFrame(ch);
+      }
+      
+      const output = this.output[ch].splice(0, frames);
+      for (let i = 0; i < frames; i++) {
+        samples[i * this.channels + ch] = output[i];
+      }
+    }
+    
+    return samples;
+  }
+  
+  private processFrame(ch: number): void {
+    const size = this.fftSize;
+    const re = new Float64Array(size);
+    const im = new Float64Array(size);
+    const input = this.input[ch];
+    
+    for (let i = 0; i < size; i++) {
+      re[i] = input[i] * this.window[i];
+    }
+    fft(re, im);
+    
+    const noise = this.noise[ch];
+    const previousGain = this.previousGain[ch];
+    const warmup = this.frames[ch] < SpectralNoiseSuppressor.WARMUP_FRAMES;
+    const adaptation = this.options.noiseAdaptation;
+    
+    for (let k = 0; k <= size / 2; k++) {
+      const power = re[k] * re[k] + im[k] * im[k];
+      
+      if (warmup) {
+        noise[k] = (noise[k] * this.frames[ch] + power) / (this.frames[ch] + 1);
+      } else if (power < noise[k] * 3) {
+        noise[k] = adaptation * noise[k] + (1 - adaptation) * power;
+      } else {
+        // Creep upwards so a rising noise floor is eventually followed
+        noise[k] += (1 - adaptation) * 0.05 * (power - noise[k]);
+      }
+      
+      const subtracted = power > 0 ? 1 - (this.options.overSubtraction * noise[k]) / power : 0;
+      const rawGain = Math.max(this.options.spectralFloor, Math.sqrt(Math.max(0, subtracted)));
+      // Temporal smoothing reduces musical noise
+      const gain = warmup ? 1 : 0.5 * (rawGain + previousGain[k]);
+      previousGain[k] = gain;
+      
+      re[k] *= gain;
+      im[k] *= gain;
+      if (k > 0 && k < size / 2) {
+        re[size - k] *= gain;
+        im[size - k] *= gain;
+      }
+    }
+    fft(re, im, true);
+    
+    const overlap = this.overlap[ch];
+    for (let i = 0; i < size; i++) {
+      overlap[i] += re[i] * this.window[i];
+    }
+    
+    const output = this.output[ch];
+    for (let i = 0; i < this.hop; i++) {
+      output.push(overlap[i]);
+    }
+    overlap.copyWithin(0, this.hop);
+    overlap.fill(0, size - this.hop);
+    
+    input.splice(0, this.hop);
+    this.frames[ch]++;
+  }
+}
+
+/**
+ * RMS-tracking automatic gain control with a linked gain across channels.
+ * Gain is held while the input is below the gate, so pauses are not pumped up.
+ */
+class AutomaticGainControl implements PreprocessingStage {
+  readonly name = 'agc';
+  private channels: number;
+  private target: number;
+  private maxGain: number;
+  private gate: number;
+  private attack: number;
+  private release: number;
+  private detector: number;
+  private meanSquare = 0;
+  private gain = 1;
+  
+  constructor(format: StreamFormat, options: PreprocessingProfile['agc']) {
+    this.channels = format.channels;
+    this.target = dbToLinear(options.targetDb);
+    this.maxGain = dbToLinear(options.maxGainDb);
+    this.gate = dbToLinear(options.gateDb);
+    this.attack = smoothingCoefficient(options.attackMs, format.sampleRate);
+    this.release = smoothingCoefficient(options.releaseMs, format.sampleRate);
+    // ~100 ms RMS detector
+    this.detector = smoothingCoefficient(100, format.sampleRate);
+  }
+  
+  process(samples: Float32Array): Float32Array {
+    for (let i = 0; i + this.channels <= samples.length; i += this.channels) {
+      let square = 0;
+      for (let ch = 0; ch < this.channels; ch++) {
+        square += samples[i + ch] * samples[i + ch];
+      }
+      this.meanSquare += this.detector * (square / this.channels - this.meanSquare);
+      
+      const level = Math.sqrt(this.meanSquare);
+      if (level > this.gate) {
+        const targetGain = Math.min(this.maxGain, this.target / level);
+        // Reduce gain quickly, raise it slowly
+        const coefficient = targetGain < this.gain ? this.attack : this.release;
+        this.gain += coefficient * (targetGain - this.gain);
+      }
+      
+      for (let ch = 0; ch < this.channels; ch++) {
+        samples[i + ch] *= this.gain;
+      }
+    }
+    return samples;
+  }
+}
+
+/**
+ * Streaming peak normalization: an instant-attack, slow-release peak
+ * follower scales the signal so its peaks sit at the target level and
+ * never exceed it.
+ */
+class PeakNormalizer implements PreprocessingStage {
+  readonly name = 'normalize';
+  private channels: number;
+  private target: number;
+  private maxGain: number;
+  private decay: number;
+  private peak = 0;
+  
+  constructor(format: StreamFormat, options: PreprocessingProfile['normalize']) {
+    this.channels = format.channels;
+    this.target = dbToLinear(options.peakDb);
+    this.maxGain = dbToLinear(options.maxGainDb);
+    this.decay = 1 - smoothingCoefficient(options.releaseMs, format.sampleRate);
+  }
+  
+  process(samples: Float32Array): Float32Array {
+    for (let i = 0; i + this.channels <= samples.length; i += this.channels) {
+      let framePeak = 0;
+      for (let ch = 0; ch < this.channels; ch++) {
+        framePeak = Math.max(framePeak, Math.abs(samples[i + ch]));
+      }
+      this.peak = Math.max(framePeak, this.peak * this.decay);
+      
+      const gain = Math.min(this.maxGain, this.target / Math.max(this.peak, 1e-9));
+      for (let ch = 0; ch < this.channels; ch++) {
+        samples[i + ch] *= gain;
+      }
+    }
+    return samples;
+  }
+}
+
+function dbToLinear(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * One-pole smoothing coefficient for a time constant in milliseconds
+ */
+function smoothingCoefficient(timeMs: number, sampleRate: number): number {
+  return 1 - Math.exp(-1 / ((timeMs / 1000) * sampleRate));
+}
@@ -0,0 +1,86 @@
+/**
+ * Capture Backend Registry
+ * 
+ * Keeps track of the audio sources that can sit behind the NativeAudioModule
+ * interface (WASAPI addon, WAV files, ...) and resolves device IDs to them.
+ */
+
+import { ErrorHandler } from '../utils/error-handler.js';
+import { NativeAudioModule } from './audio-capture-manager.js';
+
+export interface CaptureBackendDescriptor {
+  name: string;
+  description: string;
+  create(source?: string): NativeAudioModule;
+}
+
+export interface ResolvedCaptureBackend {
+  backend: string;
+  source?: string;
+}
+
+export class CaptureBackendRegistry {
+  private backends: Map<string, CaptureBackendDescriptor> = new Map();
+  
+  /**
+   * Register a capture backend
+   */
+  register(descriptor: CaptureBackendDescriptor): void {
+    if (this.backends.has(descriptor.name)) {
+      throw ErrorHandler.createConfigError(`Capture backend ${descriptor.name} is already registered`);
+    }
+    
+    this.backends.set(descriptor.name, descriptor);
+  }
+  
+  /**
+   * Get a registered backend by name
+   */
+  get(name: string): CaptureBackendDescriptor {
+    const descriptor = this.backends.get(name);
+    
+    if (!descriptor) {
+      throw ErrorHandler.createConfigError(
+        `Unknown capture backend: ${name}`,
+        { available: this.getBackendNames() }
+      );
+    }
+    
+    return descriptor;
+  }
+  
+  /**
+   * Check whether a backend is registered
+   */
+  has(name: string): boolean {
+    return this.backends.has(name);
+  }
+  
+  /**
+   * Get the names of all registered backends
+   */
+  getBackendNames(): string[] {
+    return Array.from(this.backends.keys());
+  }
+  
+  /**
+   * Resolve a device ID to a backend and backend-specific source.
+   *
+   * Device IDs of the form `<backend>:<source>` (e.g. `wav:C:\speech.wav`)
+   * select that backend directly; anything else is passed to the default
+   * backend unchanged.
+   */
+  resolve(deviceId: string, defaultBackend: string): ResolvedCaptureBackend {
+    const separator = deviceId.indexOf(':');
+    
+    if (separator > 0) {
+      const backend = deviceId.slice(0, separator);
+      if (this.backends.has(backend)) {
+        const source = deviceId.slice(separator + 1);
+        return source ? { backend, source } : { backend };
+      }
+    }
+    
+    return { backend: defaultBackend };
+  }
+}
@@ -0,0 +1,704 @@
+/**
+ * Capture Session
+ * 
+ * One running capture from one device: format conversion, ring buffer,
+ * preprocessing, VAD, segmentation, level metering and history. The
+ * AudioCaptureManager runs several sessions side by side, each fed by its
+ * own backend instance.
+ */
+
+import { EventEmitter } from 'events';
+import { Logger } from '../utils/logger.js';
+import { ConfigManager } from '../utils/config-manager.js';
+import { ErrorHandler, AudioMCPError } from '../utils/error-handler.js';
+import { AudioCaptureConfig, AudioChunk, NativeAudioModule } from './audio-capture-manager.js';
+import { AudioFormat, FormatConverter } from './format-converter.js';
+import { UtteranceSegmenter, Utterance } from './utterance-segmenter.js';
+import { AudioHistoryBuffer } from './audio-history-buffer.js';
+import { LevelMeter, AudioLevelReport, diagnoseLevels } from './level-meter.js';
+import { AudioPreprocessor, getBuiltInPreprocessingProfile } from './audio-preprocessor.js';
+import { CaptureTimeline, TimelineStatus } from './capture-timeline.js';
+import {
+  VoiceActivityDetection,
+  VoiceActivityDetector,
+  SpectralVoiceActivityDetector,
+  VadDecision
+} from './voice-activity-detector.js';
+
+export interface CaptureGap {
+  // Sample frame offset in the captured audio at which the pause began
+  atSample: number;
+  pausedAt: string;
+  resumedAt?: string;
+  durationMs?: number;
+}
+
+export interface VadFrame extends VadDecision {
+  // Position of the frame on the capture timeline
+  startSample: number;
+  wallClock: number;
+}
+
+export interface CaptureSessionInfo {
+  sessionId: string;
+  deviceId: string;
+  sampleRate: number;
+  channels: number;
+  bufferSizeMs: number;
+  startedAt: string;
+  active: boolean;
+  paused: boolean;
+  gaps: CaptureGap[];
+  timeline: TimelineStatus;
+}
+
+// Drift between received audio and the host clock worth warning about
+const DRIFT_WARNING_MS = 250;
+
+/**
+ * Ring buffer for efficient audio data management
+ */
+class RingBuffer {
+  private buffer: Float32Array;
+  private writePos = 0;
+  private readPos = 0;
+  private size: number;
+  
+  constructor(sizeInSamples: number) {
+    this.size = sizeInSamples;
+    this.buffer = new Float32Array(sizeInSamples);
+  }
+  
+  write(data: Float32Array): boolean {
+    const availableSpace = this.getAvailableSpace();
+    if (data.length > availableSpace) {
+      return false; // Buffer overflow
+    }
+    
+    for (let i = 0; i < data.length; i++) {
+      this.buffer[this.writePos] = data[i];
+      this.writePos = (this.writePos + 1) % this.size;
+    }
+    
+    return true;
+  }
+  
+  read(samples: number): Float32Array {
+    const available = this.getAvailableData();
+    const toRead = Math.min(samples, available);
+    const result = new Float32Array(toRead);
+    
+    for (let i = 0; i < toRead; i++) {
+      result[i] = this.buffer[this.readPos];
+      this.readPos = (this.readPos + 1) % this.size;
+    }
+    
+    return result;
+  }
+  
+  getAvailableData(): number {
+    return (this.writePos - this.readPos + this.size) % this.size;
+  }
+  
+  getAvailableSpace(): number {
+    return this.size - this.getAvailableData() - 1;
+  }
+  
+  clear(): void {
+    this.writePos = 0;
+    this.readPos = 0;
+  }
+}
+
+export class CaptureSession extends EventEmitter {
+  readonly id: string;
+  readonly config: AudioCaptureConfig;
+  readonly backend: NativeAudioModule;
+  private logger: Logger;
+  private configManager: ConfigManager;
+  private ringBuffer: RingBuffer;
+  private history: AudioHistoryBuffer;
+  private formatConverter: FormatConverter;
+  private segmenter: UtteranceSegmenter;
+  private levelMeter: LevelMeter;
+  private preprocessor: AudioPreprocessor;
+  private vad: VoiceActivityDetection;
+  private timeline: CaptureTimeline;
+  private driftWarned = false;
+  private lastAudioDataTime = 0;
+  private processedFrames = 0;
+  private isCapturing = false;
+  private paused = false;
+  private gaps: CaptureGap[] = [];
+  private startedAt: Date | null = null;
+  private audioChunks: AudioChunk[] = [];
+  private processingInterval: NodeJS.Timeout | null = null;
+  
+  constructor(id: string, config: AudioCaptureConfig, backend: NativeAudioModule) {
+    super();
+    this.id = id;
+    this.config = config;
+    this.backend = backend;
+    this.logger = Logger.getInstance();
+    this.configManager = ConfigManager.getInstance();
+    
+    const audioConfig = this.configManager.getAudioConfig();
+    this.preprocessor = this.createPreprocessor();
+    this.timeline = new CaptureTimeline(config.sampleRate);
+    
+    // Convert whatever the backend delivers to the requested canonical format
+    const inputFormat: AudioFormat = backend.getCaptureFormat?.() ?? {
+      sampleRate: config.sampleRate,
+      channels: config.channels,
+      sampleFormat: 'Float32'
+    };
+    this.formatConverter = new FormatConverter(
+      inputFormat,
+      { sampleRate: config.sampleRate, channels: config.channels },
+      audioConfig.resampleQuality
+    );
+    this.logger.debug('Capture format conversion', { sessionId: id, input: inputFormat, output: config });
+    
+    // Create ring buffer based on configuration
+    const bufferSizeInSamples = Math.ceil(
+      (config.sampleRate * config.channels * 10) // 10 seconds buffer
+    );
+    this.ringBuffer = new RingBuffer(bufferSizeInSamples);
+    
+    // Processed audio stays readable after the session stops
+    this.history = new AudioHistoryBuffer(config.sampleRate * audioConfig.historySeconds, config.channels);
+    
+    this.vad = this.createVoiceActivityDetector();
+    this.levelMeter = new LevelMeter(config.channels, audioConfig.segmentation.frameMs);
+    
+    const segmentation = audioConfig.segmentation;
+    this.segmenter = new UtteranceSegmenter({
+      sampleRate: config.sampleRate,
+      channels: config.channels,
+      preRollMs: segmentation.preRollMs,
+      postRollMs: segmentation.postRollMs,
+      maxUtteranceMs: segmentation.maxUtteranceMs,
+      minUtteranceMs: segmentation.minUtteranceMs
+    }, (sample) => this.timeline.toWallClock(sample));
+  }
+  
+  /**
+   * Start the backend and the processing loop
+   */
+  start(): void {
+    if (!this.backend.startCapture(this.config)) {
+      throw ErrorHandler.createCaptureError('Failed to start native audio capture', {
+        sessionId: this.id,
+        deviceId: this.config.deviceId
+      });
+    }
+    
+    this.isCapturing = true;
+    this.startedAt = new Date();
+    this.timeline.start(this.startedAt.getTime());
+    this.startAudioProcessing();
+  }
+  
+  /**
+   * Stop the backend, drain buffered audio and close the utterance in progress
+   */
+  stop(): void {
+    if (!this.isCapturing) {
+      return;
+    }
+    
+    this.backend.stopCapture();
+    
+    if (this.processingInterval) {
+      clearInterval(this.processingInterval);
+      this.processingInterval = null;
+    }
+    
+    this.processAudioChunks();
+    const lastUtterance = this.segmenter.flush();
+    if (lastUtterance) {
+      this.onUtterance(lastUtterance);
+    }
+    
+    // A capture stopped while paused ends with the pause still open
+    if (this.paused) {
+      this.closeGap();
+      this.paused = false;
+    }
+    
+    this.isCapturing = false;
+    this.ringBuffer.clear();
+    
+    this.emit('captureStopped');
+  }
+  
+  /**
+   * Stop accepting audio while keeping the device open. The audio processed
+   * so far is drained and the utterance in progress is closed.
+   */
+  pause(): CaptureGap {
+    if (!this.isCapturing) {
+      throw ErrorHandler.createCaptureError(`Capture session ${this.id} is not active`);
+    }
+    
+    if (this.paused) {
+      throw ErrorHandler.createCaptureError(`Capture session ${this.id} is already paused`);
+    }
+    
+    this.processAudioChunks();
+    const lastUtterance = this.segmenter.flush();
+    if (lastUtterance) {
+      this.onUtterance(lastUtterance);
+    }
+    
+    this.paused = true;
+    this.ringBuffer.clear();
+    // Audio received but not yet processed was just discarded
+    this.timeline.pause(this.processedFrames);
+    
+    const gap: CaptureGap = {
+      atSample: this.processedFrames,
+      pausedAt: new Date().toISOString()
+    };
+    this.gaps.push(gap);
+    
+    this.logger.info(`Capture session ${this.id} paused`, { atSample: gap.atSample });
+    this.emit('capturePaused', { ...gap });
+    
+    return { ...gap };
+  }
+  
+  /**
+   * Accept audio again after a pause; later utterances are timestamped after the gap
+   */
+  resume(): CaptureGap {
+    if (!this.isCapturing) {
+      throw ErrorHandler.createCaptureError(`Capture session ${this.id} is not active`);
+    }
+    
+    if (!this.paused) {
+      throw ErrorHandler.createCaptureError(`Capture session ${this.id} is not paused`);
+    }
+    
+    const gap = this.closeGap();
+    this.segmenter.addGap();
+    // Don't let resampler state from before the pause bleed into new audio
+    this.formatConverter.reset();
+    this.paused = false;
+    
+    this.logger.info(`Capture session ${this.id} resumed`, { durationMs: gap.durationMs });
+    this.emit('captureResumed', { ...gap });
+    
+    return { ...gap };
+  }
+  
+  /**
+   * Whether the session is still capturing
+   */
+  isActive(): boolean {
+    return this.isCapturing;
+  }
+  
+  /**
+   * Whether the session is paused
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
+  
+  /**
+   * Pauses so far, in order; the last one is still open while paused
+   */
+  getGaps(): CaptureGap[] {
+    return this.gaps.map(gap => ({ ...gap }));
+  }
+  
+  /**
+   * Describe the session for clients
+   */
+  getInfo(): CaptureSessionInfo {
+    return {
+      sessionId: this.id,
+      deviceId: this.config.deviceId,
+      sampleRate: this.config.sampleRate,
+      channels: this.config.channels,
+      bufferSizeMs: this.config.bufferSizeMs,
+      startedAt: (this.startedAt ?? new Date()).toISOString(),
+      active: this.isCapturing,
+      paused: this.paused,
+      gaps: this.getGaps(),
+      timeline: this.timeline.getStatus()
+    };
+  }
+  
+  /**
+   * Get audio stream for real-time processing
+   */
+  getAudioStream(): ReadableStream {
+    if (!this.isCapturing) {
+      throw ErrorHandler.createCaptureError('No active audio capture');
+    }
+    
+    let detach = () => {};
+    
+    return new ReadableStream({
+      start: (controller) => {
+        const onChunk = (chunk: AudioChunk) => {
+          controller.enqueue(chunk);
+        };
+        
+        const onStopped = () => {
+          detach();
+          controller.close();
+        };
+        
+        detach = () => {
+          this.off('audioChunk', onChunk);
+          this.off('captureStopped', onStopped);
+        };
+        
+        this.on('audioChunk', onChunk);
+        this.on('captureStopped', onStopped);
+      },
+      cancel: () => {
+        detach();
+      }
+    });
+  }
+  
+  /**
+   * Get the most recent seconds of processed audio
+   */
+  getRecentAudio(seconds: number): AudioChunk | null {
+    if (this.history.getAvailableFrames() === 0) {
+      return null;
+    }
+    
+    const { sampleRate, channels } = this.config;
+    const data = this.history.readLatest(Math.round(seconds * sampleRate));
+    const startSample = this.history.getTotalFrames() - data.length / channels;
+    
+    return {
+      data,
+      timestamp: this.timeline.toWallClock(startSample),
+      startSample,
+      duration: (data.length / channels / sampleRate) * 1000,
+      sampleRate,
+      channels
+    };
+  }
+  
+  /**
+   * Get the processed audio captured between two wall-clock times (ms since
+   * the epoch), clipped to what the history still holds. Paused time holds
+   * no audio and is skipped.
+   */
+  getAudioRange(from: number, to: number): AudioChunk | null {
+    const { sampleRate, channels } = this.config;
+    const oldestFrame = this.history.getTotalFrames() - this.history.getAvailableFrames();
+    const startFrame = Math.max(oldestFrame, this.timeline.toSample(from));
+    
+    const data = this.history.readRange(startFrame, this.timeline.toSample(to));
+    if (data.length === 0) {
+      return null;
+    }
+    
+    return {
+      data,
+      timestamp: this.timeline.toWallClock(startFrame),
+      startSample: startFrame,
+      duration: (data.length / channels / sampleRate) * 1000,
+      sampleRate,
+      channels
+    };
+  }
+  
+  /**
+   * Wall-clock time at which a sample frame on the capture timeline was captured
+   */
+  getWallClock(sample: number): number {
+    return this.timeline.toWallClock(sample);
+  }
+  
+  /**
+   * Get recent audio chunks
+   */
+  getRecentAudioChunks(durationSeconds = 10): AudioChunk[] {
+    const cutoffTime = Date.now() - (durationSeconds * 1000);
+    return this.audioChunks.filter(chunk => chunk.timestamp > cutoffTime);
+  }
+  
+  /**
+   * Get the latest input levels and a diagnosis of the input signal
+   */
+  getAudioLevels(): AudioLevelReport {
+    const levels = this.levelMeter.getLevels();
+    const secondsSinceAudio = this.lastAudioDataTime > 0
+      ? (Date.now() - this.lastAudioDataTime) / 1000
+      : null;
+      
+    let status: AudioLevelReport['status'] = 'inactive';
+    if (this.paused) {
+      status = 'paused';
+    } else if (this.isCapturing) {
+      status = diagnoseLevels(levels, secondsSinceAudio, this.levelMeter.isClipping());
+    }
+    
+    return {
+      capturing: this.isCapturing,
+      sessionId: this.id,
+      deviceId: this.config.deviceId,
+      status,
+      secondsSinceAudio,
+      levels,
+      vad: this.getVadState()
+    };
+  }
+  
+  /**
+   * Get the most recent per-frame voice activity decision
+   */
+  getVadState(): VadDecision | null {
+    return this.isCapturing ? this.vad.getLastDecision() : null;
+  }
+  
+  /**
+   * Handle incoming audio data from the session's backend
+   */
+  onAudioData(audioData: Buffer): void {
+    this.lastAudioDataTime = Date.now();
+    
+    // The device keeps delivering while paused; that audio is discarded
+    if (!this.isCapturing || this.paused) {
+      return;
+    }
+    
+    try {
+      // Convert to canonical interleaved Float32
+      const floatData = this.formatConverter.convert(audioData);
+      const frames = floatData.length / this.config.channels;
+      
+      // Write to ring buffer
+      if (!this.ringBuffer.write(floatData)) {
+        this.logger.warn(`Ring buffer overflow in session ${this.id}, dropping audio data`);
+        this.timeline.drop(frames);
+        this.emit('bufferOverflow', { atSample: this.timeline.getPosition(), droppedFrames: frames });
+        return;
+      }
+      
+      this.timeline.receive(frames, this.lastAudioDataTime);
+      this.checkDrift();
+      
+    } catch (error) {
+      this.logger.error('Error processing audio data', error);
+    }
+  }
+  
+  /**
+   * Handle a backend whose source ended or failed
+   */
+  onBackendError(error: AudioMCPError): void {
+    this.logger.error(`Capture backend of session ${this.id} reported an error`, error);
+    this.emit('captureError', error);
+  }
+  
+  /**
+   * Warn once when the device clock and the host clock drift apart
+   */
+  private checkDrift(): void {
+    const driftMs = this.timeline.getDriftMs();
+    
+    if (Math.abs(driftMs) <= DRIFT_WARNING_MS) {
+      this.driftWarned = false;
+      return;
+    }
+    
+    if (!this.driftWarned) {
+      this.driftWarned = true;
+      this.logger.warn(`Capture session ${this.id} drifted ${Math.round(driftMs)}ms from the host clock`, {
+        position: this.timeline.getPosition()
+      });
+      this.emit('timelineDrift', driftMs);
+    }
+  }
+  
+  private closeGap(): CaptureGap {
+    const gap = this.gaps[this.gaps.length - 1];
+    const resumedAt = new Date();
+    
+    gap.resumedAt = resumedAt.toISOString();
+    gap.durationMs = resumedAt.getTime() - new Date(gap.pausedAt).getTime();
+    
+    return gap;
+  }
+  
+  /**
+   * Create the voice activity detector selected in the audio configuration
+   */
+  private createVoiceActivityDetector(): VoiceActivityDetection {
+    const vadConfig = this.configManager.getAudioConfig().vad;
+    
+    // Thresholds calibrated for this device override the global ones
+    const deviceVad = this.configManager.getDeviceProfile(this.config.deviceId)?.vad;
+    
+    if (vadConfig.type === 'spectral') {
+      return new SpectralVoiceActivityDetector({
+        sampleRate: this.config.sampleRate,
+        channels: this.config.channels,
+        speechThreshold: vadConfig.spectral.speechThreshold,
+        snrThresholdDb: deviceVad?.snrThresholdDb ?? vadConfig.spectral.snrThresholdDb,
+        flatnessThreshold: vadConfig.spectral.flatnessThreshold,
+        noiseAdaptation: vadConfig.spectral.noiseAdaptation,
+        minSpeechDuration: vadConfig.minSpeechDuration,
+        minSilenceDuration: vadConfig.minSilenceDuration
+      });
+    }
+    
+    return new VoiceActivityDetector(
+      deviceVad?.energyThreshold ?? vadConfig.energyThreshold,
+      deviceVad?.silenceThreshold ?? vadConfig.silenceThreshold,
+      vadConfig.minSpeechDuration,
+      vadConfig.minSilenceDuration
+    );
+  }
+  
+  /**
+   * Create the preprocessing chain for the device's profile (or the default one)
+   */
+  private createPreprocessor(): AudioPreprocessor {
+    const preprocessing = this.configManager.getAudioConfig().preprocessing;
+    const profileName = this.configManager.getDeviceProfile(this.config.deviceId)?.preprocessing ?? preprocessing.profile;
+    const profile = preprocessing.profiles[profileName] ?? getBuiltInPreprocessingProfile(profileName);
+    
+    if (!profile) {
+      throw ErrorHandler.createConfigError(`Unknown preprocessing profile: ${profileName}`);
+    }
+    
+    const preprocessor = new AudioPreprocessor(profile, {
+      sampleRate: this.config.sampleRate,
+      channels: this.config.channels
+    });
+    this.logger.debug(`Preprocessing profile ${profileName}`, { stages: preprocessor.getStageNames() });
+    
+    return preprocessor;
+  }
+  
+  /**
+   * Start audio chunk processing
+   */
+  private startAudioProcessing(): void {
+    const chunkIntervalMs = 100; // Process chunks every 100ms
+    
+    this.processingInterval = setInterval(() => {
+      this.processAudioChunks();
+    }, chunkIntervalMs);
+  }
+  
+  /**
+   * Process audio chunks from ring buffer
+   */
+  private processAudioChunks(): void {
+    const { sampleRate, channels } = this.config;
+    const frameMs = this.configManager.getAudioConfig().segmentation.frameMs;
+    const samplesPerFrame = Math.max(1, Math.round((sampleRate * frameMs) / 1000)) * channels;
+    
+    const framesAvailable = Math.floor(this.ringBuffer.getAvailableData() / samplesPerFrame);
+    if (framesAvailable === 0) {
+      return;
+    }
+    
+    const rawData = this.ringBuffer.read(framesAvailable * samplesPerFrame);
+    const startSample = this.processedFrames;
+    
+    // Everything downstream sees preprocessed audio; levels reflect the raw input
+    const audioData = this.preprocessor.process(rawData);
+    this.history.write(audioData);
+    
+    for (let offset = 0; offset < audioData.length; offset += samplesPerFrame) {
+      const frame = audioData.subarray(offset, offset + samplesPerFrame);
+      const frameSample = this.processedFrames;
+      const frameTimeMs = (frameSample * 1000) / sampleRate;
+      
+      this.emit('levels', this.levelMeter.process(rawData.subarray(offset, offset + samplesPerFrame), frameTimeMs));
+      
+      // Apply voice activity detection on the sample timeline
+      const hasVoice = this.vad.processAudio(frame, frameTimeMs);
+      
+      const decision = this.vad.getLastDecision();
+      if (decision) {
+        const vadFrame: VadFrame = {
+          ...decision,
+          startSample: frameSample,
+          wallClock: this.timeline.toWallClock(frameSample)
+        };
+        this.emit('vadFrame', vadFrame);
+      }
+      
+      const wasInUtterance = this.segmenter.isInUtterance();
+      for (const utterance of this.segmenter.process(frame, hasVoice)) {
+        this.onUtterance(utterance);
+      }
+      
+      if (!wasInUtterance && this.segmenter.isInUtterance()) {
+        this.onUtteranceStarted();
+      }
+      
+      this.processedFrames += samplesPerFrame / channels;
+    }
+    
+    // Emit the continuous stream for live consumers
+    const chunk: AudioChunk = {
+      data: audioData,
+      timestamp: this.timeline.toWallClock(startSample),
+      startSample,
+      duration: ((this.processedFrames - startSample) * 1000) / sampleRate,
+      sampleRate,
+      channels
+    };
+    this.emit('audioChunk', chunk);
+  }
+  
+  /**
+   * Store and publish a completed utterance
+   */
+  private onUtterance(utterance: Utterance): void {
+    this.audioChunks.push(utterance);
+    
+    // Limit history
+    const maxChunks = this.configManager.getServerConfig().transcriptionHistoryLimit;
+    if (this.audioChunks.length > maxChunks) {
+      this.audioChunks = this.audioChunks.slice(-maxChunks);
+    }
+    
+    this.logger.debug('Utterance detected', {
+      sessionId: this.id,
+      id: utterance.id,
+      startSample: utterance.startSample,
+      endSample: utterance.endSample,
+      reason: utterance.reason
+    });
+    
+    this.emit('utterance', utterance);
+  }
+  
+  /**
+   * Publish the start of an utterance with its audio so far (pre-roll and
+   * first speech frame); the rest follows in audioChunk events until the
+   * utterance event
+   */
+  private onUtteranceStarted(): void {
+    const { sampleRate, channels } = this.config;
+    const active = this.segmenter.getActiveAudio()!;
+    const frames = active.data.length / channels;
+    
+    const chunk: AudioChunk = {
+      data: active.data,
+      timestamp: this.timeline.toWallClock(active.startSample),
+      startSample: active.startSample,
+      duration: (frames * 1000) / sampleRate,
+      sampleRate,
+      channels
+    };
+    this.emit('utteranceStarted', chunk);
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Capture Timeline
+ * 
+ * Monotonic clock of one capture, counted in sample frames of the audio that
+ * was actually received. Sample offsets map to wall-clock times through
+ * anchors: one taken when audio first arrives, and a new one after every
+ * discontinuity (a pause, or buffers dropped on overflow). Within an anchor
+ * the timeline advances by the sample count alone, so comparing it with the
+ * arrival times of buffers reveals drift between the device and host clocks.
+ */
+
+export interface TimelineAnchor {
+  // Sample frame offset from which the anchor applies
+  atSample: number;
+  // Wall-clock time (ms since the epoch) at which that frame was captured
+  wallClock: number;
+  reason: 'start' | 'pause' | 'overflow';
+  // Wall-clock time skipped at the anchor, compared with running on from the previous one
+  gapMs: number;
+}
+
+export interface TimelineStatus {
+  sampleRate: number;
+  // Frames received so far, i.e. the offset of the next frame
+  position: number;
+  droppedFrames: number;
+  // Wall-clock time elapsed minus audio received since the last anchor;
+  // positive when the device delivers slower than the host clock
+  driftMs: number;
+  maxDriftMs: number;
+  anchors: Array<Omit<TimelineAnchor, 'wallClock'> & { wallClock: string }>;
+}
+
+export class CaptureTimeline {
+  private sampleRate: number;
+  private position = 0;
+  private droppedFrames = 0;
+  private anchors: TimelineAnchor[] = [];
+  private pendingAnchor: TimelineAnchor['reason'] | null = 'start';
+  private driftMs = 0;
+  private maxDriftMs = 0;
+  
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+  }
+  
+  /**
+   * Provisional anchor for frame 0, replaced once the first audio arrives
+   */
+  start(wallClock: number): void {
+    this.anchors = [{ atSample: 0, wallClock, reason: 'start', gapMs: 0 }];
+  }
+  
+  /**
+   * Account for frames that arrived at a wall-clock time; the newest of
+   * them was captured just before arrival
+   */
+  receive(frames: number, arrivedAt: number): void {
+    if (frames <= 0) {
+      return;
+    }
+    
+    if (this.pendingAnchor) {
+      this.setAnchor(this.pendingAnchor, arrivedAt - this.framesToMs(frames));
+      this.pendingAnchor = null;
+    }
+    
+    this.position += frames;
+    
+    const anchor = this.anchors[this.anchors.length - 1];
+    this.driftMs = arrivedAt - anchor.wallClock - this.framesToMs(this.position - anchor.atSample);
+    if (Math.abs(this.driftMs) > Math.abs(this.maxDriftMs)) {
+      this.maxDriftMs = this.driftMs;
+    }
+  }
+  
+  /**
+   * Account for frames that arrived but were lost; the timeline re-anchors
+   * on the next audio that gets through
+   */
+  drop(frames: number): void {
+    this.droppedFrames += frames;
+    this.pendingAnchor ??= 'overflow';
+  }
+  
+  /**
+   * Account for a pause: frames from `position` on were discarded and the
+   * timeline re-anchors when audio arrives again
+   */
+  pause(position: number): void {
+    // An anchor inside the discarded audio no longer applies
+    while (this.anchors.length > 1 && this.anchors[this.anchors.length - 1].atSample > position) {
+      this.anchors.pop();
+    }
+    
+    this.position = position;
+    this.pendingAnchor = 'pause';
+  }
+  
+  /**
+   * Wall-clock time at which a sample frame was captured
+   */
+  toWallClock(sample: number): number {
+    const anchor = this.findAnchor(candidate => candidate.atSample <= sample);
+    if (!anchor) {
+      return Date.now();
+    }
+    
+    return anchor.wallClock + this.framesToMs(sample - anchor.atSample);
+  }
+  
+  /**
+   * Sample frame captured at a wall-clock time; times inside a discontinuity
+   * map to the frame that follows it
+   */
+  toSample(wallClock: number): number {
+    const index = this.findAnchorIndex(candidate => candidate.wallClock <= wallClock);
+    if (index < 0) {
+      return 0;
+    }
+    
+    const anchor = this.anchors[index];
+    const next = this.anchors[index + 1];
+    const sample = anchor.atSample + Math.round(((wallClock - anchor.wallClock) * this.sampleRate) / 1000);
+    
+    return next ? Math.min(sample, next.atSample) : sample;
+  }
+  
+  /**
+   * Offset of the next frame to be received
+   */
+  getPosition(): number {
+    return this.position;
+  }
+  
+  /**
+   * Current drift between received audio and the host clock, in milliseconds
+   */
+  getDriftMs(): number {
+    return this.driftMs;
+  }
+  
+  getStatus(): TimelineStatus {
+    return {
+      sampleRate: this.sampleRate,
+      position: this.position,
+      droppedFrames: this.droppedFrames,
+      driftMs: Math.round(this.driftMs * 10) / 10,
+      maxDriftMs: Math.round(this.maxDriftMs * 10) / 10,
+      anchors: this.anchors.map(anchor => ({
+        ...anchor,
+        wallClock: new Date(anchor.wallClock).toISOString(),
+        gapMs: Math.round(anchor.gapMs * 10) / 10
+      }))
+    };
+  }
+  
+  private setAnchor(reason: TimelineAnchor['reason'], wallClock: number): void {
+    const last = this.anchors[this.anchors.length - 1];
+    
+    // No audio since the last anchor, so it only gets a better time
+    if (last && last.atSample === this.position) {
+      this.anchors.pop();
+      const previous = this.anchors[this.anchors.length - 1];
+      this.anchors.push({
+        atSample: this.position,
+        wallClock,
+        reason: last.reason,
+        gapMs: previous ? wallClock - this.projectFrom(previous, this.position) : 0
+      });
+      return;
+    }
+    
+    this.anchors.push({
+      atSample: this.position,
+      wallClock,
+      reason,
+      gapMs: last ? wallClock - this.projectFrom(last, this.position) : 0
+    });
+  }
+  
+  private projectFrom(anchor: TimelineAnchor, sample: number): number {
+    return anchor.wallClock + this.framesToMs(sample - anchor.atSample);
+  }
+  
+  private findAnchor(predicate: (anchor: TimelineAnchor) => boolean): TimelineAnchor | undefined {
+    const index = this.findAnchorIndex(predicate);
+    return index >= 0 ? this.anchors[index] : undefined;
+  }
+  
+  private findAnchorIndex(predicate: (anchor: TimelineAnchor) => boolean): number {
+    for (let i = this.anchors.length - 1; i >= 0; i--) {
+      if (predicate(this.anchors[i])) {
+        return i;
+      }
+    }
+    return -1;
+  }
+  
+  private framesToMs(frames: number): number {
+    return (frames * 1000) / this.sampleRate;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * FFT Utilities
+ * 
+ * Minimal radix-2 FFT and windowing helpers for frame-level spectral
+ * analysis of captured audio.
+ */
+
+/**
+ * Smallest power of two that is >= n
+ */
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) {
+    size <<= 1;
+  }
+  return size;
+}
+
+/**
+ * Periodic Hann window of the given length
+ */
+export function hannWindow(length: number): Float32Array {
+  const window = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / length);
+  }
+  return window;
+}
+
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` must have the same
+ * power-of-two length.
+ */
+export function fft(re: Float64Array, im: Float64Array, inverse = false): void {
+  const n = re.length;
+  
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+  
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
+
+/**
+ * Power spectrum (bins 0..size/2) of a windowed, zero-padded frame
+ */
+export function powerSpectrum(frame: Float32Array, window: Float32Array, size: number): Float64Array {
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  const length = Math.min(frame.length, window.length, size);
+  
+  for (let i = 0; i < length; i++) {
+    re[i] = frame[i] * window[i];
+  }
+  
+  fft(re, im);
+  
+  const power = new Float64Array(size / 2 + 1);
+  for (let i = 0; i < power.length; i++) {
+    power[i] = re[i] * re[i] + im[i] * im[i];
+  }
+  
+  return power;
+}
@@ -0,0 +1,379 @@
+/**
+ * FLAC Encoder
+ * 
+ * Streaming FLAC encoder for recordings: fixed-blocksize frames using the
+ * best FIXED predictor (order 0-4) per subframe and Rice-coded residuals,
+ * falling back to VERBATIM or CONSTANT subframes where they are smaller.
+ */
+
+import { createHash, Hash } from 'crypto';
+import { StreamFormat } from './format-converter.js';
+
+export interface FlacEncoderOptions extends StreamFormat {
+  bitsPerSample: 16 | 24;
+  blockSize?: number;
+  // Vorbis comments, e.g. { TITLE: '...', DATE: '...' }
+  tags?: Record<string, string>;
+}
+
+// Offset of the STREAMINFO body after "fLaC" and its block header
+export const FLAC_STREAMINFO_OFFSET = 8;
+
+const MAX_RICE_PARAMETER = 14;
+
+/**
+ * MSB-first bit writer backed by a growable byte array
+ */
+class BitWriter {
+  private bytes: Uint8Array = new Uint8Array(4096);
+  private length = 0;
+  private current = 0;
+  private bitCount = 0;
+  
+  writeBits(value: number, count: number): void {
+    // Split wide values so intermediate results stay within 32-bit operations
+    if (count > 24) {
+      const high = Math.floor(value / 0x1000000);
+      this.writeBits(high, count - 24);
+      this.writeBits(value - high * 0x1000000, 24);
+      return;
+    }
+    
+    for (let bit = count - 1; bit >= 0; bit--) {
+      this.current = (this.current << 1) | ((value >>> bit) & 1);
+      this.bitCount++;
+      
+      if (this.bitCount === 8) {
+        this.pushByte(this.current);
+        this.current = 0;
+        this.bitCount = 0;
+      }
+    }
+  }
+  
+  writeSigned(value: number, count: number): void {
+    this.writeBits(value < 0 ? value + Math.pow(2, count) : value, count);
+  }
+  
+  writeUnary(zeros: number): void {
+    for (let i = 0; i < zeros; i++) {
+      this.writeBits(0, 1);
+    }
+    this.writeBits(1, 1);
+  }
+  
+  alignToByte(): void {
+    if (this.bitCount > 0) {
+      this.writeBits(0, 8 - this.bitCount);
+    }
+  }
+  
+  getBytes(): Uint8Array {
+    return this.bytes.subarray(0, this.length);
+  }
+  
+  private pushByte(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+export class FlacEncoder {
+  private options: FlacEncoderOptions;
+  private blockSize: number;
+  private pending: number[][];
+  private frameNumber = 0;
+  private totalSamples = 0;
+  private minFrameSize = 0;
+  private maxFrameSize = 0;
+  private md5: Hash;
+  
+  constructor(options: FlacEncoderOptions) {
+    this.options = options;
+    this.blockSize = options.blockSize ?? 4096;
+    this.pending = Array.from({ length: options.channels }, () => []);
+    this.md5 = createHash('md5');
+  }
+  
+  /**
+   * Stream marker, STREAMINFO and VORBIS_COMMENT metadata blocks.
+   * STREAMINFO is only complete once the stream is finished, see getStreamInfo().
+   */
+  getHeader(): Buffer {
+    const streamInfo = Buffer.alloc(4);
+    streamInfo.writeUInt32BE(34, 0);
+    
+    return Buffer.concat([
+      Buffer.from('fLaC', 'ascii'),
+      streamInfo,
+      this.getStreamInfo(),
+      this.createVorbisComment()
+    ]);
+  }
+  
+  /**
+   * Encode interleaved Float32 samples, returning any completed frames
+   */
+  encode(samples: Float32Array): Buffer {
+    const channels = this.options.channels;
+    const frames = Math.floor(samples.length / channels);
+    const scale = Math.pow(2, this.options.bitsPerSample - 1);
+    const bytesPerSample = this.options.bitsPerSample / 8;
+    const raw = Buffer.alloc(frames * channels * bytesPerSample);
+    
+    for (let i = 0; i < frames * channels; i++) {
+      const value = Math.max(-scale, Math.min(scale - 1, Math.round(samples[i] * scale)));
+      this.pending[i % channels].push(value);
+      raw.writeIntLE(value, i * bytesPerSample, bytesPerSample);
+    }
+    
+    // The STREAMINFO signature covers the interleaved integer samples
+    this.md5.update(raw);
+    
+    const output: Buffer[] = [];
+    while (this.pending[0].length >= this.blockSize) {
+      output.push(this.encodeFrame(this.blockSize));
+    }
+    
+    return Buffer.concat(output);
+  }
+  
+  /**
+   * Encode the remaining samples as a final, shorter frame
+   */
+  flush(): Buffer {
+    return this.pending[0].length > 0 ? this.encodeFrame(this.pending[0].length) : Buffer.alloc(0);
+  }
+  
+  /**
+   * The 34-byte STREAMINFO body, to be written at FLAC_STREAMINFO_OFFSET
+   */
+  getStreamInfo(): Buffer {
+    const writer = new BitWriter();
+    writer.writeBits(this.blockSize, 16);
+    writer.writeBits(this.blockSize, 16);
+    writer.writeBits(this.minFrameSize, 24);
+    writer.writeBits(this.maxFrameSize, 24);
+    writer.writeBits(this.options.sampleRate, 20);
+    writer.writeBits(this.options.channels - 1, 3);
+    writer.writeBits(this.options.bitsPerSample - 1, 5);
+    writer.writeBits(this.totalSamples, 36);
+    
+    // Unknown (all zero) until the stream is finished
+    const signature = this.totalSamples > 0 ? this.md5.copy().digest() : Buffer.alloc(16);
+    
+    return Buffer.concat([Buffer.from(writer.getBytes()), signature]);
+  }
+  
+  private encodeFrame(blockSize: number): Buffer {
+    const writer = new BitWriter();
+    const channels = this.options.channels;
+    
+    // Frame header: sync code, fixed blocking, blocksize and sample rate
+    // taken from the end of the header / STREAMINFO
+    writer.writeBits(0xfff8, 16);
+    writer.writeBits(0b0111, 4);
+    writer.writeBits(0b0000, 4);
+    writer.writeBits(channels - 1, 4);
+    writer.writeBits(this.options.bitsPerSample === 24 ? 0b110 : 0b100, 3);
+    writer.writeBits(0, 1);
+    for (const byte of encodeUtf8Number(this.frameNumber)) {
+      writer.writeBits(byte, 8);
+    }
+    writer.writeBits(blockSize - 1, 16);
+    writer.writeBits(crc8(writer.getBytes()), 8);
+    
+    for (let ch = 0; ch < channels; ch++) {
+      const samples = this.pending[ch].splice(0, blockSize);
+      this.writeSubframe(writer, samples);
+    }
+    
+    writer.alignToByte();
+    writer.writeBits(crc16(writer.getBytes()), 16);
+    
+    const frame = Buffer.from(writer.getBytes());
+    
+    this.minFrameSize = this.minFrameSize === 0 ? frame.length : Math.min(this.minFrameSize, frame.length);
+    this.maxFrameSize = Math.max(this.maxFrameSize, frame.length);
+    this.totalSamples += blockSize;
+    this.frameNumber++;
+    
+    return frame;
+  }
+  
+  private writeSubframe(writer: BitWriter, samples: number[]): void {
+    const bitsPerSample = this.options.bitsPerSample;
+    
+    if (samples.every(sample => sample === samples[0])) {
+      writer.writeBits(0b00000000, 8);
+      writer.writeSigned(samples[0], bitsPerSample);
+      return;
+    }
+    
+    // Pick the FIXED predictor order with the cheapest Rice coding
+    let best: { order: number; residual: number[]; parameter: number; bits: number } | null = null;
+    
+    for (let order = 0; order <= Math.min(4, samples.length - 1); order++) {
+      const residual = fixedResidual(samples, order);
+      const { parameter, bits } = riceParameter(residual);
+      const totalBits = order * bitsPerSample + 10 + bits;
+      
+      if (!best || totalBits < best.bits) {
+        best = { order, residual, parameter, bits: totalBits };
+      }
+    }
+    
+    if (!best || best.bits >= samples.length * bitsPerSample) {
+      writer.writeBits(0b00000010, 8);
+      for (const sample of samples) {
+        writer.writeSigned(sample, bitsPerSample);
+      }
+      return;
+    }
+    
+    writer.writeBits(0b00010000 | (best.order << 1), 8);
+    for (let i = 0; i < best.order; i++) {
+      writer.writeSigned(samples[i], bitsPerSample);
+    }
+    
+    // Rice coding with a 4-bit parameter and a single partition
+    writer.writeBits(0b00, 2);
+    writer.writeBits(0, 4);
+    writer.writeBits(best.parameter, 4);
+    
+    const divisor = Math.pow(2, best.parameter);
+    for (const value of best.residual) {
+      const folded = value >= 0 ? value * 2 : -value * 2 - 1;
+      const quotient = Math.floor(folded / divisor);
+      writer.writeUnary(quotient);
+      writer.writeBits(folded - quotient * divisor, best.parameter);
+    }
+  }
+  
+  private createVorbisComment(): Buffer {
+    const vendor = Buffer.from('claude-desktop-realtime-audio-mcp', 'utf8');
+    const comments = Object.entries(this.options.tags ?? {})
+      .filter(([, value]) => value)
+      .map(([key, value]) => Buffer.from(`${key}=${value}`, 'utf8'));
+      
+    // Vorbis comment lengths are little-endian, unlike the rest of FLAC
+    const parts: Buffer[] = [uint32LE(vendor.length), vendor, uint32LE(comments.length)];
+    for (const comment of comments) {
+      parts.push(uint32LE(comment.length), comment);
+    }
+    const body = Buffer.concat(parts);
+    
+    // Last metadata block, type 4
+    const header = Buffer.alloc(4);
+    header.writeUInt8(0x80 | 4, 0);
+    header.writeUIntBE(body.length, 1, 3);
+    
+    return Buffer.concat([header, body]);
+  }
+}
+
+function fixedResidual(samples: number[], order: number): number[] {
+  const residual: number[] = [];
+  
+  for (let i = order; i < samples.length; i++) {
+    switch (order) {
+      case 0:
+        residual.push(samples[i]);
+        break;
+      case 1:
+        residual.push(samples[i] - samples[i - 1]);
+        break;
+      case 2:
+        residual.push(samples[i] - 2 * samples[i - 1] + samples[i - 2]);
+        break;
+      case 3:
+        residual.push(samples[i] - 3 * samples[i - 1] + 3 * samples[i - 2] - samples[i - 3]);
+        break;
+      case 4:
+        residual.push(samples[i] - 4 * samples[i - 1] + 6 * samples[i - 2] - 4 * samples[i - 3] + samples[i - 4]);
+        break;
+    }
+  }
+  
+  return residual;
+}
+
+/**
+ * Rice parameter giving the fewest bits for a residual, and that bit count
+ */
+function riceParameter(residual: number[]): { parameter: number; bits: number } {
+  const folded = residual.map(value => (value >= 0 ? value * 2 : -value * 2 - 1));
+  let best = { parameter: 0, bits: Infinity };
+  
+  for (let parameter = 0; parameter <= MAX_RICE_PARAMETER; parameter++) {
+    const divisor = Math.pow(2, parameter);
+    let bits = folded.length * (parameter + 1);
+    for (const value of folded) {
+      bits += Math.floor(value / divisor);
+    }
+    
+    if (bits < best.bits) {
+      best = { parameter, bits };
+    }
+  }
+  
+  return best;
+}
+
+/**
+ * Frame numbers use the extended UTF-8 style variable-length coding
+ */
+function encodeUtf8Number(value: number): number[] {
+  if (value < 0x80) {
+    return [value];
+  }
+  
+  const limits = [0x800, 0x10000, 0x200000, 0x4000000, 0x80000000];
+  let extraBytes = limits.findIndex(limit => value < limit) + 1;
+  if (extraBytes === 0) {
+    extraBytes = 6;
+  }
+  
+  const bytes: number[] = [];
+  let remaining = value;
+  for (let i = 0; i < extraBytes; i++) {
+    bytes.unshift(0x80 | (remaining & 0x3f));
+    remaining = Math.floor(remaining / 64);
+  }
+  
+  const prefix = (0xff00 >> (extraBytes + 1)) & 0xff;
+  bytes.unshift(prefix | remaining);
+  return bytes;
+}
+
+function crc8(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+function uint32LE(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value, 0);
+  return buffer;
+}
@@ -0,0 +1,349 @@
+/**
+ * Audio Format Converter
+ * 
+ * Converts captured audio from whatever a capture backend delivers (PCM16,
+ * PCM24, PCM32 or Float32 at any rate and channel count) to the canonical
+ * interleaved Float32 format used by the rest of the pipeline.
+ */
+
+import { ErrorHandler } from '../utils/error-handler.js';
+
+export type SampleFormat = 'PCM16' | 'PCM24' | 'PCM32' | 'Float32';
+
+export type ResampleQuality = 'low' | 'medium' | 'high';
+
+export interface StreamFormat {
+  sampleRate: number;
+  channels: number;
+}
+
+export interface AudioFormat extends StreamFormat {
+  sampleFormat: SampleFormat;
+}
+
+const BYTES_PER_SAMPLE: Record<SampleFormat, number> = {
+  PCM16: 2,
+  PCM24: 3,
+  PCM32: 4,
+  Float32: 4
+};
+
+// Half-width of the interpolation kernel, in input samples
+const KERNEL_HALF_WIDTH: Record<ResampleQuality, number> = {
+  low: 1,
+  medium: 8,
+  high: 32
+};
+
+/**
+ * Decode interleaved samples of the given format to Float32
+ */
+export function decodeSamples(buffer: Buffer, sampleFormat: SampleFormat): Float32Array {
+  const bytesPerSample = BYTES_PER_SAMPLE[sampleFormat];
+  const sampleCount = Math.floor(buffer.length / bytesPerSample);
+  
+  if (sampleFormat === 'Float32' && buffer.byteOffset % 4 === 0) {
+    return new Float32Array(buffer.buffer, buffer.byteOffset, sampleCount);
+  }
+  
+  const samples = new Float32Array(sampleCount);
+  
+  for (let i = 0; i < sampleCount; i++) {
+    const pos = i * bytesPerSample;
+    
+    switch (sampleFormat) {
+      case 'PCM16':
+        samples[i] = buffer.readInt16LE(pos) / 32768;
+        break;
+      case 'PCM24':
+        samples[i] = buffer.readIntLE(pos, 3) / 8388608;
+        break;
+      case 'PCM32':
+        samples[i] = buffer.readInt32LE(pos) / 2147483648;
+        break;
+      case 'Float32':
+        samples[i] = buffer.readFloatLE(pos);
+        break;
+    }
+  }
+  
+  return samples;
+}
+
+/**
+ * Encode Float32 samples to interleaved little-endian samples of the given format
+ */
+export function encodeSamples(samples: Float32Array, sampleFormat: SampleFormat): Buffer {
+  const bytesPerSample = BYTES_PER_SAMPLE[sampleFormat];
+  const buffer = Buffer.alloc(samples.length * bytesPerSample);
+  
+  for (let i = 0; i < samples.length; i++) {
+    const pos = i * bytesPerSample;
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    
+    switch (sampleFormat) {
+      case 'PCM16':
+        buffer.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(sample * 32768))), pos);
+        break;
+      case 'PCM24':
+        buffer.writeIntLE(Math.max(-8388608, Math.min(8388607, Math.round(sample * 8388608))), pos, 3);
+        break;
+      case 'PCM32':
+        buffer.writeInt32LE(Math.max(-2147483648, Math.min(2147483647, Math.round(sample * 2147483648))), pos);
+        break;
+      case 'Float32':
+        buffer.writeFloatLE(samples[i], pos);
+        break;
+    }
+  }
+  
+  return buffer;
+}
+
+/**
+ * Downmix or upmix interleaved samples to a different channel count
+ */
+export function mixChannels(samples: Float32Array, fromChannels: number, toChannels: number): Float32Array {
+  if (fromChannels === toChannels) {
+    return samples;
+  }
+  
+  const frames = Math.floor(samples.length / fromChannels);
+  const output = new Float32Array(frames * toChannels);
+  
+  for (let frame = 0; frame < frames; frame++) {
+    const inBase = frame * fromChannels;
+    const outBase = frame * toChannels;
+    
+    if (fromChannels > toChannels) {
+      // Average the input channels that fold into each output channel
+      for (let out = 0; out < toChannels; out++) {
+        let sum = 0;
+        let count = 0;
+        for (let ch = out; ch < fromChannels; ch += toChannels) {
+          sum += samples[inBase + ch];
+          count++;
+        }
+        output[outBase + out] = sum / count;
+      }
+    } else {
+      // Repeat the input channels across the extra output channels
+      for (let out = 0; out < toChannels; out++) {
+        output[outBase + out] = samples[inBase + (out % fromChannels)];
+      }
+    }
+  }
+  
+  return output;
+}
+
+/**
+ * Streaming sample rate converter.
+ * 
+ * `low` uses linear interpolation; `medium` and `high` use a Blackman
+ * windowed-sinc kernel that also low-pass filters when downsampling.
+ */
+export class Resampler {
+  private inputRate: number;
+  private outputRate: number;
+  private ratio: number;
+  private cutoff: number;
+  private halfWidth: number;
+  private linear: boolean;
+  private channels: number;
+  private pending: Float32Array[];
+  private position: number;
+  
+  constructor(inputRate: number, outputRate: number, channels: number, quality: ResampleQuality = 'medium') {
+    this.inputRate = inputRate;
+    this.outputRate = outputRate;
+    this.ratio = inputRate / outputRate;
+    this.cutoff = Math.min(1, outputRate / inputRate);
+    this.halfWidth = KERNEL_HALF_WIDTH[quality];
+    this.linear = quality === 'low';
+    this.channels = channels;
+    this.pending = [];
+    this.position = 0;
+    this.reset();
+  }
+  
+  /**
+   * Resample a block of interleaved samples, keeping state between calls
+   */
+  process(samples: Float32Array): Float32Array {
+    if (this.inputRate === this.outputRate) {
+      return samples;
+    }
+    
+    const frames = Math.floor(samples.length / this.channels);
+    
+    for (let ch = 0; ch < this.channels; ch++) {
+      const previous = this.pending[ch];
+      const merged = new Float32Array(previous.length + frames);
+      merged.set(previous);
+      for (let i = 0; i < frames; i++) {
+        merged[previous.length + i] = samples[i * this.channels + ch];
+      }
+      this.pending[ch] = merged;
+    }
+    
+    return this.drain();
+  }
+  
+  /**
+   * Emit the samples still held back for kernel look-ahead
+   */
+  flush(): Float32Array {
+    if (this.inputRate === this.outputRate) {
+      return new Float32Array(0);
+    }
+    
+    return this.process(new Float32Array(this.halfWidth * this.channels));
+  }
+  
+  reset(): void {
+    // Prime with silence so the first output sample has full history
+    this.pending = Array.from({ length: this.channels }, () => new Float32Array(this.halfWidth));
+    this.position = this.halfWidth;
+  }
+  
+  private drain(): Float32Array {
+    const available = this.pending[0].length;
+    const outputs: number[][] = Array.from({ length: this.channels }, () => []);
+    
+    while (Math.floor(this.position) + this.halfWidth < available) {
+      for (let ch = 0; ch < this.channels; ch++) {
+        outputs[ch].push(this.interpolate(this.pending[ch], this.position));
+      }
+      this.position += this.ratio;
+    }
+    
+    // Drop input that no future output sample can reach
+    const consumed = Math.floor(this.position) - this.halfWidth;
+    if (consumed > 0) {
+      for (let ch = 0; ch < this.channels; ch++) {
+        this.pending[ch] = this.pending[ch].slice(consumed);
+      }
+      this.position -= consumed;
+    }
+    
+    const frames = outputs[0].length;
+    const output = new Float32Array(frames * this.channels);
+    for (let i = 0; i < frames; i++) {
+      for (let ch = 0; ch < this.channels; ch++) {
+        output[i * this.channels + ch] = outputs[ch][i];
+      }
+    }
+    
+    return output;
+  }
+  
+  private interpolate(input: Float32Array, position: number): number {
+    const base = Math.floor(position);
+    const fraction = position - base;
+    
+    if (this.linear) {
+      return input[base] + (input[base + 1] - input[base]) * fraction;
+    }
+    
+    let sum = 0;
+    let weightSum = 0;
+    
+    for (let tap = -this.halfWidth + 1; tap <= this.halfWidth; tap++) {
+      const index = base + tap;
+      if (index < 0 || index >= input.length) {
+        continue;
+      }
+      
+      const distance = tap - fraction;
+      const weight = this.cutoff * sinc(this.cutoff * distance) * blackman(distance, this.halfWidth);
+      sum += input[index] * weight;
+      weightSum += weight;
+    }
+    
+    // Normalize to unity DC gain
+    return weightSum !== 0 ? sum / weightSum : 0;
+  }
+}
+
+/**
+ * Stateful converter from a backend's native format to the canonical format
+ */
+export class FormatConverter {
+  private input: AudioFormat;
+  private output: StreamFormat;
+  private resampler: Resampler;
+  private remainder: Buffer = Buffer.alloc(0);
+  
+  constructor(input: AudioFormat, output: StreamFormat, quality: ResampleQuality = 'medium') {
+    if (!(input.sampleFormat in BYTES_PER_SAMPLE)) {
+      throw ErrorHandler.createConfigError(`Unsupported sample format: ${input.sampleFormat}`);
+    }
+    
+    this.input = input;
+    this.output = output;
+    this.resampler = new Resampler(input.sampleRate, output.sampleRate, output.channels, quality);
+  }
+  
+  /**
+   * Convert a block of raw audio bytes to canonical Float32 samples
+   */
+  convert(data: Buffer): Float32Array {
+    const frameBytes = BYTES_PER_SAMPLE[this.input.sampleFormat] * this.input.channels;
+    
+    // Keep partial frames for the next block
+    const input = this.remainder.length > 0 ? Buffer.concat([this.remainder, data]) : data;
+    const usableBytes = input.length - (input.length % frameBytes);
+    this.remainder = Buffer.from(input.subarray(usableBytes));
+    
+    const decoded = decodeSamples(input.subarray(0, usableBytes), this.input.sampleFormat);
+    const mixed = mixChannels(decoded, this.input.channels, this.output.channels);
+    
+    return this.resampler.process(mixed);
+  }
+  
+  reset(): void {
+    this.remainder = Buffer.alloc(0);
+    this.resampler.reset();
+  }
+}
+
+/**
+ * One-shot conversion of Float32 samples between rates and channel counts
+ */
+export function convertAudio(
+  samples: Float32Array,
+  from: StreamFormat,
+  to: StreamFormat,
+  quality: ResampleQuality = 'medium'
+): Float32Array {
+  if (from.sampleRate === to.sampleRate && from.channels === to.channels) {
+    return samples;
+  }
+  
+  const mixed = mixChannels(samples, from.channels, to.channels);
+  const resampler = new Resampler(from.sampleRate, to.sampleRate, to.channels, quality);
+  const head = resampler.process(mixed);
+  const tail = resampler.flush();
+  
+  const output = new Float32Array(head.length + tail.length);
+  output.set(head);
+  output.set(tail, head.length);
+  return output;
+}
+
+function sinc(x: number): number {
+  if (x === 0) {
+    return 1;
+  }
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+function blackman(distance: number, halfWidth: number): number {
+  const n = (distance + halfWidth) / (2 * halfWidth);
+  if (n < 0 || n > 1) {
+    return 0;
+  }
+  return 0.42 - 0.5 * Math.cos(2 * Math.PI * n) + 0.08 * Math.cos(4 * Math.PI * n);
+}
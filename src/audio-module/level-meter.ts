@@ -0,0 +1,188 @@
+/**
+ * Level Meter
+ * 
+ * Per-frame, per-channel RMS, peak, dBFS, clipping and DC offset metering
+ * of captured audio, with a short sliding window and capture-wide totals.
+ */
+
+import { VadDecision } from './voice-activity-detector.js';
+
+export interface ChannelLevels {
+  channel: number;
+  // Current frame
+  rms: number;
+  rmsDb: number;
+  peak: number;
+  peakDb: number;
+  clippedSamples: number;
+  // Sliding window of recent frames
+  windowRmsDb: number;
+  windowPeakDb: number;
+  // Since the start of the capture
+  maxPeakDb: number;
+  totalClippedSamples: number;
+  // Slowly smoothed mean of the signal
+  dcOffset: number;
+}
+
+export interface AudioLevels {
+  timestamp: number;
+  framesMetered: number;
+  channels: ChannelLevels[];
+}
+
+export type LevelStatus = 'inactive' | 'paused' | 'noSignal' | 'digitalSilence' | 'clipping' | 'low' | 'ok';
+
+export interface AudioLevelReport {
+  capturing: boolean;
+  sessionId: string | null;
+  deviceId: string | null;
+  status: LevelStatus;
+  // Time since the backend last delivered audio, null if it never did
+  secondsSinceAudio: number | null;
+  levels: AudioLevels | null;
+  // Latest voice activity decision, null until a frame has been classified
+  vad: VadDecision | null;
+}
+
+// Samples at or above this magnitude count as clipped
+const CLIP_LEVEL = 0.999;
+const SILENCE_DB = -100;
+
+interface ChannelState {
+  windowSquares: number[];
+  windowPeaks: number[];
+  windowClipped: number[];
+  maxPeak: number;
+  totalClipped: number;
+  dcOffset: number;
+}
+
+export class LevelMeter {
+  private channels: number;
+  private windowFrames: number;
+  private state: ChannelState[];
+  private framesMetered = 0;
+  private lastLevels: AudioLevels | null = null;
+  
+  constructor(channels: number, frameMs: number, windowMs = 1000) {
+    this.channels = channels;
+    this.windowFrames = Math.max(1, Math.round(windowMs / frameMs));
+    this.state = Array.from({ length: channels }, () => ({
+      windowSquares: [],
+      windowPeaks: [],
+      windowClipped: [],
+      maxPeak: 0,
+      totalClipped: 0,
+      dcOffset: 0
+    }));
+  }
+  
+  /**
+   * Meter one frame of interleaved samples
+   */
+  process(frame: Float32Array, timestamp: number): AudioLevels {
+    const frames = Math.floor(frame.length / this.channels);
+    const channels: ChannelLevels[] = [];
+    
+    for (let ch = 0; ch < this.channels; ch++) {
+      const state = this.state[ch];
+      let sum = 0;
+      let squares = 0;
+      let peak = 0;
+      let clipped = 0;
+      
+      for (let i = 0; i < frames; i++) {
+        const sample = frame[i * this.channels + ch];
+        const magnitude = Math.abs(sample);
+        sum += sample;
+        squares += sample * sample;
+        peak = Math.max(peak, magnitude);
+        if (magnitude >= CLIP_LEVEL) {
+          clipped++;
+        }
+      }
+      
+      const meanSquare = frames > 0 ? squares / frames : 0;
+      const mean = frames > 0 ? sum / frames : 0;
+      
+      pushWindow(state.windowSquares, meanSquare, this.windowFrames);
+      pushWindow(state.windowPeaks, peak, this.windowFrames);
+      pushWindow(state.windowClipped, clipped, this.windowFrames);
+      
+      state.maxPeak = Math.max(state.maxPeak, peak);
+      state.totalClipped += clipped;
+      // One-pole smoothing over roughly the window length
+      state.dcOffset += (mean - state.dcOffset) / Math.min(this.framesMetered + 1, this.windowFrames);
+      
+      const windowMeanSquare = state.windowSquares.reduce((total, value) => total + value, 0) / state.windowSquares.length;
+      
+      channels.push({
+        channel: ch,
+        rms: Math.sqrt(meanSquare),
+        rmsDb: toDb(Math.sqrt(meanSquare)),
+        peak,
+        peakDb: toDb(peak),
+        clippedSamples: clipped,
+        windowRmsDb: toDb(Math.sqrt(windowMeanSquare)),
+        windowPeakDb: toDb(Math.max(...state.windowPeaks)),
+        maxPeakDb: toDb(state.maxPeak),
+        totalClippedSamples: state.totalClipped,
+        dcOffset: state.dcOffset
+      });
+    }
+    
+    this.framesMetered++;
+    this.lastLevels = { timestamp, framesMetered: this.framesMetered, channels };
+    return this.lastLevels;
+  }
+  
+  /**
+   * Levels of the most recently metered frame
+   */
+  getLevels(): AudioLevels | null {
+    return this.lastLevels;
+  }
+  
+  /**
+   * Whether any channel clipped within the sliding window
+   */
+  isClipping(): boolean {
+    return this.state.some(state => state.windowClipped.some(count => count > 0));
+  }
+}
+
+/**
+ * Classify metered levels to tell a dead or stalled device from muted
+ * hardware, low gain or clipping
+ */
+export function diagnoseLevels(levels: AudioLevels | null, secondsSinceAudio: number | null, clipping: boolean): LevelStatus {
+  if (secondsSinceAudio === null || secondsSinceAudio > 1 || !levels) {
+    return 'noSignal';
+  }
+  
+  const windowPeakDb = Math.max(...levels.channels.map(channel => channel.windowPeakDb));
+  const maxPeakDb = Math.max(...levels.channels.map(channel => channel.maxPeakDb));
+  
+  if (windowPeakDb <= SILENCE_DB) {
+    return 'digitalSilence';
+  }
+  if (clipping) {
+    return 'clipping';
+  }
+  if (maxPeakDb < -30) {
+    return 'low';
+  }
+  return 'ok';
+}
+
+function pushWindow(window: number[], value: number, size: number): void {
+  window.push(value);
+  if (window.length > size) {
+    window.shift();
+  }
+}
+
+function toDb(level: number): number {
+  return Math.max(SILENCE_DB, Math.round(20 * Math.log10(Math.max(level, 1e-10)) * 10) / 10);
+}
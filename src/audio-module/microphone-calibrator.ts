@@ -0,0 +1,299 @@
+/**
+ * Microphone Calibrator
+ * 
+ * Captures a few seconds of silence followed by a few seconds of speech from
+ * a device, measures its noise floor, speech level, SNR and clipping, and
+ * derives VAD thresholds that suit the device's gain.
+ */
+
+import { Logger } from '../utils/logger.js';
+import { ConfigManager } from '../utils/config-manager.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { AudioCaptureManager, AudioCaptureConfig, AudioChunk } from './audio-capture-manager.js';
+import { CaptureSession } from './capture-session.js';
+
+export interface CalibrationOptions {
+  silenceSeconds: number;
+  speechSeconds: number;
+}
+
+export interface RecommendedVadThresholds {
+  energyThreshold: number;
+  silenceThreshold: number;
+  snrThresholdDb: number;
+}
+
+export interface CalibrationResult {
+  deviceId: string;
+  sampleRate: number;
+  channels: number;
+  silenceSeconds: number;
+  speechSeconds: number;
+  // Levels are linear RMS / peak amplitudes, with dBFS equivalents
+  noiseFloor: number;
+  noiseFloorDb: number;
+  speechLevel: number;
+  speechLevelDb: number;
+  snrDb: number;
+  peak: number;
+  peakDb: number;
+  clippedSamples: number;
+  clippingRatio: number;
+  // Share of speech-phase frames that rose above the noise
+  speechActivity: number;
+  recommended: RecommendedVadThresholds;
+  warnings: string[];
+  calibratedAt: string;
+}
+
+// Samples at or above this magnitude count as clipped
+const CLIP_LEVEL = 0.999;
+
+export class MicrophoneCalibrator {
+  private logger: Logger;
+  private config: ConfigManager;
+  private audioCapture: AudioCaptureManager;
+  
+  constructor(audioCapture: AudioCaptureManager) {
+    this.logger = Logger.getInstance();
+    this.config = ConfigManager.getInstance();
+    this.audioCapture = audioCapture;
+  }
+  
+  /**
+   * Capture the silence and speech phases from a device and analyze them
+   */
+  async calibrate(config: AudioCaptureConfig, options: CalibrationOptions): Promise<CalibrationResult> {
+    this.logger.info(`Calibrating device ${config.deviceId}`, options);
+    
+    const { silence, speech } = await this.capturePhases(config, options);
+    const result = this.analyze(config, options, silence, speech);
+    
+    this.logger.info(`Calibration of device ${config.deviceId} completed`, {
+      noiseFloorDb: result.noiseFloorDb,
+      speechLevelDb: result.speechLevelDb,
+      snrDb: result.snrDb,
+      warnings: result.warnings
+    });
+    
+    return result;
+  }
+  
+  /**
+   * Run a capture and split its canonical audio into the two phases
+   */
+  private capturePhases(
+    config: AudioCaptureConfig,
+    options: CalibrationOptions
+  ): Promise<{ silence: Float32Array; speech: Float32Array }> {
+    const silenceSamples = Math.round(options.silenceSeconds * config.sampleRate) * config.channels;
+    const totalSamples = silenceSamples + Math.round(options.speechSeconds * config.sampleRate) * config.channels;
+    const collected = new Float32Array(totalSamples);
+    let position = 0;
+    
+    return new Promise((resolve, reject) => {
+      let finished = false;
+      let session: CaptureSession | null = null;
+      
+      const finish = (error?: unknown) => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        
+        clearTimeout(timeout);
+        session?.off('audioChunk', onChunk);
+        session?.off('captureError', finish);
+        
+        // A session whose backend failed has already been stopped
+        const stopped = session && this.audioCapture.getSession(session.id)
+          ? this.audioCapture.stopCapture(session.id)
+          : Promise.resolve();
+          
+        stopped
+          .catch((stopError) => this.logger.error('Failed to stop calibration capture', stopError))
+          .finally(() => {
+            if (error) {
+              reject(error);
+            } else {
+              resolve({
+                silence: collected.subarray(0, silenceSamples),
+                speech: collected.subarray(silenceSamples)
+              });
+            }
+          });
+      };
+      
+      const onChunk = (chunk: AudioChunk) => {
+        const wasSilencePhase = position < silenceSamples;
+        const take = Math.min(chunk.data.length, totalSamples - position);
+        
+        collected.set(chunk.data.subarray(0, take), position);
+        position += take;
+        
+        if (wasSilencePhase && position >= silenceSamples) {
+          this.logger.info('Calibration silence phase complete, recording speech');
+        }
+        
+        if (position >= totalSamples) {
+          finish();
+        }
+      };
+      
+      // Give up if the device stops delivering audio
+      const timeoutMs = (options.silenceSeconds + options.speechSeconds) * 2000 + 5000;
+      const timeout = setTimeout(() => {
+        finish(ErrorHandler.createCaptureError('Calibration timed out waiting for audio', {
+          deviceId: config.deviceId,
+          receivedSeconds: position / config.channels / config.sampleRate
+        }));
+      }, timeoutMs);
+      
+      this.audioCapture.startCapture(config).then((started) => {
+        session = started;
+        session.on('audioChunk', onChunk);
+        session.on('captureError', finish);
+      }).catch((error) => {
+        // Capture never started, so there is nothing to stop
+        finished = true;
+        clearTimeout(timeout);
+        reject(error);
+      });
+    });
+  }
+  
+  /**
+   * Measure both phases and derive VAD thresholds
+   */
+  private analyze(
+    config: AudioCaptureConfig,
+    options: CalibrationOptions,
+    silence: Float32Array,
+    speech: Float32Array
+  ): CalibrationResult {
+    const frameMs = this.config.getAudioConfig().segmentation.frameMs;
+    const frameSize = Math.max(1, Math.round((config.sampleRate * frameMs) / 1000)) * config.channels;
+    
+    const silenceFrames = frameLevels(silence, frameSize);
+    const speechFrames = frameLevels(speech, frameSize);
+    
+    // Loudest typical noise frame, so background bumps stay below the thresholds
+    const noiseFloor = rms(silence);
+    const noiseCeiling = Math.max(percentile(silenceFrames, 0.95), noiseFloor);
+    
+    // Speech level over the frames that rose clearly above the noise
+    const activeFrames = speechFrames.filter(level => level > Math.max(noiseCeiling * 2, 1e-4));
+    const speechActivity = speechFrames.length > 0 ? activeFrames.length / speechFrames.length : 0;
+    const speechLevel = activeFrames.length > 0
+      ? Math.sqrt(activeFrames.reduce((sum, level) => sum + level * level, 0) / activeFrames.length)
+      : percentile(speechFrames, 0.9);
+      
+    const snrDb = toDb(speechLevel) - toDb(noiseFloor);
+    
+    let peak = 0;
+    let clippedSamples = 0;
+    for (const samples of [silence, speech]) {
+      for (let i = 0; i < samples.length; i++) {
+        const magnitude = Math.abs(samples[i]);
+        peak = Math.max(peak, magnitude);
+        if (magnitude >= CLIP_LEVEL) {
+          clippedSamples++;
+        }
+      }
+    }
+    const clippingRatio = clippedSamples / Math.max(1, silence.length + speech.length);
+    
+    // Silence just above the noise, speech halfway (in dB) between noise and speech
+    const silenceThreshold = clamp(noiseCeiling * 1.5, 1e-4, 0.5);
+    const energyThreshold = clamp(
+      speechLevel > silenceThreshold * 2 ? Math.sqrt(noiseCeiling * speechLevel) : silenceThreshold * 2,
+      silenceThreshold * 1.25,
+      1
+    );
+    
+    const warnings: string[] = [];
+    
+    if (noiseFloor < 1e-5) {
+      warnings.push('Input is digital silence; the device may be muted or disconnected');
+    }
+    if (speechActivity < 0.1) {
+      warnings.push('Little or no speech was detected during the speech phase');
+    }
+    if (toDb(speechLevel) < -40) {
+      warnings.push('Speech level is very low; raise the input gain or move closer to the microphone');
+    }
+    if (snrDb < 10) {
+      warnings.push('Low signal-to-noise ratio; reduce background noise or raise the input gain');
+    }
+    if (clippingRatio > 0.001) {
+      warnings.push('Input is clipping; lower the input gain');
+    }
+    
+    return {
+      deviceId: config.deviceId,
+      sampleRate: config.sampleRate,
+      channels: config.channels,
+      silenceSeconds: options.silenceSeconds,
+      speechSeconds: options.speechSeconds,
+      noiseFloor: round(noiseFloor, 6),
+      noiseFloorDb: round(toDb(noiseFloor), 1),
+      speechLevel: round(speechLevel, 6),
+      speechLevelDb: round(toDb(speechLevel), 1),
+      snrDb: round(snrDb, 1),
+      peak: round(peak, 6),
+      peakDb: round(toDb(peak), 1),
+      clippedSamples,
+      clippingRatio: round(clippingRatio, 6),
+      speechActivity: round(speechActivity, 3),
+      recommended: {
+        energyThreshold: round(energyThreshold, 6),
+        silenceThreshold: round(silenceThreshold, 6),
+        snrThresholdDb: round(clamp(snrDb / 2, 3, 15), 1)
+      },
+      warnings,
+      calibratedAt: new Date().toISOString()
+    };
+  }
+}
+
+function frameLevels(samples: Float32Array, frameSize: number): number[] {
+  const levels: number[] = [];
+  for (let offset = 0; offset + frameSize <= samples.length; offset += frameSize) {
+    levels.push(rms(samples.subarray(offset, offset + frameSize)));
+  }
+  return levels;
+}
+
+function rms(samples: Float32Array): number {
+  if (samples.length === 0) {
+    return 0;
+  }
+  
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+function percentile(values: number[], fraction: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+function toDb(level: number): number {
+  return 20 * Math.log10(Math.max(level, 1e-10));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
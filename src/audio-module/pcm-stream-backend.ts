@@ -0,0 +1,230 @@
+/**
+ * PCM Stream Capture Backend
+ * 
+ * Reads raw interleaved PCM from stdin, a named pipe, or the stdout of a
+ * configured capture command (parec, arecord, ffmpeg, sox, ...) so the
+ * capture pipeline can run on hosts without the native WASAPI module.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler, AudioMCPError } from '../utils/error-handler.js';
+import { AudioCaptureConfig, AudioDevice, NativeAudioModule } from './audio-capture-manager.js';
+import { AudioFormat, SampleFormat } from './format-converter.js';
+
+export type PcmSampleFormat = 's16le' | 's24le' | 's32le' | 'f32le';
+
+const SAMPLE_FORMATS: Record<PcmSampleFormat, SampleFormat> = {
+  s16le: 'PCM16',
+  s24le: 'PCM24',
+  s32le: 'PCM32',
+  f32le: 'Float32'
+};
+
+export type PcmStreamSource =
+  | { type: 'stdin' }
+  | { type: 'pipe'; path: string }
+  | { type: 'command'; command: string; args: string[] };
+  
+export interface PcmStreamBackendOptions {
+  source: PcmStreamSource;
+  format: PcmSampleFormat;
+  sampleRate: number;
+  channels: number;
+}
+
+export class PcmStreamBackend implements NativeAudioModule {
+  private logger: Logger;
+  private options: PcmStreamBackendOptions;
+  private audioCallback: ((audioData: Buffer) => void) | null = null;
+  private errorCallback: ((error: AudioMCPError) => void) | null = null;
+  private process: ChildProcess | null = null;
+  private stream: Readable | null = null;
+  // Removes this backend's listeners from the stream, leaving any others
+  private detachStream: (() => void) | null = null;
+  private isCapturing = false;
+  
+  constructor(options: PcmStreamBackendOptions) {
+    this.logger = Logger.getInstance();
+    this.options = options;
+  }
+  
+  initialize(): boolean {
+    if (this.options.source.type === 'stdin') {
+      this.logger.warn('PCM capture from stdin cannot be combined with the stdio MCP transport');
+    }
+    
+    return true;
+  }
+  
+  getCaptureFormat(): AudioFormat {
+    return {
+      sampleRate: this.options.sampleRate,
+      channels: this.options.channels,
+      sampleFormat: SAMPLE_FORMATS[this.options.format]
+    };
+  }
+  
+  startCapture(_config: AudioCaptureConfig): boolean {
+    if (this.isCapturing) {
+      return true;
+    }
+    
+    try {
+      const stream = this.openSource();
+      this.stream = stream;
+      this.isCapturing = true;
+      
+      const onData = (data: Buffer) => {
+        // Raw bytes go straight to the capture pipeline's format converter
+        if (this.isCapturing) {
+          this.audioCallback?.(data);
+        }
+      };
+      const onEnd = () => this.reportError('PCM input stream ended');
+      const onError = (error: Error) => this.reportError('PCM input stream failed', error);
+      
+      stream.on('data', onData);
+      stream.on('end', onEnd);
+      stream.on('error', onError);
+      this.detachStream = () => {
+        stream.off('data', onData);
+        stream.off('end', onEnd);
+        stream.off('error', onError);
+      };
+      
+      return true;
+      
+    } catch (error) {
+      this.logger.error('Failed to start PCM stream capture', error);
+      this.stopCapture();
+      return false;
+    }
+  }
+  
+  stopCapture(): boolean {
+    this.isCapturing = false;
+    
+    if (this.stream) {
+      this.detachStream?.();
+      this.detachStream = null;
+      
+      // process.stdin may also carry the stdio MCP transport, so it is never
+      // paused or destroyed here
+      if (this.stream !== process.stdin) {
+        // A pipe still being opened may yet fail; nobody is listening anymore
+        this.stream.on('error', () => {});
+        this.stream.destroy();
+      }
+      
+      this.stream = null;
+    }
+    
+    if (this.process) {
+      this.process.removeAllListeners('exit');
+      this.process.kill();
+      this.process = null;
+    }
+    
+    return true;
+  }
+  
+  getDevices(): AudioDevice[] {
+    return [{
+      id: `pcm:${this.describeSource()}`,
+      name: `Raw PCM (${this.options.format}) from ${this.describeSource()}`,
+      isDefault: true,
+      isEnabled: true,
+      channels: this.options.channels,
+      sampleRate: this.options.sampleRate
+    }];
+  }
+  
+  cleanup(): boolean {
+    this.stopCapture();
+    this.audioCallback = null;
+    this.errorCallback = null;
+    return true;
+  }
+  
+  setAudioCallback(callback: (audioData: Buffer) => void): void {
+    this.audioCallback = callback;
+  }
+  
+  setErrorCallback(callback: (error: AudioMCPError) => void): void {
+    this.errorCallback = callback;
+  }
+  
+  /**
+   * Open the configured input as a readable stream
+   */
+  private openSource(): Readable {
+    const source = this.options.source;
+    
+    switch (source.type) {
+      case 'stdin':
+        process.stdin.resume();
+        return process.stdin;
+        
+      case 'pipe':
+        return createReadStream(source.path);
+        
+      case 'command': {
+        this.logger.info(`Spawning capture command: ${source.command} ${source.args.join(' ')}`);
+        
+        const child = spawn(source.command, source.args, {
+          stdio: ['ignore', 'pipe', 'pipe']
+        });
+        
+        child.stderr?.on('data', (data: Buffer) => {
+          this.logger.debug(`[${source.command}] ${data.toString().trim()}`);
+        });
+        
+        child.on('error', (error) => {
+          this.reportError(`Failed to run capture command ${source.command}`, error);
+        });
+        
+        child.on('exit', (code, signal) => {
+          this.reportError(`Capture command ${source.command} exited`, { code, signal });
+        });
+        
+        this.process = child;
+        return child.stdout!;
+      }
+    }
+  }
+  
+  /**
+   * Report the end of the input as a capture error
+   */
+  private reportError(message: string, details?: any): void {
+    if (!this.isCapturing) {
+      return;
+    }
+    
+    this.stopCapture();
+    
+    const error = ErrorHandler.createCaptureError(message, {
+      source: this.describeSource(),
+      ...(details instanceof Error ? { error: details.message } : details)
+    });
+    
+    this.logger.error(message, error.details);
+    this.errorCallback?.(error);
+  }
+  
+  private describeSource(): string {
+    const source = this.options.source;
+    
+    switch (source.type) {
+      case 'stdin':
+        return 'stdin';
+      case 'pipe':
+        return `pipe:${source.path}`;
+      case 'command':
+        return 'command';
+    }
+  }
+}
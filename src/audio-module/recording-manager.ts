@@ -0,0 +1,364 @@
+/**
+ * Recording Manager
+ * 
+ * Writes the canonical capture stream to WAV or FLAC files under the
+ * configured recordings directory, one recording per capture session. Each
+ * recording gets an ID and a JSON sidecar with its metadata so it can be
+ * listed and read back later.
+ */
+
+import { EventEmitter } from 'events';
+import path from 'path';
+import { closeSync, existsSync, mkdirSync, openSync, readFileSync, readdirSync, writeFileSync, writeSync } from 'fs';
+import { Logger } from '../utils/logger.js';
+import { ConfigManager } from '../utils/config-manager.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { AudioCaptureManager, AudioChunk } from './audio-capture-manager.js';
+import { StreamFormat, encodeSamples } from './format-converter.js';
+import { createWavHeader, updateWavHeader } from './wav-format.js';
+import { FlacEncoder, FLAC_STREAMINFO_OFFSET } from './flac-encoder.js';
+
+export type RecordingFormat = 'wav' | 'flac';
+
+export interface RecordingInfo {
+  id: string;
+  name?: string;
+  format: RecordingFormat;
+  mimeType: string;
+  file: string;
+  sessionId: string;
+  deviceId: string;
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: 16 | 24;
+  startedAt: string;
+  endedAt?: string;
+  // Offset of the first recorded frame on the session's capture timeline
+  startSample?: number;
+  frames: number;
+  durationSeconds: number;
+  sizeBytes: number;
+  status: 'recording' | 'completed';
+}
+
+export interface StartRecordingOptions {
+  sessionId?: string;
+  format?: RecordingFormat;
+  name?: string;
+}
+
+const MIME_TYPES: Record<RecordingFormat, string> = {
+  wav: 'audio/wav',
+  flac: 'audio/flac'
+};
+
+const RECORDING_ID_PATTERN = /^recording_\d+_[a-z0-9]+$/;
+
+interface RecordingWriter {
+  write(samples: Float32Array): void;
+  // Finalize headers and close the file, returning its size in bytes
+  close(): number;
+}
+
+/**
+ * PCM WAV writer; the RIFF sizes are patched in when the file is closed
+ */
+class WavRecordingWriter implements RecordingWriter {
+  private fd: number;
+  private header: Buffer;
+  private bitsPerSample: 16 | 24;
+  private dataLength = 0;
+  
+  constructor(file: string, format: StreamFormat, bitsPerSample: 16 | 24, info: Record<string, string>) {
+    this.bitsPerSample = bitsPerSample;
+    this.header = createWavHeader(format, bitsPerSample, 0, info);
+    this.fd = openSync(file, 'w');
+    writeSync(this.fd, this.header);
+  }
+  
+  write(samples: Float32Array): void {
+    const data = encodeSamples(samples, this.bitsPerSample === 24 ? 'PCM24' : 'PCM16');
+    writeSync(this.fd, data);
+    this.dataLength += data.length;
+  }
+  
+  close(): number {
+    updateWavHeader(this.header, this.dataLength);
+    writeSync(this.fd, this.header, 0, this.header.length, 0);
+    closeSync(this.fd);
+    return this.header.length + this.dataLength;
+  }
+}
+
+/**
+ * FLAC writer; STREAMINFO is rewritten with totals and MD5 on close
+ */
+class FlacRecordingWriter implements RecordingWriter {
+  private fd: number;
+  private encoder: FlacEncoder;
+  private size = 0;
+  
+  constructor(file: string, format: StreamFormat, bitsPerSample: 16 | 24, tags: Record<string, string>) {
+    this.encoder = new FlacEncoder({ ...format, bitsPerSample, tags });
+    this.fd = openSync(file, 'w');
+    this.append(this.encoder.getHeader());
+  }
+  
+  write(samples: Float32Array): void {
+    this.append(this.encoder.encode(samples));
+  }
+  
+  close(): number {
+    this.append(this.encoder.flush());
+    
+    const streamInfo = this.encoder.getStreamInfo();
+    writeSync(this.fd, streamInfo, 0, streamInfo.length, FLAC_STREAMINFO_OFFSET);
+    closeSync(this.fd);
+    return this.size;
+  }
+  
+  private append(data: Buffer): void {
+    if (data.length > 0) {
+      writeSync(this.fd, data);
+      this.size += data.length;
+    }
+  }
+}
+
+export class RecordingManager extends EventEmitter {
+  private logger: Logger;
+  private config: ConfigManager;
+  private audioCapture: AudioCaptureManager;
+  // Recordings in progress, keyed by capture session ID
+  private active: Map<string, { info: RecordingInfo; writer: RecordingWriter }> = new Map();
+  
+  constructor(audioCapture: AudioCaptureManager) {
+    super();
+    this.logger = Logger.getInstance();
+    this.config = ConfigManager.getInstance();
+    this.audioCapture = audioCapture;
+    
+    this.audioCapture.on('audioChunk', (chunk: AudioChunk, sessionId: string) => this.onAudioChunk(chunk, sessionId));
+    
+    // A recording never outlives its capture
+    this.audioCapture.on('captureStopped', (sessionId: string) => {
+      if (this.active.has(sessionId)) {
+        this.stopRecording(sessionId);
+      }
+    });
+  }
+  
+  /**
+   * Start writing a capture session (the only active one by default) to a
+   * new recording
+   */
+  startRecording(options: StartRecordingOptions = {}): RecordingInfo {
+    const session = this.audioCapture.resolveSession(options.sessionId);
+    if (!session?.isActive()) {
+      throw ErrorHandler.createCaptureError('No active audio capture to record');
+    }
+    
+    const captureConfig = session.config;
+    const existing = this.active.get(session.id);
+    if (existing) {
+      throw ErrorHandler.createCaptureError(`Recording ${existing.info.id} already in progress for session ${session.id}`);
+    }
+    
+    const recordingConfig = this.config.getAudioConfig().recording;
+    const format = options.format ?? recordingConfig.format;
+    const directory = this.getDirectory();
+    mkdirSync(directory, { recursive: true });
+    
+    const id = `recording_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const info: RecordingInfo = {
+      id,
+      format,
+      mimeType: MIME_TYPES[format],
+      file: path.join(directory, `${id}.${format}`),
+      sessionId: session.id,
+      deviceId: captureConfig.deviceId,
+      sampleRate: captureConfig.sampleRate,
+      channels: captureConfig.channels,
+      bitsPerSample: recordingConfig.bitsPerSample,
+      startedAt: new Date().toISOString(),
+      frames: 0,
+      durationSeconds: 0,
+      sizeBytes: 0,
+      status: 'recording'
+    };
+    
+    if (options.name) {
+      info.name = options.name;
+    }
+    
+    const title = options.name || id;
+    const comment = `Captured from ${captureConfig.deviceId}`;
+    const streamFormat = { sampleRate: captureConfig.sampleRate, channels: captureConfig.channels };
+    
+    const writer = format === 'flac'
+      ? new FlacRecordingWriter(info.file, streamFormat, info.bitsPerSample, {
+        TITLE: title,
+        DATE: info.startedAt,
+        COMMENT: comment
+      })
+      : new WavRecordingWriter(info.file, streamFormat, info.bitsPerSample, {
+        INAM: title,
+        ICRD: info.startedAt,
+        ICMT: comment,
+        ISFT: 'claude-desktop-realtime-audio-mcp'
+      });
+      
+    this.active.set(session.id, { info, writer });
+    this.writeSidecar(info);
+    
+    this.logger.info(`Recording ${id} started`, { file: info.file, format });
+    this.emit('recordingStarted', { ...info });
+    
+    return { ...info };
+  }
+  
+  /**
+   * Finalize the recording of a capture session (the only recording in
+   * progress by default)
+   */
+  stopRecording(sessionId?: string): RecordingInfo {
+    const key = sessionId ?? this.getOnlyRecordingSession();
+    const recording = key ? this.active.get(key) : undefined;
+    if (!recording) {
+      throw ErrorHandler.createCaptureError(
+        sessionId ? `No recording in progress for session ${sessionId}` : 'No recording in progress'
+      );
+    }
+    
+    const { info, writer } = recording;
+    this.active.delete(info.sessionId);
+    
+    info.sizeBytes = writer.close();
+    info.endedAt = new Date().toISOString();
+    info.status = 'completed';
+    this.writeSidecar(info);
+    
+    this.logger.info(`Recording ${info.id} completed`, {
+      durationSeconds: info.durationSeconds,
+      sizeBytes: info.sizeBytes
+    });
+    this.emit('recordingStopped', { ...info });
+    
+    return { ...info };
+  }
+  
+  /**
+   * Whether a recording is in progress, for one session or any
+   */
+  isRecording(sessionId?: string): boolean {
+    return sessionId ? this.active.has(sessionId) : this.active.size > 0;
+  }
+  
+  /**
+   * List all recordings in the recordings directory, newest first
+   */
+  listRecordings(): RecordingInfo[] {
+    const directory = this.getDirectory();
+    if (!existsSync(directory)) {
+      return [];
+    }
+    
+    const recordings: RecordingInfo[] = [];
+    
+    for (const entry of readdirSync(directory)) {
+      const id = path.basename(entry, '.json');
+      if (!entry.endsWith('.json') || !RECORDING_ID_PATTERN.test(id)) {
+        continue;
+      }
+      
+      const info = this.readSidecar(id);
+      if (info) {
+        recordings.push(info);
+      }
+    }
+    
+    return recordings.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+  
+  /**
+   * Read back a completed recording and its metadata
+   */
+  getRecording(id: string): { info: RecordingInfo; data: Buffer } {
+    const info = RECORDING_ID_PATTERN.test(id) ? this.readSidecar(id) : null;
+    if (!info) {
+      throw ErrorHandler.createCaptureError(`Recording not found: ${id}`);
+    }
+    
+    if (info.status !== 'completed') {
+      throw ErrorHandler.createCaptureError(`Recording ${id} is still in progress`);
+    }
+    
+    return { info, data: readFileSync(info.file) };
+  }
+  
+  /**
+   * Finalize any recording in progress
+   */
+  async cleanup(): Promise<void> {
+    for (const sessionId of Array.from(this.active.keys())) {
+      this.stopRecording(sessionId);
+    }
+    
+    this.removeAllListeners();
+  }
+  
+  private onAudioChunk(chunk: AudioChunk, sessionId: string): void {
+    const recording = this.active.get(sessionId);
+    if (!recording) {
+      return;
+    }
+    
+    const { info, writer } = recording;
+    
+    try {
+      writer.write(chunk.data);
+      info.startSample ??= chunk.startSample;
+      info.frames += chunk.data.length / info.channels;
+      info.durationSeconds = info.frames / info.sampleRate;
+    } catch (error) {
+      this.logger.error(`Failed to write recording ${info.id}, stopping it`, error);
+      this.stopRecording(sessionId);
+    }
+  }
+  
+  private getOnlyRecordingSession(): string | undefined {
+    if (this.active.size > 1) {
+      throw ErrorHandler.createCaptureError('Several recordings are in progress, specify a sessionId', {
+        sessions: Array.from(this.active.keys())
+      });
+    }
+    
+    return this.active.keys().next().value;
+  }
+  
+  private getDirectory(): string {
+    return path.resolve(this.config.getAudioConfig().recording.directory);
+  }
+  
+  private readSidecar(id: string): RecordingInfo | null {
+    for (const { info } of this.active.values()) {
+      if (info.id === id) {
+        return { ...info };
+      }
+    }
+    
+    const sidecar = path.join(this.getDirectory(), `${id}.json`);
+    
+    try {
+      return existsSync(sidecar) ? JSON.parse(readFileSync(sidecar, 'utf8')) : null;
+    } catch (error) {
+      this.logger.warn(`Invalid recording metadata ${sidecar}`, error);
+      return null;
+    }
+  }
+  
+  private writeSidecar(info: RecordingInfo): void {
+    const sidecar = path.join(path.dirname(info.file), `${info.id}.json`);
+    writeFileSync(sidecar, JSON.stringify(info, null, 2));
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Speech Listener
+ * 
+ * Runs a short capture session that ends by itself once the speaker stops
+ * talking, for one-shot "listen to me now" transcription. The utterances
+ * detected during the session are returned for transcription.
+ */
+
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { AudioCaptureManager, AudioCaptureConfig } from './audio-capture-manager.js';
+import { CaptureSession } from './capture-session.js';
+import { Utterance } from './utterance-segmenter.js';
+import { VadDecision } from './voice-activity-detector.js';
+
+export interface ListenOptions {
+  // Hard limit on the length of the capture
+  maxDurationSeconds: number;
+  // Silence after speech that ends the capture
+  silenceTimeoutSeconds: number;
+  // Give up if no speech starts within this time
+  startTimeoutSeconds: number;
+}
+
+export interface ListenResult {
+  sessionId: string;
+  deviceId: string;
+  sampleRate: number;
+  channels: number;
+  // captureEnded: the session stopped on its own, e.g. its source ran out
+  reason: 'silence' | 'maxDuration' | 'noSpeech' | 'captureEnded';
+  durationSeconds: number;
+  utterances: Utterance[];
+}
+
+export class SpeechListener {
+  private logger: Logger;
+  private audioCapture: AudioCaptureManager;
+  
+  constructor(audioCapture: AudioCaptureManager) {
+    this.logger = Logger.getInstance();
+    this.audioCapture = audioCapture;
+  }
+  
+  /**
+   * Capture from a device until the speaker falls silent, the maximum
+   * duration is reached or nobody starts speaking
+   */
+  listen(config: AudioCaptureConfig, options: ListenOptions): Promise<ListenResult> {
+    this.logger.info(`Listening on device ${config.deviceId}`, options);
+    
+    const utterances: Utterance[] = [];
+    let session: CaptureSession | null = null;
+    let lastSpeechMs: number | null = null;
+    let capturedMs = 0;
+    let captureError: unknown;
+    
+    return new Promise((resolve, reject) => {
+      let finished = false;
+      
+      const finish = (reason: ListenResult['reason'] | null, error?: unknown) => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        
+        clearTimeout(timeout);
+        session?.off('vadFrame', onVadFrame);
+        this.audioCapture.off('captureError', onError);
+        this.audioCapture.off('captureStopped', onStopped);
+        
+        // Stop outside the session's frame loop (this runs from a vadFrame
+        // event); stopping flushes the utterance in progress to onUtterance
+        Promise.resolve()
+          .then(() => session && this.audioCapture.getSession(session.id)
+            ? this.audioCapture.stopCapture(session.id)
+            : undefined)
+          .catch((stopError) => this.logger.error('Failed to stop listening capture', stopError))
+          .finally(() => {
+            session?.off('utterance', onUtterance);
+            
+            if (error || !session || !reason) {
+              reject(error);
+              return;
+            }
+            
+            this.logger.info(`Listening on device ${config.deviceId} ended`, {
+              reason,
+              utterances: utterances.length
+            });
+            
+            resolve({
+              sessionId: session.id,
+              deviceId: config.deviceId,
+              sampleRate: config.sampleRate,
+              channels: config.channels,
+              reason,
+              durationSeconds: capturedMs / 1000,
+              utterances
+            });
+          });
+      };
+      
+      const onVadFrame = (decision: VadDecision) => {
+        capturedMs = decision.timestamp;
+        
+        if (decision.isSpeech) {
+          lastSpeechMs = decision.timestamp;
+        }
+        
+        if (lastSpeechMs !== null && decision.timestamp - lastSpeechMs >= options.silenceTimeoutSeconds * 1000) {
+          finish('silence');
+        } else if (decision.timestamp >= options.maxDurationSeconds * 1000) {
+          finish('maxDuration');
+        } else if (lastSpeechMs === null && decision.timestamp >= options.startTimeoutSeconds * 1000) {
+          finish('noSpeech');
+        }
+      };
+      
+      const onUtterance = (utterance: Utterance) => {
+        utterances.push(utterance);
+      };
+      
+      // The manager reports a failed backend before it stops the session, so
+      // the error is known by the time onStopped decides
+      const onError = (error: unknown, sessionId: string) => {
+        if (sessionId === session?.id) {
+          captureError = error;
+        }
+      };
+      
+      // A session stopped by anyone else (its source ran out, stopAudioCapture)
+      // still has its utterances to transcribe; stopping has flushed the last one
+      const onStopped = (sessionId: string) => {
+        if (sessionId !== session?.id) {
+          return;
+        }
+        
+        if (utterances.length === 0 && captureError) {
+          finish(null, captureError);
+        } else {
+          finish('captureEnded');
+        }
+      };
+      
+      // Give up if the device stops delivering audio
+      const timeoutMs = options.maxDurationSeconds * 2000 + 5000;
+      const timeout = setTimeout(() => {
+        finish(null, ErrorHandler.createCaptureError('Listening timed out waiting for audio', {
+          deviceId: config.deviceId,
+          receivedSeconds: capturedMs / 1000
+        }));
+      }, timeoutMs);
+      
+      this.audioCapture.startCapture(config).then((started) => {
+        session = started;
+        session.on('vadFrame', onVadFrame);
+        session.on('utterance', onUtterance);
+        this.audioCapture.on('captureError', onError);
+        this.audioCapture.on('captureStopped', onStopped);
+      }).catch((error) => {
+        // Capture never started, so there is nothing to stop
+        finished = true;
+        clearTimeout(timeout);
+        reject(error);
+      });
+    });
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Utterance Segmenter
+ * 
+ * Groups VAD-classified audio frames into variable-length utterances with
+ * pre-roll and post-roll padding, so speech onsets and words that would
+ * straddle fixed chunk boundaries are kept intact.
+ */
+
+import { AudioChunk } from './audio-capture-manager.js';
+
+export interface Utterance extends AudioChunk {
+  id: string;
+  // Offsets in sample frames on the capture timeline; paused time is not counted
+  startSample: number;
+  endSample: number;
+  reason: 'silence' | 'maxLength' | 'flush';
+}
+
+export interface UtteranceSegmenterOptions {
+  sampleRate: number;
+  channels: number;
+  preRollMs: number;
+  postRollMs: number;
+  maxUtteranceMs: number;
+  minUtteranceMs: number;
+}
+
+export class UtteranceSegmenter {
+  private options: UtteranceSegmenterOptions;
+  // Wall-clock time at which a sample frame was captured
+  private toWallClock: (sample: number) => number;
+  private position = 0;
+  private preRoll: Float32Array[] = [];
+  private preRollFrames = 0;
+  private active: Float32Array[] = [];
+  private activeFrames = 0;
+  private activeStart = 0;
+  private speechFrames = 0;
+  private trailingSilenceFrames = 0;
+  
+  constructor(options: UtteranceSegmenterOptions, toWallClock: (sample: number) => number) {
+    this.options = options;
+    this.toWallClock = toWallClock;
+  }
+  
+  /**
+   * Feed one block of interleaved samples and its VAD decision.
+   * Returns any utterances completed by this block.
+   */
+  process(samples: Float32Array, isSpeech: boolean): Utterance[] {
+    const frames = samples.length / this.options.channels;
+    const completed: Utterance[] = [];
+    
+    if (this.activeFrames === 0) {
+      if (isSpeech) {
+        // Start a new utterance, prefixed with the buffered pre-roll
+        this.active = this.preRoll;
+        this.activeFrames = this.preRollFrames;
+        this.activeStart = this.position - this.preRollFrames;
+        this.speechFrames = 0;
+        this.trailingSilenceFrames = 0;
+        this.preRoll = [];
+        this.preRollFrames = 0;
+      } else {
+        this.pushPreRoll(samples, frames);
+        this.position += frames;
+        return completed;
+      }
+    }
+    
+    this.active.push(samples);
+    this.activeFrames += frames;
+    this.position += frames;
+    
+    if (isSpeech) {
+      this.speechFrames += frames + this.trailingSilenceFrames;
+      this.trailingSilenceFrames = 0;
+    } else {
+      this.trailingSilenceFrames += frames;
+    }
+    
+    if (this.trailingSilenceFrames >= this.msToFrames(this.options.postRollMs)) {
+      const utterance = this.finishUtterance('silence');
+      if (utterance) {
+        completed.push(utterance);
+      }
+    } else if (this.activeFrames >= this.msToFrames(this.options.maxUtteranceMs)) {
+      // Split overlong speech; the next block continues without pre-roll
+      const utterance = this.finishUtterance('maxLength');
+      if (utterance) {
+        completed.push(utterance);
+      }
+    }
+    
+    return completed;
+  }
+  
+  /**
+   * Close the utterance in progress, if any (e.g. when capture stops)
+   */
+  flush(): Utterance | null {
+    if (this.activeFrames === 0) {
+      return null;
+    }
+    
+    return this.finishUtterance('flush');
+  }
+  
+  /**
+   * Account for a pause in the input: the pre-roll buffered before it is
+   * dropped so no utterance spans the gap. Flush first.
+   */
+  addGap(): void {
+    this.preRoll = [];
+    this.preRollFrames = 0;
+  }
+  
+  /**
+   * Whether an utterance is currently open
+   */
+  isInUtterance(): boolean {
+    return this.activeFrames > 0;
+  }
+  
+  /**
+   * Audio of the open utterance so far, pre-roll included, or null if none
+   * is open
+   */
+  getActiveAudio(): { data: Float32Array; startSample: number } | null {
+    if (this.activeFrames === 0) {
+      return null;
+    }
+    
+    return {
+      data: concatBlocks(this.active, this.activeFrames * this.options.channels),
+      startSample: this.activeStart
+    };
+  }
+  
+  private finishUtterance(reason: Utterance['reason']): Utterance | null {
+    const speechFrames = this.speechFrames;
+    const data = concatBlocks(this.active, this.activeFrames * this.options.channels);
+    const startSample = this.activeStart;
+    const endSample = this.activeStart + this.activeFrames;
+    
+    this.active = [];
+    this.activeFrames = 0;
+    this.speechFrames = 0;
+    this.trailingSilenceFrames = 0;
+    
+    // Drop blips that never reached the minimum amount of speech
+    if (speechFrames < this.msToFrames(this.options.minUtteranceMs)) {
+      return null;
+    }
+    
+    return {
+      id: `utterance_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      data,
+      timestamp: this.toWallClock(startSample),
+      duration: this.framesToMs(endSample - startSample),
+      sampleRate: this.options.sampleRate,
+      channels: this.options.channels,
+      startSample,
+      endSample,
+      reason
+    };
+  }
+  
+  private pushPreRoll(samples: Float32Array, frames: number): void {
+    const maxFrames = this.msToFrames(this.options.preRollMs);
+    
+    this.preRoll.push(samples);
+    this.preRollFrames += frames;
+    
+    while (this.preRoll.length > 0 &&
+           this.preRollFrames - this.preRoll[0].length / this.options.channels >= maxFrames) {
+      this.preRollFrames -= this.preRoll.shift()!.length / this.options.channels;
+    }
+  }
+  
+  private msToFrames(ms: number): number {
+    return Math.round((ms * this.options.sampleRate) / 1000);
+  }
+  
+  private framesToMs(frames: number): number {
+    return (frames * 1000) / this.options.sampleRate;
+  }
+}
+
+function concatBlocks(blocks: Float32Array[], totalLength: number): Float32Array {
+  const result = new Float32Array(totalLength);
+  let offset = 0;
+  
+  for (const block of blocks) {
+    result.set(block, offset);
+    offset += block.length;
+  }
+  
+  return result;
+}
@@ -0,0 +1,314 @@
+/**
+ * Voice Activity Detection
+ * 
+ * Energy-based and spectral voice activity detectors. Both classify one
+ * frame of audio at a time and expose their latest per-frame decision.
+ */
+
+import { hannWindow, nextPowerOfTwo, powerSpectrum } from './fft.js';
+
+export interface VadDecision {
+  // Frame time in milliseconds on the capture timeline
+  timestamp: number;
+  // Smoothed decision, after onset and hangover handling
+  isSpeech: boolean;
+  // Per-frame decision before smoothing
+  rawSpeech: boolean;
+  probability: number;
+  energy: number;
+  features?: {
+    snrDb: number;
+    spectralFlatness: number;
+    zeroCrossingRate: number;
+    speechBandRatio: number;
+    noiseFloor: number;
+  };
+}
+
+export interface VoiceActivityDetection {
+  processAudio(audioData: Float32Array, timestamp: number): boolean;
+  getLastDecision(): VadDecision | null;
+}
+
+export interface SpectralVadOptions {
+  sampleRate: number;
+  channels: number;
+  speechThreshold: number;
+  snrThresholdDb: number;
+  flatnessThreshold: number;
+  noiseAdaptation: number;
+  minSpeechDuration: number;
+  minSilenceDuration: number;
+}
+
+/**
+ * Voice Activity Detection (simple energy-based)
+ */
+export class VoiceActivityDetector implements VoiceActivityDetection {
+  private energyThreshold: number;
+  private silenceThreshold: number;
+  private minSpeechDuration: number;
+  private minSilenceDuration: number;
+  private speechStartTime = 0;
+  private silenceStartTime = 0;
+  private isSpeaking = false;
+  private lastDecision: VadDecision | null = null;
+  
+  constructor(
+    energyThreshold = 0.01,
+    silenceThreshold = 0.005,
+    minSpeechDuration = 300,
+    minSilenceDuration = 500
+  ) {
+    this.energyThreshold = energyThreshold;
+    this.silenceThreshold = silenceThreshold;
+    this.minSpeechDuration = minSpeechDuration;
+    this.minSilenceDuration = minSilenceDuration;
+  }
+  
+  processAudio(audioData: Float32Array, timestamp: number): boolean {
+    const energy = this.calculateEnergy(audioData);
+    const now = timestamp;
+    
+    if (energy > this.energyThreshold) {
+      if (!this.isSpeaking) {
+        this.speechStartTime = now;
+      }
+      this.isSpeaking = true;
+      this.silenceStartTime = 0;
+    } else if (energy < this.silenceThreshold) {
+      if (this.isSpeaking && this.silenceStartTime === 0) {
+        this.silenceStartTime = now;
+      }
+      
+      if (this.isSpeaking &&
+          this.silenceStartTime > 0 &&
+          (now - this.silenceStartTime) > this.minSilenceDuration) {
+        this.isSpeaking = false;
+        this.speechStartTime = 0;
+        this.silenceStartTime = 0;
+      }
+    }
+    
+    const isSpeech = this.isSpeaking && (now - this.speechStartTime) > this.minSpeechDuration;
+    
+    this.lastDecision = {
+      timestamp,
+      isSpeech,
+      rawSpeech: energy > this.energyThreshold,
+      // Linear ramp between the silence and speech thresholds
+      probability: clamp(
+        (energy - this.silenceThreshold) / Math.max(this.energyThreshold - this.silenceThreshold, 1e-9),
+        0,
+        1
+      ),
+      energy
+    };
+    
+    return isSpeech;
+  }
+  
+  getLastDecision(): VadDecision | null {
+    return this.lastDecision;
+  }
+  
+  private calculateEnergy(audioData: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < audioData.length; i++) {
+      sum += audioData[i] * audioData[i];
+    }
+    return Math.sqrt(sum / audioData.length);
+  }
+}
+
+/**
+ * Voice Activity Detection based on frame-level spectral features.
+ * 
+ * Combines speech-band SNR against an adaptive noise floor, spectral
+ * flatness (tonal speech vs. broadband fans and HVAC) and zero-crossing
+ * rate (clicks and keyboard noise) into a speech probability, then applies
+ * onset and hangover smoothing.
+ */
+export class SpectralVoiceActivityDetector implements VoiceActivityDetection {
+  private options: SpectralVadOptions;
+  private window: Float32Array | null = null;
+  private fftSize = 0;
+  private noiseFloor = 0;
+  private warmupFrames = 0;
+  private isSpeaking = false;
+  private candidateStartTime = -1;
+  private lastSpeechTime = 0;
+  private lastDecision: VadDecision | null = null;
+  
+  // Frames used to seed the noise floor before decisions are trusted
+  private static readonly WARMUP_FRAMES = 10;
+  private static readonly SPEECH_BAND_HZ: [number, number] = [300, 3400];
+  private static readonly ANALYSIS_BAND_HZ: [number, number] = [100, 4000];
+  private static readonly MAX_SPEECH_ZCR = 0.35;
+  
+  constructor(options: SpectralVadOptions) {
+    this.options = options;
+  }
+  
+  processAudio(audioData: Float32Array, timestamp: number): boolean {
+    const mono = downmix(audioData, this.options.channels);
+    this.ensureWindow(mono.length);
+    
+    const power = powerSpectrum(mono, this.window!, this.fftSize);
+    const binHz = this.options.sampleRate / this.fftSize;
+    
+    const speechBand = bandEnergy(power, binHz, SpectralVoiceActivityDetector.SPEECH_BAND_HZ);
+    const analysisBand = bandEnergy(power, binHz, SpectralVoiceActivityDetector.ANALYSIS_BAND_HZ);
+    const totalEnergy = bandEnergy(power, binHz, [0, this.options.sampleRate / 2]);
+    const flatness = spectralFlatness(power, binHz, SpectralVoiceActivityDetector.ANALYSIS_BAND_HZ);
+    const zcr = zeroCrossingRate(mono);
+    const speechBandRatio = totalEnergy > 0 ? speechBand / totalEnergy : 0;
+    
+    // Seed the noise floor from the first frames of the capture
+    if (this.warmupFrames < SpectralVoiceActivityDetector.WARMUP_FRAMES) {
+      this.noiseFloor = (this.noiseFloor * this.warmupFrames + analysisBand) / (this.warmupFrames + 1);
+      this.warmupFrames++;
+    }
+    
+    const snrDb = 10 * Math.log10((analysisBand + 1e-12) / (this.noiseFloor + 1e-12));
+    
+    const logit =
+      1.5 * ((snrDb - this.options.snrThresholdDb) / 6) +
+      1.0 * ((this.options.flatnessThreshold - flatness) / 0.15) +
+      0.5 * ((speechBandRatio - 0.5) / 0.2) +
+      (zcr > SpectralVoiceActivityDetector.MAX_SPEECH_ZCR ? -1 : 0);
+    const probability = 1 / (1 + Math.exp(-logit));
+    const rawSpeech = this.warmupFrames >= SpectralVoiceActivityDetector.WARMUP_FRAMES &&
+      probability >= this.options.speechThreshold;
+      
+    this.updateNoiseFloor(analysisBand, rawSpeech);
+    this.updateState(rawSpeech, timestamp);
+    
+    this.lastDecision = {
+      timestamp,
+      isSpeech: this.isSpeaking,
+      rawSpeech,
+      probability,
+      energy: Math.sqrt(totalEnergy) / this.fftSize,
+      features: {
+        snrDb,
+        spectralFlatness: flatness,
+        zeroCrossingRate: zcr,
+        speechBandRatio,
+        noiseFloor: this.noiseFloor
+      }
+    };
+    
+    return this.isSpeaking;
+  }
+  
+  getLastDecision(): VadDecision | null {
+    return this.lastDecision;
+  }
+  
+  /**
+   * Track the noise floor during non-speech frames; fall quickly, rise slowly
+   */
+  private updateNoiseFloor(energy: number, rawSpeech: boolean): void {
+    if (rawSpeech) {
+      return;
+    }
+    
+    const adaptation = energy < this.noiseFloor
+      ? this.options.noiseAdaptation * 0.8
+      : this.options.noiseAdaptation;
+      
+    this.noiseFloor = adaptation * this.noiseFloor + (1 - adaptation) * energy;
+  }
+  
+  /**
+   * Onset (minSpeechDuration) and hangover (minSilenceDuration) smoothing
+   */
+  private updateState(rawSpeech: boolean, timestamp: number): void {
+    if (rawSpeech) {
+      this.lastSpeechTime = timestamp;
+      
+      if (!this.isSpeaking) {
+        if (this.candidateStartTime < 0) {
+          this.candidateStartTime = timestamp;
+        }
+        if (timestamp - this.candidateStartTime >= this.options.minSpeechDuration) {
+          this.isSpeaking = true;
+        }
+      }
+    } else if (this.isSpeaking) {
+      if (timestamp - this.lastSpeechTime > this.options.minSilenceDuration) {
+        this.isSpeaking = false;
+        this.candidateStartTime = -1;
+      }
+    } else {
+      this.candidateStartTime = -1;
+    }
+  }
+  
+  private ensureWindow(frameLength: number): void {
+    if (this.window && this.window.length === frameLength) {
+      return;
+    }
+    
+    this.window = hannWindow(frameLength);
+    this.fftSize = nextPowerOfTwo(frameLength);
+  }
+}
+
+function downmix(audioData: Float32Array, channels: number): Float32Array {
+  if (channels === 1) {
+    return audioData;
+  }
+  
+  const frames = Math.floor(audioData.length / channels);
+  const mono = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let ch = 0; ch < channels; ch++) {
+      sum += audioData[i * channels + ch];
+    }
+    mono[i] = sum / channels;
+  }
+  return mono;
+}
+
+function bandEnergy(power: Float64Array, binHz: number, [low, high]: [number, number]): number {
+  const first = Math.max(0, Math.floor(low / binHz));
+  const last = Math.min(power.length - 1, Math.ceil(high / binHz));
+  
+  let sum = 0;
+  for (let i = first; i <= last; i++) {
+    sum += power[i];
+  }
+  return sum;
+}
+
+function spectralFlatness(power: Float64Array, binHz: number, [low, high]: [number, number]): number {
+  const first = Math.max(1, Math.floor(low / binHz));
+  const last = Math.min(power.length - 1, Math.ceil(high / binHz));
+  
+  let logSum = 0;
+  let sum = 0;
+  for (let i = first; i <= last; i++) {
+    logSum += Math.log(power[i] + 1e-12);
+    sum += power[i] + 1e-12;
+  }
+  
+  const count = last - first + 1;
+  return count > 0 ? Math.exp(logSum / count) / (sum / count) : 1;
+}
+
+function zeroCrossingRate(samples: Float32Array): number {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if ((samples[i] >= 0) !== (samples[i - 1] >= 0)) {
+      crossings++;
+    }
+  }
+  return samples.length > 1 ? crossings / (samples.length - 1) : 0;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,261 @@
+/**
+ * WAV File Capture Backend
+ * 
+ * Streams a WAV file, or every WAV file in a directory, through the capture
+ * pipeline in real time. Useful on hosts without WASAPI and for feeding
+ * recorded speech through VAD, chunking and transcription.
+ */
+
+import { readFileSync, readdirSync, statSync } from 'fs';
+import path from 'path';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler, AudioMCPError } from '../utils/error-handler.js';
+import { AudioCaptureConfig, AudioDevice, NativeAudioModule } from './audio-capture-manager.js';
+import { parseWavHeader, decodeWavData, WavFormat } from './wav-format.js';
+import { AudioFormat } from './format-converter.js';
+
+export interface WavFileBackendOptions {
+  path: string;
+  loop: boolean;
+}
+
+interface LoadedWavFile {
+  file: string;
+  format: WavFormat;
+  samples: Float32Array;
+}
+
+export class WavFileBackend implements NativeAudioModule {
+  private logger: Logger;
+  private options: WavFileBackendOptions;
+  private files: string[] = [];
+  private current: LoadedWavFile | null = null;
+  private fileIndex = 0;
+  private framePosition = 0;
+  private framesSent = 0;
+  private startTime = 0;
+  private callback: ((audioData: Buffer) => void) | null = null;
+  private errorCallback: ((error: AudioMCPError) => void) | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  
+  constructor(options: WavFileBackendOptions) {
+    this.logger = Logger.getInstance();
+    this.options = options;
+  }
+  
+  initialize(): boolean {
+    try {
+      this.files = this.discoverFiles(this.options.path);
+      
+      if (this.files.length === 0) {
+        this.logger.error(`No WAV files found at ${this.options.path}`);
+        return false;
+      }
+      
+      // Load the first file up front so the stream format is known
+      this.fileIndex = 0;
+      this.current = this.loadFile(this.files[0]);
+      
+      this.logger.info(`WAV capture backend ready with ${this.files.length} file(s)`, {
+        path: this.options.path,
+        sampleRate: this.current.format.sampleRate,
+        channels: this.current.format.channels,
+        loop: this.options.loop
+      });
+      
+      return true;
+      
+    } catch (error) {
+      this.logger.error('Failed to initialize WAV capture backend', error);
+      return false;
+    }
+  }
+  
+  getCaptureFormat(): AudioFormat | null {
+    if (!this.current) {
+      return null;
+    }
+    
+    // Files are decoded up front, so every bit depth arrives as Float32
+    return {
+      sampleRate: this.current.format.sampleRate,
+      channels: this.current.format.channels,
+      sampleFormat: 'Float32'
+    };
+  }
+  
+  startCapture(config: AudioCaptureConfig): boolean {
+    if (!this.current) {
+      return false;
+    }
+    
+    this.stopCapture();
+    
+    // Every capture plays the source from the start
+    if (this.fileIndex !== 0) {
+      try {
+        this.current = this.loadFile(this.files[0]);
+      } catch (error) {
+        this.logger.error(`Failed to reload WAV file ${this.files[0]}`, error);
+        return false;
+      }
+      this.fileIndex = 0;
+    }
+    this.framePosition = 0;
+    this.startTime = Date.now();
+    this.framesSent = 0;
+    
+    this.timer = setInterval(() => {
+      this.pump();
+    }, config.bufferSizeMs);
+    
+    return true;
+  }
+  
+  stopCapture(): boolean {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    
+    return true;
+  }
+  
+  getDevices(): AudioDevice[] {
+    const format = this.current?.format;
+    
+    return this.files.map((file, index) => ({
+      id: `wav:${file}`,
+      name: `WAV file ${path.basename(file)}`,
+      isDefault: index === 0,
+      isEnabled: true,
+      channels: format?.channels ?? 1,
+      sampleRate: format?.sampleRate ?? 44100
+    }));
+  }
+  
+  cleanup(): boolean {
+    this.stopCapture();
+    this.current = null;
+    this.callback = null;
+    this.errorCallback = null;
+    return true;
+  }
+  
+  setAudioCallback(callback: (audioData: Buffer) => void): void {
+    this.callback = callback;
+  }
+  
+  setErrorCallback(callback: (error: AudioMCPError) => void): void {
+    this.errorCallback = callback;
+  }
+  
+  /**
+   * Push every frame that is due according to the wall clock
+   */
+  private pump(): void {
+    if (!this.current || !this.callback) {
+      return;
+    }
+    
+    const { sampleRate, channels } = this.current.format;
+    const dueFrames = Math.floor(((Date.now() - this.startTime) * sampleRate) / 1000);
+    let framesToSend = dueFrames - this.framesSent;
+    
+    while (framesToSend > 0 && this.current) {
+      const totalFrames = this.current.samples.length / channels;
+      const frames = Math.min(framesToSend, totalFrames - this.framePosition);
+      
+      if (frames > 0) {
+        const slice = this.current.samples.slice(
+          this.framePosition * channels,
+          (this.framePosition + frames) * channels
+        );
+        this.callback(Buffer.from(slice.buffer, slice.byteOffset, slice.byteLength));
+        
+        this.framePosition += frames;
+        this.framesSent += frames;
+        framesToSend -= frames;
+      }
+      
+      if (this.framePosition >= totalFrames && !this.advanceFile()) {
+        // The end of the source ends the session like a failing device would
+        this.logger.info('WAV capture source exhausted', { path: this.options.path });
+        this.stopCapture();
+        this.errorCallback?.(ErrorHandler.createCaptureError('WAV capture source exhausted', { path: this.options.path }));
+        return;
+      }
+    }
+  }
+  
+  /**
+   * Move on to the next file, wrapping around when looping
+   */
+  private advanceFile(): boolean {
+    const expected = this.current!.format;
+    const attempts = this.files.length;
+    
+    for (let i = 0; i < attempts; i++) {
+      let nextIndex = this.fileIndex + 1;
+      
+      if (nextIndex >= this.files.length) {
+        if (!this.options.loop) {
+          return false;
+        }
+        nextIndex = 0;
+      }
+      
+      this.fileIndex = nextIndex;
+      this.framePosition = 0;
+      
+      try {
+        const next = this.files.length === 1 ? this.current! : this.loadFile(this.files[nextIndex]);
+        
+        if (next.format.sampleRate !== expected.sampleRate || next.format.channels !== expected.channels) {
+          this.logger.warn(`Skipping ${next.file}: format differs from the first WAV file`, {
+            sampleRate: next.format.sampleRate,
+            channels: next.format.channels
+          });
+          continue;
+        }
+        
+        this.current = next;
+        return true;
+        
+      } catch (error) {
+        this.logger.warn(`Skipping unreadable WAV file ${this.files[nextIndex]}`, error);
+      }
+    }
+    
+    return false;
+  }
+  
+  private loadFile(file: string): LoadedWavFile {
+    const buffer = readFileSync(file);
+    const format = parseWavHeader(buffer);
+    
+    return {
+      file,
+      format,
+      samples: decodeWavData(buffer, format)
+    };
+  }
+  
+  private discoverFiles(source: string): string[] {
+    let stats;
+    try {
+      stats = statSync(source);
+    } catch (error) {
+      throw ErrorHandler.createCaptureError(`WAV source not found: ${source}`, error);
+    }
+    
+    if (!stats.isDirectory()) {
+      return [source];
+    }
+    
+    return readdirSync(source)
+      .filter(name => name.toLowerCase().endsWith('.wav'))
+      .sort()
+      .map(name => path.join(source, name));
+  }
+}
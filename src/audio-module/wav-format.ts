@@ -0,0 +1,196 @@
+/**
+ * WAV Format Utilities
+ * 
+ * Parses RIFF/WAVE headers and decodes PCM sample data so that recorded
+ * audio files can be used as capture sources, and writes PCM WAV files for
+ * recordings and audio resources.
+ */
+
+import { ErrorHandler } from '../utils/error-handler.js';
+import { StreamFormat, encodeSamples } from './format-converter.js';
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export interface WavFormat {
+  audioFormat: number;
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  blockAlign: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+/**
+ * Parse the RIFF header of a WAV file and locate its data chunk
+ */
+export function parseWavHeader(buffer: Buffer): WavFormat {
+  if (buffer.length < 12 ||
+      buffer.toString('ascii', 0, 4) !== 'RIFF' ||
+      buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw ErrorHandler.createCaptureError('Not a RIFF/WAVE file');
+  }
+  
+  let format: Omit<WavFormat, 'dataOffset' | 'dataLength'> | null = null;
+  let offset = 12;
+  
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+    
+    if (chunkId === 'fmt ') {
+      let audioFormat = buffer.readUInt16LE(chunkStart);
+      
+      // WAVE_FORMAT_EXTENSIBLE stores the real format in the sub-format GUID
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 26) {
+        audioFormat = buffer.readUInt16LE(chunkStart + 24);
+      }
+      
+      format = {
+        audioFormat,
+        channels: buffer.readUInt16LE(chunkStart + 2),
+        sampleRate: buffer.readUInt32LE(chunkStart + 4),
+        blockAlign: buffer.readUInt16LE(chunkStart + 12),
+        bitsPerSample: buffer.readUInt16LE(chunkStart + 14)
+      };
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw ErrorHandler.createCaptureError('WAV data chunk found before fmt chunk');
+      }
+      
+      return {
+        ...format,
+        dataOffset: chunkStart,
+        // Streaming writers may leave the size unset, so clamp to the file
+        dataLength: Math.min(chunkSize, buffer.length - chunkStart)
+      };
+    }
+    
+    // Chunks are padded to an even number of bytes
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+  
+  throw ErrorHandler.createCaptureError('WAV file has no data chunk');
+}
+
+/**
+ * Decode the data chunk of a WAV file into interleaved Float32 samples
+ */
+export function decodeWavData(buffer: Buffer, format: WavFormat): Float32Array {
+  const bytesPerSample = format.bitsPerSample / 8;
+  const sampleCount = Math.floor(format.dataLength / bytesPerSample);
+  const samples = new Float32Array(sampleCount);
+  
+  for (let i = 0; i < sampleCount; i++) {
+    const pos = format.dataOffset + i * bytesPerSample;
+    
+    if (format.audioFormat === WAVE_FORMAT_IEEE_FLOAT) {
+      samples[i] = format.bitsPerSample === 64 ? buffer.readDoubleLE(pos) : buffer.readFloatLE(pos);
+    } else if (format.audioFormat === WAVE_FORMAT_PCM) {
+      switch (format.bitsPerSample) {
+        case 8:
+          samples[i] = (buffer.readUInt8(pos) - 128) / 128;
+          break;
+        case 16:
+          samples[i] = buffer.readInt16LE(pos) / 32768;
+          break;
+        case 24:
+          samples[i] = buffer.readIntLE(pos, 3) / 8388608;
+          break;
+        case 32:
+          samples[i] = buffer.readInt32LE(pos) / 2147483648;
+          break;
+        default:
+          throw ErrorHandler.createCaptureError(`Unsupported PCM bit depth: ${format.bitsPerSample}`);
+      }
+    } else {
+      throw ErrorHandler.createCaptureError(`Unsupported WAV audio format: ${format.audioFormat}`);
+    }
+  }
+  
+  return samples;
+}
+
+/**
+ * Build the RIFF header of a PCM WAV file, with optional LIST/INFO metadata
+ * (e.g. INAM, ICRD, ISFT). `dataLength` can be patched later for streaming.
+ */
+export function createWavHeader(
+  format: StreamFormat,
+  bitsPerSample: 16 | 24,
+  dataLength: number,
+  info: Record<string, string> = {}
+): Buffer {
+  const blockAlign = format.channels * (bitsPerSample / 8);
+  
+  const fmt = Buffer.alloc(24);
+  fmt.write('fmt ', 0, 'ascii');
+  fmt.writeUInt32LE(16, 4);
+  fmt.writeUInt16LE(WAVE_FORMAT_PCM, 8);
+  fmt.writeUInt16LE(format.channels, 10);
+  fmt.writeUInt32LE(format.sampleRate, 12);
+  fmt.writeUInt32LE(format.sampleRate * blockAlign, 16);
+  fmt.writeUInt16LE(blockAlign, 20);
+  fmt.writeUInt16LE(bitsPerSample, 22);
+  
+  const list = createInfoChunk(info);
+  
+  const data = Buffer.alloc(8);
+  data.write('data', 0, 'ascii');
+  data.writeUInt32LE(dataLength, 4);
+  
+  const riff = Buffer.alloc(12);
+  riff.write('RIFF', 0, 'ascii');
+  riff.writeUInt32LE(4 + fmt.length + list.length + data.length + dataLength, 4);
+  riff.write('WAVE', 8, 'ascii');
+  
+  return Buffer.concat([riff, fmt, list, data]);
+}
+
+/**
+ * Patch the RIFF and data chunk sizes of a header created by createWavHeader
+ */
+export function updateWavHeader(header: Buffer, dataLength: number): void {
+  header.writeUInt32LE(header.length - 8 + dataLength, 4);
+  header.writeUInt32LE(dataLength, header.length - 4);
+}
+
+/**
+ * Encode interleaved Float32 samples as a complete PCM WAV file
+ */
+export function encodeWav(
+  samples: Float32Array,
+  format: StreamFormat,
+  bitsPerSample: 16 | 24 = 16,
+  info: Record<string, string> = {}
+): Buffer {
+  const data = encodeSamples(samples, bitsPerSample === 24 ? 'PCM24' : 'PCM16');
+  return Buffer.concat([createWavHeader(format, bitsPerSample, data.length, info), data]);
+}
+
+function createInfoChunk(info: Record<string, string>): Buffer {
+  const entries = Object.entries(info).filter(([id, value]) => id.length === 4 && value);
+  if (entries.length === 0) {
+    return Buffer.alloc(0);
+  }
+  
+  const subChunks = entries.map(([id, value]) => {
+    // Null-terminated, padded to an even length
+    const text = Buffer.from(`${value}\0`, 'utf8');
+    const chunk = Buffer.alloc(8 + text.length + (text.length % 2));
+    chunk.write(id, 0, 'ascii');
+    chunk.writeUInt32LE(text.length, 4);
+    text.copy(chunk, 8);
+    return chunk;
+  });
+  
+  const body = Buffer.concat([Buffer.from('INFO', 'ascii'), ...subChunks]);
+  const header = Buffer.alloc(8);
+  header.write('LIST', 0, 'ascii');
+  header.writeUInt32LE(body.length, 4);
+  
+  return Buffer.concat([header, body]);
+}
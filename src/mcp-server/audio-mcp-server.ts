@@ -6,12 +6,29 @@
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { AudioCaptureManager } from '../audio-module/audio-capture-manager.js';
-import { SpeechServiceManager } from '../speech-recognition/speech-service-manager.js';
+import {
+  SpeechServiceManager,
+  StreamingTranscriptEvent,
+  TranscriptionSegment
+} from '../speech-recognition/speech-service-manager.js';
 import { AudioDeviceManager } from '../audio-module/audio-device-manager.js';
+import { MicrophoneCalibrator } from '../audio-module/microphone-calibrator.js';
+import { RecordingManager } from '../audio-module/recording-manager.js';
+import { SpeechListener } from '../audio-module/speech-listener.js';
+import { TranscriptionOrchestrator, placeSegments, joinSegments } from './transcription-orchestrator.js';
+import { encodeWav } from '../audio-module/wav-format.js';
+import { AudioLevelReport } from '../audio-module/level-meter.js';
 import { Logger } from '../utils/logger.js';
 import { ConfigManager } from '../utils/config-manager.js';
+import { ErrorHandler } from '../utils/error-handler.js';
 
 /**
  * Schema definitions for MCP tools
@@ -20,19 +37,70 @@ const StartAudioCaptureSchema = z.object({
   deviceId: z.string().optional(),
   sampleRate: z.number().min(8000).max(96000).optional(),
   channels: z.number().min(1).max(2).optional(),
-  bufferSizeMs: z.number().min(10).max(1000).optional()
+  bufferSizeMs: z.number().min(10).max(1000).optional(),
+  record: z.boolean().optional(),
+  recordingFormat: z.enum(['wav', 'flac']).optional()
+});
+
+const CaptureSessionSchema = z.object({
+  sessionId: z.string().optional()
+});
+
+const LiveStreamQuerySchema = z.object({
+  seconds: z.coerce.number().positive().optional(),
+  session: z.string().optional()
+});
+
+const StartRecordingSchema = z.object({
+  sessionId: z.string().optional(),
+  format: z.enum(['wav', 'flac']).optional(),
+  name: z.string().max(200).optional()
 });
 
 const TranscribeAudioSchema = z.object({
-  service: z.enum(['whisper', 'azure', 'google']).optional(),
+  sessionId: z.string().optional(),
+  service: z.string().optional(),
   language: z.string().optional(),
-  continuous: z.boolean().optional()
+  languageCandidates: z.array(z.string()).optional(),
+  continuous: z.boolean().optional(),
+  partialResults: z.boolean().optional()
+});
+
+const ListenAndTranscribeSchema = z.object({
+  deviceId: z.string().optional(),
+  maxDurationSeconds: z.number().min(1).max(300).optional(),
+  silenceTimeoutSeconds: z.number().min(0.3).max(10).optional(),
+  startTimeoutSeconds: z.number().min(1).max(60).optional(),
+  service: z.string().optional(),
+  language: z.string().optional(),
+  languageCandidates: z.array(z.string()).optional()
+});
+
+const TranscribeRecentSchema = z.object({
+  sessionId: z.string().optional(),
+  seconds: z.number().positive().max(1800).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  service: z.string().optional(),
+  language: z.string().optional(),
+  languageCandidates: z.array(z.string()).optional()
+});
+
+const ListLanguagesSchema = z.object({
+  language: z.string().optional()
 });
 
 const AudioDeviceSchema = z.object({
   includeProperties: z.boolean().optional()
 });
 
+const CalibrateMicrophoneSchema = z.object({
+  deviceId: z.string().optional(),
+  silenceSeconds: z.number().min(1).max(30).optional(),
+  speechSeconds: z.number().min(1).max(60).optional(),
+  persist: z.boolean().optional()
+});
+
 /**
  * Main audio MCP server class
  */
@@ -43,6 +111,11 @@ export class AudioMCPServer {
   private audioCapture: AudioCaptureManager;
   private speechServices: SpeechServiceManager;
   private deviceManager: AudioDeviceManager;
+  private calibrator: MicrophoneCalibrator;
+  private recordings: RecordingManager;
+  private listener: SpeechListener;
+  private transcription: TranscriptionOrchestrator;
+  private rollingBufferSessionId: string | null = null;
   private isInitialized = false;
   
   constructor(server: Server) {
@@ -52,6 +125,10 @@ export class AudioMCPServer {
     this.audioCapture = new AudioCaptureManager();
     this.speechServices = new SpeechServiceManager();
     this.deviceManager = new AudioDeviceManager();
+    this.calibrator = new MicrophoneCalibrator(this.audioCapture);
+    this.recordings = new RecordingManager(this.audioCapture);
+    this.listener = new SpeechListener(this.audioCapture);
+    this.transcription = new TranscriptionOrchestrator(this.audioCapture, this.speechServices);
   }
   
   /**
@@ -76,6 +153,12 @@ export class AudioMCPServer {
       // Register MCP resources
       this.registerResources();
       
+      this.forwardStreamingTranscripts();
+      
+      if (this.config.getAudioConfig().rollingBuffer.enabled) {
+        await this.startRollingBuffer();
+      }
+      
       this.isInitialized = true;
       this.logger.info('Audio MCP Server initialized successfully');
       
@@ -90,14 +173,29 @@ export class AudioMCPServer {
    */
   private registerTools(): void {
     // Start audio capture tool
-    this.server.setRequestHandler('tools/call', async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       if (request.params.name === 'startAudioCapture') {
         const args = StartAudioCaptureSchema.parse(request.params.arguments || {});
         return await this.handleStartAudioCapture(args);
       }
       
       if (request.params.name === 'stopAudioCapture') {
-        return await this.handleStopAudioCapture();
+        const args = CaptureSessionSchema.parse(request.params.arguments || {});
+        return await this.handleStopAudioCapture(args);
+      }
+      
+      if (request.params.name === 'pauseAudioCapture') {
+        const args = CaptureSessionSchema.parse(request.params.arguments || {});
+        return await this.handlePauseAudioCapture(args);
+      }
+      
+      if (request.params.name === 'resumeAudioCapture') {
+        const args = CaptureSessionSchema.parse(request.params.arguments || {});
+        return await this.handleResumeAudioCapture(args);
+      }
+      
+      if (request.params.name === 'listCaptureSessions') {
+        return await this.handleListCaptureSessions();
       }
       
       if (request.params.name === 'transcribeAudio') {
@@ -105,31 +203,75 @@ export class AudioMCPServer {
         return await this.handleTranscribeAudio(args);
       }
       
+      if (request.params.name === 'stopTranscription') {
+        const args = CaptureSessionSchema.parse(request.params.arguments || {});
+        return await this.handleStopTranscription(args);
+      }
+      
+      if (request.params.name === 'transcribeRecent') {
+        const args = TranscribeRecentSchema.parse(request.params.arguments || {});
+        return await this.handleTranscribeRecent(args);
+      }
+      
+      if (request.params.name === 'listenAndTranscribe') {
+        const args = ListenAndTranscribeSchema.parse(request.params.arguments || {});
+        return await this.handleListenAndTranscribe(args);
+      }
+      
+      if (request.params.name === 'listLanguages') {
+        const args = ListLanguagesSchema.parse(request.params.arguments || {});
+        return await this.handleListLanguages(args);
+      }
+      
       if (request.params.name === 'listAudioDevices') {
         const args = AudioDeviceSchema.parse(request.params.arguments || {});
         return await this.handleListAudioDevices(args);
       }
       
+      if (request.params.name === 'getAudioLevels') {
+        const args = CaptureSessionSchema.parse(request.params.arguments || {});
+        return await this.handleGetAudioLevels(args);
+      }
+      
+      if (request.params.name === 'startRecording') {
+        const args = StartRecordingSchema.parse(request.params.arguments || {});
+        return await this.handleStartRecording(args);
+      }
+      
+      if (request.params.name === 'stopRecording') {
+        const args = CaptureSessionSchema.parse(request.params.arguments || {});
+        return await this.handleStopRecording(args);
+      }
+      
+      if (request.params.name === 'listRecordings') {
+        return await this.handleListRecordings();
+      }
+      
+      if (request.params.name === 'calibrateMicrophone') {
+        const args = CalibrateMicrophoneSchema.parse(request.params.arguments || {});
+        return await this.handleCalibrateMicrophone(args);
+      }
+      
       throw new Error(`Unknown tool: ${request.params.name}`);
     });
     
     // List tools
-    this.server.setRequestHandler('tools/list', async () => {
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: [
           {
             name: 'startAudioCapture',
-            description: 'Start real-time audio capture from microphone',
+            description: 'Start real-time audio capture from a microphone and return the capture session ID. Several devices can be captured at once, up to the configured maxConcurrentStreams',
             inputSchema: {
               type: 'object',
               properties: {
                 deviceId: {
                   type: 'string',
-                  description: 'Audio device ID (optional, uses default if not specified)'
+                  description: 'Audio device ID (optional, uses default if not specified). Use wav:<path> to stream a WAV file or directory named in audio.wav.path or audio.deviceProfiles'
                 },
                 sampleRate: {
                   type: 'number',
-                  description: 'Sample rate in Hz (default: 44100)',
+                  description: 'Sample rate audio is converted to in Hz (default: 44100)',
                   minimum: 8000,
                   maximum: 96000
                 },
@@ -144,6 +286,15 @@ export class AudioMCPServer {
                   description: 'Buffer size in milliseconds (default: 100)',
                   minimum: 10,
                   maximum: 1000
+                },
+                record: {
+                  type: 'boolean',
+                  description: 'Also record the capture to a file (default: false)'
+                },
+                recordingFormat: {
+                  type: 'string',
+                  enum: ['wav', 'flac'],
+                  description: 'Recording file format (default: from configuration)'
                 }
               }
             }
@@ -151,6 +302,45 @@ export class AudioMCPServer {
           {
             name: 'stopAudioCapture',
             description: 'Stop real-time audio capture',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Capture session to stop (optional, stops all sessions except the rolling buffer if not specified)'
+                }
+              }
+            }
+          },
+          {
+            name: 'pauseAudioCapture',
+            description: 'Temporarily stop accepting audio (e.g. during a private conversation) while keeping the device open and the captured history. The pause is recorded as a gap in the session',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Capture session to pause (optional if only one session is active)'
+                }
+              }
+            }
+          },
+          {
+            name: 'resumeAudioCapture',
+            description: 'Accept audio again after pauseAudioCapture',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Capture session to resume (optional if only one session is active)'
+                }
+              }
+            }
+          },
+          {
+            name: 'listCaptureSessions',
+            description: 'List the active capture sessions with their devices and formats',
             inputSchema: {
               type: 'object',
               properties: {}
@@ -162,18 +352,109 @@ export class AudioMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
-                service: {
-                  type: 'string',
-                  enum: ['whisper', 'azure', 'google'],
-                  description: 'Speech recognition service to use (default: whisper)'
-                },
-                language: {
+                sessionId: {
                   type: 'string',
-                  description: 'Language code (e.g., en-US, es-ES)'
+                  description: 'Capture session whose speech to transcribe (optional if only one session is active)'
                 },
+                service: this.getServiceProperty(),
+                ...this.getLanguageProperties(),
                 continuous: {
                   type: 'boolean',
-                  description: 'Enable continuous transcription (default: false)'
+                  description: 'Keep transcribing each utterance as it is detected until stopTranscription is called (default: false)'
+                },
+                partialResults: {
+                  type: 'boolean',
+                  description: 'With continuous, send interim results while each utterance is spoken as ' +
+                    'notifications/transcription/partial, and final ones as notifications/transcription/final ' +
+                    `(default: ${this.config.getSpeechConfig().streaming.partialResults})`
+                }
+              }
+            }
+          },
+          {
+            name: 'stopTranscription',
+            description: 'Stop continuous transcription and return the transcript built up so far',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Capture session being transcribed (optional if only one continuous transcription is running)'
+                }
+              }
+            }
+          },
+          {
+            name: 'transcribeRecent',
+            description: 'Transcribe audio that was already captured, e.g. "what did they just say?": the last N seconds, or an absolute time range. Uses the always-on rolling buffer when it is enabled',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Capture session to read (optional, defaults to the rolling buffer or the only session)'
+                },
+                seconds: {
+                  type: 'number',
+                  description: 'Transcribe the last N seconds (default: 30, limited by audio.historySeconds)',
+                  minimum: 0,
+                  maximum: 1800
+                },
+                from: {
+                  type: 'string',
+                  description: 'Start of an absolute time range (ISO 8601); takes precedence over seconds'
+                },
+                to: {
+                  type: 'string',
+                  description: 'End of the time range (ISO 8601, default: now)'
+                },
+                service: this.getServiceProperty(),
+                ...this.getLanguageProperties()
+              }
+            }
+          },
+          {
+            name: 'listenAndTranscribe',
+            description: 'Listen to the user now: capture from a microphone until they stop speaking, then transcribe what they said and return the text with timed segments',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                deviceId: {
+                  type: 'string',
+                  description: 'Audio device ID (optional, uses default if not specified)'
+                },
+                maxDurationSeconds: {
+                  type: 'number',
+                  description: 'Maximum time to listen in seconds (default: 30)',
+                  minimum: 1,
+                  maximum: 300
+                },
+                silenceTimeoutSeconds: {
+                  type: 'number',
+                  description: 'Silence after speech that ends listening, in seconds (default: 1.5)',
+                  minimum: 0.3,
+                  maximum: 10
+                },
+                startTimeoutSeconds: {
+                  type: 'number',
+                  description: 'Stop if no speech starts within this many seconds (default: 10)',
+                  minimum: 1,
+                  maximum: 60
+                },
+                service: this.getServiceProperty(),
+                ...this.getLanguageProperties()
+              }
+            }
+          },
+          {
+            name: 'listLanguages',
+            description: 'List the languages each speech service supports, or check which services support one language and the code each is sent',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                language: {
+                  type: 'string',
+                  description: 'Language code to check (e.g., es, pt-BR, zh-TW); lists every language if not specified'
                 }
               }
             }
@@ -190,6 +471,91 @@ export class AudioMCPServer {
                 }
               }
             }
+          },
+          {
+            name: 'getAudioLevels',
+            description: 'Get current input levels (RMS, peak, dBFS, clipping, DC offset per channel) and a diagnosis such as noSignal, digitalSilence, low or clipping, with the latest voice activity decision',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Capture session to report (optional, reports every active session if not specified)'
+                }
+              }
+            }
+          },
+          {
+            name: 'startRecording',
+            description: 'Start recording an active audio capture to a WAV or FLAC file',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Capture session to record (optional if only one session is active)'
+                },
+                format: {
+                  type: 'string',
+                  enum: ['wav', 'flac'],
+                  description: 'Recording file format (default: from configuration)'
+                },
+                name: {
+                  type: 'string',
+                  description: 'Title stored in the file metadata'
+                }
+              }
+            }
+          },
+          {
+            name: 'stopRecording',
+            description: 'Stop the recording in progress and finalize its file',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Capture session whose recording to stop (optional if only one recording is in progress)'
+                }
+              }
+            }
+          },
+          {
+            name: 'listRecordings',
+            description: 'List saved recordings; each can be read as audio://recordings/{id}',
+            inputSchema: {
+              type: 'object',
+              properties: {}
+            }
+          },
+          {
+            name: 'calibrateMicrophone',
+            description: 'Measure noise floor, speech level, SNR and clipping for a device and recommend VAD thresholds. The user should stay silent for the first phase, then speak normally',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                deviceId: {
+                  type: 'string',
+                  description: 'Audio device ID (optional, uses default if not specified)'
+                },
+                silenceSeconds: {
+                  type: 'number',
+                  description: 'Length of the silent phase in seconds (default: 3)',
+                  minimum: 1,
+                  maximum: 30
+                },
+                speechSeconds: {
+                  type: 'number',
+                  description: 'Length of the speech phase in seconds (default: 5)',
+                  minimum: 1,
+                  maximum: 60
+                },
+                persist: {
+                  type: 'boolean',
+                  description: 'Save the recommended thresholds as the device profile in config.json (default: false)'
+                }
+              }
+            }
           }
         ]
       };
@@ -200,13 +566,22 @@ export class AudioMCPServer {
    * Register MCP resources
    */
   private registerResources(): void {
-    this.server.setRequestHandler('resources/list', async () => {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const recordings = this.recordings.listRecordings()
+        .filter(recording => recording.status === 'completed')
+        .map(recording => ({
+          uri: `audio://recordings/${recording.id}`,
+          name: recording.name || recording.id,
+          description: `Recording from ${recording.deviceId} (${recording.durationSeconds.toFixed(1)}s)`,
+          mimeType: recording.mimeType
+        }));
+        
       return {
         resources: [
           {
             uri: 'audio://stream/live',
             name: 'Live Audio Stream',
-            description: 'Real-time audio stream from microphone',
+            description: 'Most recent captured audio as WAV; set the window with audio://stream/live?seconds=N (default: 5) and pick a capture session with &session=ID',
             mimeType: 'audio/wav'
           },
           {
@@ -215,31 +590,76 @@ export class AudioMCPServer {
             description: 'Recently transcribed audio content',
             mimeType: 'application/json'
           },
+          {
+            uri: 'audio://transcripts/live',
+            name: 'Continuous Transcripts',
+            description: 'Transcripts of continuous transcriptions, built up utterance by utterance',
+            mimeType: 'application/json'
+          },
+          {
+            uri: 'audio://services',
+            name: 'Speech Services',
+            description: 'Speech providers with their availability and health: circuit state, failures, latency and last error',
+            mimeType: 'application/json'
+          },
           {
             uri: 'audio://devices/list',
             name: 'Audio Devices',
             description: 'List of available audio input devices',
             mimeType: 'application/json'
-          }
+          },
+          {
+            uri: 'audio://levels',
+            name: 'Audio Levels',
+            description: 'Current input levels, signal diagnosis and voice activity',
+            mimeType: 'application/json'
+          },
+          {
+            uri: 'audio://recordings',
+            name: 'Recordings',
+            description: 'Metadata of saved recordings',
+            mimeType: 'application/json'
+          },
+          ...recordings
         ]
       };
     });
     
-    this.server.setRequestHandler('resources/read', async (request) => {
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const uri = request.params.uri;
       
-      if (uri === 'audio://stream/live') {
-        return await this.handleGetAudioStream();
+      if (uri === 'audio://stream/live' || uri.startsWith('audio://stream/live?')) {
+        return await this.handleGetAudioStream(uri);
       }
       
       if (uri === 'audio://transcripts/recent') {
         return await this.handleGetRecentTranscripts();
       }
       
+      if (uri === 'audio://transcripts/live') {
+        return await this.handleGetLiveTranscripts();
+      }
+      
+      if (uri === 'audio://services') {
+        return await this.handleGetServiceStatus();
+      }
+      
       if (uri === 'audio://devices/list') {
         return await this.handleGetDeviceList();
       }
       
+      if (uri === 'audio://levels') {
+        return await this.handleGetLevels();
+      }
+      
+      if (uri === 'audio://recordings') {
+        return await this.handleGetRecordingList();
+      }
+      
+      if (uri.startsWith('audio://recordings/')) {
+        return await this.handleGetRecording(uri);
+      }
+      
       throw new Error(`Unknown resource URI: ${uri}`);
     });
   }
@@ -249,19 +669,30 @@ export class AudioMCPServer {
    */
   private async handleStartAudioCapture(args: z.infer<typeof StartAudioCaptureSchema>) {
     try {
+      const audioConfig = this.config.getAudioConfig();
       const config = {
-        deviceId: args.deviceId || 'default',
-        sampleRate: args.sampleRate || 44100,
-        channels: args.channels || 1,
-        bufferSizeMs: args.bufferSizeMs || 100
+        deviceId: args.deviceId || audioConfig.deviceId || 'default',
+        sampleRate: args.sampleRate || audioConfig.sampleRate,
+        channels: args.channels || audioConfig.channels,
+        bufferSizeMs: args.bufferSizeMs || audioConfig.bufferSizeMs
       };
       
-      await this.audioCapture.startCapture(config);
+      const session = await this.audioCapture.startCapture(config);
+      
+      let message = `Audio capture started successfully with device: ${config.deviceId}\nSession ID: ${session.id}`;
+      
+      if (args.record) {
+        const recording = this.recordings.startRecording({
+          sessionId: session.id,
+          ...(args.recordingFormat ? { format: args.recordingFormat } : {})
+        });
+        message += `\nRecording ${recording.id} to ${recording.file}`;
+      }
       
       return {
         content: [{
           type: 'text',
-          text: `Audio capture started successfully with device: ${config.deviceId}`
+          text: message
         }]
       };
     } catch (error) {
@@ -270,14 +701,25 @@ export class AudioMCPServer {
     }
   }
   
-  private async handleStopAudioCapture() {
+  private async handleStopAudioCapture(args: z.infer<typeof CaptureSessionSchema>) {
     try {
-      await this.audioCapture.stopCapture();
+      if (args.sessionId) {
+        await this.audioCapture.stopCapture(args.sessionId);
+      } else {
+        // The always-on rolling buffer only stops when addressed by its ID
+        for (const session of this.audioCapture.getSessions()) {
+          if (session.id !== this.rollingBufferSessionId) {
+            await this.audioCapture.stopCapture(session.id);
+          }
+        }
+      }
       
       return {
         content: [{
           type: 'text',
-          text: 'Audio capture stopped successfully'
+          text: args.sessionId
+            ? `Audio capture session ${args.sessionId} stopped successfully`
+            : 'Audio capture stopped successfully'
         }]
       };
     } catch (error) {
@@ -286,12 +728,92 @@ export class AudioMCPServer {
     }
   }
   
+  private async handlePauseAudioCapture(args: z.infer<typeof CaptureSessionSchema>) {
+    try {
+      const gap = this.audioCapture.pauseCapture(args.sessionId);
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `Audio capture paused at ${gap.pausedAt}; audio is discarded until resumed`
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Failed to pause audio capture', error);
+      throw error;
+    }
+  }
+  
+  private async handleResumeAudioCapture(args: z.infer<typeof CaptureSessionSchema>) {
+    try {
+      const gap = this.audioCapture.resumeCapture(args.sessionId);
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `Audio capture resumed after a ${((gap.durationMs ?? 0) / 1000).toFixed(1)}s pause`
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Failed to resume audio capture', error);
+      throw error;
+    }
+  }
+  
+  private async handleListCaptureSessions() {
+    try {
+      const sessions = this.audioCapture.getSessions().map(session => session.getInfo());
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            maxConcurrentStreams: this.config.getServerConfig().maxConcurrentStreams,
+            rollingBufferSessionId: this.getRollingBufferSessionId() ?? null,
+            sessions
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Failed to list capture sessions', error);
+      throw error;
+    }
+  }
+  
   private async handleTranscribeAudio(args: z.infer<typeof TranscribeAudioSchema>) {
     try {
+      const service = args.service || this.speechServices.getDefaultService();
+      const language = args.language || this.config.getSpeechConfig().defaultLanguage;
+      
+      if (args.continuous) {
+        const started = await this.transcription.startContinuous({
+          ...(args.sessionId ? { sessionId: args.sessionId } : {}),
+          service,
+          language,
+          ...(args.languageCandidates ? { languageCandidates: args.languageCandidates } : {}),
+          partialResults: args.partialResults ?? this.config.getSpeechConfig().streaming.partialResults
+        });
+        
+        return {
+          content: [{
+            type: 'text',
+            text: `Continuous transcription started for session ${started.sessionId} with ${service}; ` +
+              'each utterance is transcribed as it is detected until stopTranscription is called or the capture stops' +
+              (started.partialResults ? ', with interim results sent as notifications' : '')
+          }]
+        };
+      }
+      
+      // Transcribe the utterances of the addressed session
+      const session = this.audioCapture.resolveSession(args.sessionId);
+      
       const result = await this.speechServices.transcribe({
-        service: args.service || 'whisper',
-        language: args.language || 'en-US',
-        continuous: args.continuous || false
+        service,
+        language,
+        ...(args.languageCandidates ? { languageCandidates: args.languageCandidates } : {}),
+        ...(session
+          ? { audioData: session.getRecentAudioChunks(this.config.getAudioConfig().historySeconds) }
+          : {})
       });
       
       return {
@@ -306,6 +828,135 @@ export class AudioMCPServer {
     }
   }
   
+  private async handleStopTranscription(args: z.infer<typeof CaptureSessionSchema>) {
+    try {
+      const transcript = await this.transcription.stopContinuous(args.sessionId);
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(transcript, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Failed to stop transcription', error);
+      throw error;
+    }
+  }
+  
+  private async handleTranscribeRecent(args: z.infer<typeof TranscribeRecentSchema>) {
+    try {
+      const session = this.audioCapture.resolveSession(args.sessionId ?? this.getRollingBufferSessionId());
+      if (!session) {
+        throw ErrorHandler.createCaptureError('No captured audio available');
+      }
+      
+      const audio = args.from
+        ? session.getAudioRange(Date.parse(args.from), args.to ? Date.parse(args.to) : Date.now())
+        : session.getRecentAudio(Math.min(args.seconds ?? 30, this.config.getAudioConfig().historySeconds));
+        
+      if (!audio || audio.data.length === 0) {
+        throw ErrorHandler.createCaptureError('No captured audio in the requested range', {
+          sessionId: session.id
+        });
+      }
+      
+      const service = args.service || this.speechServices.getDefaultService();
+      const language = args.language || this.config.getSpeechConfig().defaultLanguage;
+      const result = await this.speechServices.transcribe({
+        service,
+        language,
+        ...(args.languageCandidates ? { languageCandidates: args.languageCandidates } : {}),
+        audioData: [audio]
+      });
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            text: result.text,
+            segments: placeSegments(result, audio, audio.startSample, (sample) => session.getWallClock(sample)),
+            service,
+            language,
+            from: new Date(audio.timestamp).toISOString(),
+            to: new Date(audio.timestamp + audio.duration).toISOString(),
+            durationSeconds: audio.duration / 1000,
+            sessionId: session.id
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Failed to transcribe recent audio', error);
+      throw error;
+    }
+  }
+  
+  private async handleListenAndTranscribe(args: z.infer<typeof ListenAndTranscribeSchema>) {
+    try {
+      const audioConfig = this.config.getAudioConfig();
+      const config = {
+        deviceId: args.deviceId || audioConfig.deviceId || 'default',
+        sampleRate: audioConfig.sampleRate,
+        channels: audioConfig.channels,
+        bufferSizeMs: audioConfig.bufferSizeMs
+      };
+      const service = args.service || this.speechServices.getDefaultService();
+      const language = args.language || this.config.getSpeechConfig().defaultLanguage;
+      
+      const listened = await this.listener.listen(config, {
+        maxDurationSeconds: args.maxDurationSeconds || 30,
+        silenceTimeoutSeconds: args.silenceTimeoutSeconds || 1.5,
+        startTimeoutSeconds: args.startTimeoutSeconds || 10
+      });
+      
+      // One request per utterance, so every segment is placed on the capture timeline
+      const segments: TranscriptionSegment[] = [];
+      for (const utterance of listened.utterances) {
+        const result = await this.speechServices.transcribe({
+          service,
+          language,
+          ...(args.languageCandidates ? { languageCandidates: args.languageCandidates } : {}),
+          audioData: [utterance]
+        });
+        segments.push(...placeSegments(result, utterance, 0));
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            text: joinSegments(segments),
+            segments,
+            service,
+            language,
+            endReason: listened.reason,
+            durationSeconds: listened.durationSeconds,
+            sessionId: listened.sessionId
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Failed to listen and transcribe', error);
+      throw error;
+    }
+  }
+  
+  private async handleListLanguages(args: z.infer<typeof ListLanguagesSchema>) {
+    try {
+      const support = this.speechServices.getLanguages(args.language);
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(support, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Failed to list languages', error);
+      throw error;
+    }
+  }
+  
   private async handleListAudioDevices(args: z.infer<typeof AudioDeviceSchema>) {
     try {
       const devices = await this.deviceManager.listDevices(args.includeProperties || false);
@@ -322,16 +973,131 @@ export class AudioMCPServer {
     }
   }
   
+  private async handleGetAudioLevels(args: z.infer<typeof CaptureSessionSchema>) {
+    try {
+      const report = this.getLevelReports(args.sessionId);
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(report, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Failed to get audio levels', error);
+      throw error;
+    }
+  }
+  
+  private async handleStartRecording(args: z.infer<typeof StartRecordingSchema>) {
+    try {
+      const recording = this.recordings.startRecording({
+        ...(args.sessionId ? { sessionId: args.sessionId } : {}),
+        ...(args.format ? { format: args.format } : {}),
+        ...(args.name ? { name: args.name } : {})
+      });
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `Recording ${recording.id} of session ${recording.sessionId} started: ${recording.file}`
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Failed to start recording', error);
+      throw error;
+    }
+  }
+  
+  private async handleStopRecording(args: z.infer<typeof CaptureSessionSchema>) {
+    try {
+      const recording = this.recordings.stopRecording(args.sessionId);
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(recording, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Failed to stop recording', error);
+      throw error;
+    }
+  }
+  
+  private async handleListRecordings() {
+    try {
+      const recordings = this.recordings.listRecordings();
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(recordings, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Failed to list recordings', error);
+      throw error;
+    }
+  }
+  
+  private async handleCalibrateMicrophone(args: z.infer<typeof CalibrateMicrophoneSchema>) {
+    try {
+      const audioConfig = this.config.getAudioConfig();
+      const config = {
+        deviceId: args.deviceId || audioConfig.deviceId || 'default',
+        sampleRate: audioConfig.sampleRate,
+        channels: audioConfig.channels,
+        bufferSizeMs: audioConfig.bufferSizeMs
+      };
+      
+      const result = await this.calibrator.calibrate(config, {
+        silenceSeconds: args.silenceSeconds || 3,
+        speechSeconds: args.speechSeconds || 5
+      });
+      
+      if (args.persist) {
+        this.config.saveDeviceProfile(config.deviceId, {
+          vad: result.recommended,
+          calibration: {
+            noiseFloorDb: result.noiseFloorDb,
+            speechLevelDb: result.speechLevelDb,
+            snrDb: result.snrDb,
+            calibratedAt: result.calibratedAt
+          }
+        });
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ ...result, persisted: args.persist || false }, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Failed to calibrate microphone', error);
+      throw error;
+    }
+  }
+  
   /**
    * Resource handlers
    */
-  private async handleGetAudioStream() {
-    const stream = await this.audioCapture.getAudioStream();
+  private async handleGetAudioStream(uri: string) {
+    const query = LiveStreamQuerySchema.parse(Object.fromEntries(new URL(uri).searchParams));
+    const seconds = Math.min(query.seconds ?? 5, this.config.getAudioConfig().historySeconds);
+    
+    const audio = this.audioCapture.getRecentAudio(seconds, query.session);
+    if (!audio) {
+      throw ErrorHandler.createCaptureError('No captured audio available');
+    }
+    
+    const wav = encodeWav(audio.data, { sampleRate: audio.sampleRate, channels: audio.channels });
     return {
       contents: [{
-        uri: 'audio://stream/live',
+        uri,
         mimeType: 'audio/wav',
-        text: 'Live audio stream available'
+        blob: wav.toString('base64')
       }]
     };
   }
@@ -347,6 +1113,31 @@ export class AudioMCPServer {
     };
   }
   
+  private async handleGetLiveTranscripts() {
+    return {
+      contents: [{
+        uri: 'audio://transcripts/live',
+        mimeType: 'application/json',
+        text: JSON.stringify(this.transcription.getContinuous(), null, 2)
+      }]
+    };
+  }
+  
+  private async handleGetServiceStatus() {
+    const speechConfig = this.config.getSpeechConfig();
+    return {
+      contents: [{
+        uri: 'audio://services',
+        mimeType: 'application/json',
+        text: JSON.stringify({
+          defaultService: this.speechServices.getDefaultService(),
+          fallback: speechConfig.fallback.order,
+          services: this.speechServices.getServiceStatus()
+        }, null, 2)
+      }]
+    };
+  }
+  
   private async handleGetDeviceList() {
     const devices = await this.deviceManager.listDevices(true);
     return {
@@ -358,6 +1149,154 @@ export class AudioMCPServer {
     };
   }
   
+  private async handleGetLevels() {
+    const report = this.getLevelReports();
+    return {
+      contents: [{
+        uri: 'audio://levels',
+        mimeType: 'application/json',
+        text: JSON.stringify(report, null, 2)
+      }]
+    };
+  }
+  
+  private async handleGetRecordingList() {
+    const recordings = this.recordings.listRecordings();
+    return {
+      contents: [{
+        uri: 'audio://recordings',
+        mimeType: 'application/json',
+        text: JSON.stringify(recordings, null, 2)
+      }]
+    };
+  }
+  
+  private async handleGetRecording(uri: string) {
+    const { info, data } = this.recordings.getRecording(uri.slice('audio://recordings/'.length));
+    return {
+      contents: [{
+        uri,
+        mimeType: info.mimeType,
+        blob: data.toString('base64')
+      }]
+    };
+  }
+  
+  /**
+   * Start the always-on capture that feeds transcribeRecent; the server still
+   * starts if the device is unavailable
+   */
+  private async startRollingBuffer(): Promise<void> {
+    const audioConfig = this.config.getAudioConfig();
+    
+    try {
+      const session = await this.audioCapture.startCapture({
+        deviceId: audioConfig.rollingBuffer.deviceId || audioConfig.deviceId || 'default',
+        sampleRate: audioConfig.sampleRate,
+        channels: audioConfig.channels,
+        bufferSizeMs: audioConfig.bufferSizeMs
+      });
+      
+      this.rollingBufferSessionId = session.id;
+      this.logger.info(`Rolling buffer keeping the last ${audioConfig.historySeconds}s in session ${session.id}`);
+    } catch (error) {
+      this.logger.warn('Failed to start the rolling buffer', error);
+    }
+  }
+  
+  /**
+   * JSON schema of a tool's service argument, generated from the available
+   * speech providers
+   */
+  private getServiceProperty(): { type: 'string'; enum?: string[]; description: string } {
+    const providers = this.speechServices.getProviders().filter(provider => provider.available);
+    const described = providers.map(provider => {
+      const features = [
+        provider.type,
+        ...(provider.capabilities.wordTimestamps ? ['word timestamps'] : []),
+        ...(provider.capabilities.streaming ? ['streaming'] : [])
+      ];
+      return `${provider.name} (${features.join(', ')})`;
+    });
+    
+    return {
+      type: 'string',
+      ...(providers.length > 0 ? { enum: providers.map(provider => provider.name) } : {}),
+      description: `Speech recognition service to use (default: ${this.speechServices.getDefaultService()})` +
+        (described.length > 0 ? `; available: ${described.join('; ')}` : '')
+    };
+  }
+  
+  /**
+   * The language arguments of the transcription tools
+   */
+  private getLanguageProperties(): Record<string, object> {
+    const speech = this.config.getSpeechConfig();
+    const candidates = speech.languageDetection.candidates;
+    
+    return {
+      language: {
+        type: 'string',
+        description: `Language code (e.g., en-US, es-ES), or 'auto' to identify the language of each utterance ` +
+          `(default: ${speech.defaultLanguage})`
+      },
+      languageCandidates: {
+        type: 'array',
+        items: { type: 'string' },
+        description: `Languages 'auto' may identify, e.g. ["en-US", "es-ES"]; required by some services` +
+          (candidates.length > 0 ? ` (default: ${candidates.join(', ')})` : '')
+      }
+    };
+  }
+  
+  /**
+   * ID of the rolling buffer session while it is running
+   */
+  private getRollingBufferSessionId(): string | undefined {
+    const sessionId = this.rollingBufferSessionId;
+    return sessionId && this.audioCapture.getSession(sessionId) ? sessionId : undefined;
+  }
+  
+  /**
+   * Level report of one session, or of every active session when none is
+   * specified and several are running
+   */
+  private getLevelReports(sessionId?: string): AudioLevelReport | AudioLevelReport[] {
+    const sessions = this.audioCapture.getSessions();
+    
+    if (sessionId === undefined && sessions.length > 1) {
+      return sessions.map(session => session.getAudioLevels());
+    }
+    
+    return this.audioCapture.getAudioLevels(sessionId);
+  }
+  
+  /**
+   * Send the interim and final results of streaming transcription to the
+   * client as notifications, keyed by capture session
+   */
+  private forwardStreamingTranscripts(): void {
+    const forward = (method: string) => (event: StreamingTranscriptEvent) => {
+      const { streamId, result, ...hypothesis } = event;
+      
+      this.server.notification({
+        method,
+        params: {
+          sessionId: streamId,
+          ...hypothesis,
+          ...(result?.provider ? { provider: result.provider } : {}),
+          ...(result?.fallbackFrom ? { fallbackFrom: result.fallbackFrom } : {})
+        }
+      }).catch((error) => {
+        // Not connected (yet), or the client went away
+        this.logger.debug(`Failed to send ${method}`, error);
+      });
+    };
+    
+    this.speechServices.on('partialTranscript', forward('notifications/transcription/partial'));
+    this.speechServices.on('finalTranscript', forward('notifications/transcription/final'));
+  }
+  
   /**
    * Cleanup resources
    */
@@ -365,6 +1304,8 @@ export class AudioMCPServer {
     try {
       this.logger.info('Cleaning up Audio MCP Server');
       
+      await this.recordings.cleanup();
+      await this.transcription.cleanup();
       await this.audioCapture.cleanup();
       await this.speechServices.cleanup();
       await this.deviceManager.cleanup();
@@ -0,0 +1,335 @@
+/**
+ * Transcription Orchestrator
+ * 
+ * Routes capture output into the speech pipeline: utterances detected by any
+ * capture session are fed to the SpeechServiceManager's buffer, and sessions
+ * with continuous transcription have each utterance transcribed as it is
+ * detected, building up a transcript placed on the capture timeline until
+ * transcription or the capture is stopped. With partial results, the audio
+ * of each utterance is also streamed to the provider while it is spoken.
+ */
+
+import { EventEmitter } from 'events';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { AudioCaptureManager, AudioChunk } from '../audio-module/audio-capture-manager.js';
+import { Utterance } from '../audio-module/utterance-segmenter.js';
+import {
+  SpeechServiceManager,
+  TranscriptionRequest,
+  TranscriptionResult,
+  TranscriptionSegment
+} from '../speech-recognition/speech-service-manager.js';
+import { StreamingSession } from '../speech-recognition/speech-provider-registry.js';
+
+export interface ContinuousTranscription {
+  sessionId: string;
+  service: TranscriptionRequest['service'];
+  language: string;
+  languageCandidates?: string[];
+  partialResults: boolean;
+  startedAt: string;
+  stoppedAt?: string;
+  status: 'running' | 'stopped';
+  text: string;
+  segments: TranscriptionSegment[];
+  utterances: number;
+  failedUtterances: number;
+}
+
+interface ContinuousJob {
+  info: ContinuousTranscription;
+  // Utterances are transcribed one at a time, in capture order
+  queue: Promise<void>;
+  // Streaming session for partial results, and how far the utterance in
+  // progress has been pushed to it (null between utterances)
+  stream?: StreamingSession;
+  pushedUntil: number | null;
+}
+
+export class TranscriptionOrchestrator extends EventEmitter {
+  private logger: Logger;
+  private audioCapture: AudioCaptureManager;
+  private speechServices: SpeechServiceManager;
+  // Continuous transcriptions keyed by capture session ID; stopped ones are
+  // kept until read back or replaced
+  private jobs: Map<string, ContinuousJob> = new Map();
+  
+  constructor(audioCapture: AudioCaptureManager, speechServices: SpeechServiceManager) {
+    super();
+    this.logger = Logger.getInstance();
+    this.audioCapture = audioCapture;
+    this.speechServices = speechServices;
+    
+    this.audioCapture.on('utterance', (utterance: Utterance, sessionId: string) => this.onUtterance(utterance, sessionId));
+    this.audioCapture.on('utteranceStarted', (chunk: AudioChunk, sessionId: string) => this.onUtteranceStarted(chunk, sessionId));
+    this.audioCapture.on('audioChunk', (chunk: AudioChunk, sessionId: string) => this.onAudioChunk(chunk, sessionId));
+    
+    // Continuous transcription never outlives its capture
+    this.audioCapture.on('captureStopped', (sessionId: string) => {
+      if (this.jobs.get(sessionId)?.info.status === 'running') {
+        this.stopContinuous(sessionId).catch((error) => {
+          this.logger.error(`Failed to stop continuous transcription of session ${sessionId}`, error);
+        });
+      }
+    });
+  }
+  
+  /**
+   * Transcribe every utterance of a capture session (the only active one by
+   * default) as it is detected, with interim results while it is spoken if
+   * partialResults is set
+   */
+  async startContinuous(options: {
+    sessionId?: string;
+    service: TranscriptionRequest['service'];
+    language: string;
+    languageCandidates?: string[];
+    partialResults?: boolean;
+  }): Promise<ContinuousTranscription> {
+    const session = this.audioCapture.resolveSession(options.sessionId);
+    if (!session?.isActive()) {
+      throw ErrorHandler.createCaptureError('No active audio capture to transcribe');
+    }
+    
+    if (this.jobs.get(session.id)?.info.status === 'running') {
+      throw ErrorHandler.createSpeechServiceError(`Continuous transcription already running for session ${session.id}`);
+    }
+    
+    if (!this.speechServices.getAvailableServices().includes(options.service)) {
+      throw ErrorHandler.createSpeechServiceError(`Service ${options.service} is not available`);
+    }
+    
+    const partialResults = options.partialResults ?? false;
+    const info: ContinuousTranscription = {
+      sessionId: session.id,
+      service: options.service,
+      language: options.language,
+      ...(options.languageCandidates ? { languageCandidates: options.languageCandidates } : {}),
+      partialResults,
+      startedAt: new Date().toISOString(),
+      status: 'running',
+      text: '',
+      segments: [],
+      utterances: 0,
+      failedUtterances: 0
+    };
+    const stream = partialResults
+      ? this.speechServices.openStream({
+        streamId: session.id,
+        service: options.service,
+        language: options.language,
+        ...(options.languageCandidates ? { languageCandidates: options.languageCandidates } : {})
+      })
+      : undefined;
+    this.jobs.set(session.id, { info, queue: Promise.resolve(), ...(stream ? { stream } : {}), pushedUntil: null });
+    
+    if (!this.isAnyRunning(session.id)) {
+      await this.speechServices.startContinuousTranscription(options.service, options.language);
+    }
+    
+    this.logger.info(`Continuous transcription of session ${session.id} started`, {
+      service: options.service,
+      language: options.language
+    });
+    
+    return { ...info };
+  }
+  
+  /**
+   * Stop continuous transcription of a session (the only running one by
+   * default) once its queued utterances are transcribed, returning the
+   * transcript
+   */
+  async stopContinuous(sessionId?: string): Promise<ContinuousTranscription> {
+    const id = sessionId ?? this.getOnlyRunningSession();
+    const job = id ? this.jobs.get(id) : undefined;
+    if (!job) {
+      throw ErrorHandler.createSpeechServiceError(
+        sessionId ? `No continuous transcription for session ${sessionId}` : 'No continuous transcription in progress'
+      );
+    }
+    
+    if (job.info.status === 'running') {
+      job.info.status = 'stopped';
+      job.info.stoppedAt = new Date().toISOString();
+      
+      if (!this.isAnyRunning()) {
+        await this.speechServices.stopContinuousTranscription();
+      }
+      
+      this.logger.info(`Continuous transcription of session ${job.info.sessionId} stopped`, {
+        utterances: job.info.utterances
+      });
+    }
+    
+    await job.queue;
+    
+    if (job.stream) {
+      await job.stream.close();
+      delete job.stream;
+    }
+    
+    return this.copy(job.info);
+  }
+  
+  /**
+   * Continuous transcriptions, running and stopped
+   */
+  getContinuous(): ContinuousTranscription[] {
+    return Array.from(this.jobs.values()).map(job => this.copy(job.info));
+  }
+  
+  async cleanup(): Promise<void> {
+    for (const job of this.jobs.values()) {
+      if (job.info.status === 'running') {
+        await this.stopContinuous(job.info.sessionId);
+      }
+    }
+    
+    this.jobs.clear();
+    this.removeAllListeners();
+  }
+  
+  private onUtterance(utterance: Utterance, sessionId: string): void {
+    this.speechServices.addAudioChunk(utterance);
+    
+    const job = this.jobs.get(sessionId);
+    if (!job || job.info.status !== 'running') {
+      return;
+    }
+    
+    job.info.utterances++;
+    job.pushedUntil = null;
+    
+    // The stream is told right away so the next utterance's audio isn't
+    // mixed in; its final result is placed in turn
+    const final = job.stream?.endUtterance(utterance);
+    final?.catch(() => undefined);
+    job.queue = job.queue.then(() => this.transcribeUtterance(job.info, utterance, final));
+  }
+  
+  private onUtteranceStarted(chunk: AudioChunk, sessionId: string): void {
+    const job = this.jobs.get(sessionId);
+    if (!job?.stream || job.info.status !== 'running') {
+      return;
+    }
+    
+    job.stream.push(chunk);
+    job.pushedUntil = chunk.startSample + chunk.data.length / chunk.channels;
+  }
+  
+  /**
+   * Push the part of a block of captured audio that belongs to the
+   * utterance in progress
+   */
+  private onAudioChunk(chunk: AudioChunk, sessionId: string): void {
+    const job = this.jobs.get(sessionId);
+    if (!job?.stream || job.pushedUntil === null || job.info.status !== 'running') {
+      return;
+    }
+    
+    const frames = chunk.data.length / chunk.channels;
+    const skip = Math.max(0, job.pushedUntil - chunk.startSample);
+    if (skip >= frames) {
+      return;
+    }
+    
+    job.stream.push({
+      ...chunk,
+      data: chunk.data.subarray(skip * chunk.channels),
+      startSample: chunk.startSample + skip,
+      timestamp: chunk.timestamp + (skip * 1000) / chunk.sampleRate,
+      duration: ((frames - skip) * 1000) / chunk.sampleRate
+    });
+    job.pushedUntil = chunk.startSample + frames;
+  }
+  
+  private async transcribeUtterance(
+    info: ContinuousTranscription,
+    utterance: Utterance,
+    final?: Promise<TranscriptionResult>
+  ): Promise<void> {
+    try {
+      const result = await (final ?? this.speechServices.transcribe({
+        service: info.service,
+        language: info.language,
+        ...(info.languageCandidates ? { languageCandidates: info.languageCandidates } : {}),
+        continuous: true,
+        audioData: [utterance]
+      }));
+      
+      const segments = placeSegments(result, utterance, 0);
+      info.segments.push(...segments);
+      info.text = joinSegments(info.segments);
+      
+      this.emit('transcript', { sessionId: info.sessionId, utteranceId: utterance.id, segments });
+    } catch (error) {
+      info.failedUtterances++;
+      this.logger.error(`Failed to transcribe utterance ${utterance.id} of session ${info.sessionId}`, error);
+      this.emit('transcriptError', { sessionId: info.sessionId, utteranceId: utterance.id, error });
+    }
+  }
+  
+  private isAnyRunning(exceptSessionId?: string): boolean {
+    return Array.from(this.jobs.values()).some(job =>
+      job.info.status === 'running' && job.info.sessionId !== exceptSessionId
+    );
+  }
+  
+  private getOnlyRunningSession(): string | undefined {
+    const running = Array.from(this.jobs.values()).filter(job => job.info.status === 'running');
+    
+    if (running.length > 1) {
+      throw ErrorHandler.createSpeechServiceError('Several continuous transcriptions are running, specify a sessionId', {
+        sessions: running.map(job => job.info.sessionId)
+      });
+    }
+    
+    return running[0]?.info.sessionId;
+  }
+  
+  private copy(info: ContinuousTranscription): ContinuousTranscription {
+    return { ...info, segments: info.segments.map(segment => ({ ...segment })) };
+  }
+}
+
+/**
+ * Place the segments of a transcription of captured audio on the capture
+ * timeline, with start and end in seconds from the frame at originSample.
+ * A result without segments becomes one segment spanning the audio.
+ */
+export function placeSegments(
+  result: TranscriptionResult,
+  audio: AudioChunk,
+  originSample: number,
+  toWallClock = (sample: number) => audio.timestamp + ((sample - audio.startSample) * 1000) / audio.sampleRate
+): TranscriptionSegment[] {
+  const segments = result.segments && result.segments.length > 0
+    ? result.segments
+    : [{ text: result.text, start: 0, end: audio.duration / 1000, confidence: result.confidence }];
+  const offset = (audio.startSample - originSample) / audio.sampleRate;
+  
+  return segments.map(segment => {
+    const startSample = audio.startSample + Math.round(segment.start * audio.sampleRate);
+    
+    return {
+      ...segment,
+      start: offset + segment.start,
+      end: offset + segment.end,
+      startSample,
+      endSample: audio.startSample + Math.round(segment.end * audio.sampleRate),
+      wallClock: new Date(toWallClock(startSample)).toISOString(),
+      ...(segment.words
+        ? { words: segment.words.map(word => ({ ...word, start: offset + word.start, end: offset + word.end })) }
+        : {})
+    };
+  });
+}
+
+/**
+ * Text of consecutive segments, skipping empty ones
+ */
+export function joinSegments(segments: TranscriptionSegment[]): string {
+  return segments.map(segment => segment.text.trim()).filter(text => text.length > 0).join(' ');
+}
@@ -0,0 +1,297 @@
+/**
+ * Azure Speech Client
+ * 
+ * REST client for Azure Speech recognition. Audio of up to 60 seconds goes
+ * to the short-audio endpoint with detailed output (NBest alternatives with
+ * confidence, lexical and display forms, word timings); longer audio goes to
+ * the fast transcription endpoint, which returns timed phrases. Language
+ * identification among candidate locales is only offered by fast
+ * transcription, which therefore takes all 'auto' requests. Both hosts
+ * derive from the region unless an endpoint is configured, e.g. a local
+ * stand-in server for testing.
+ */
+
+import { ErrorHandler } from '../utils/error-handler.js';
+import { StreamFormat } from '../audio-module/format-converter.js';
+import { encodeWav } from '../audio-module/wav-format.js';
+import {
+  TranscriptionAlternative,
+  TranscriptionResult,
+  TranscriptionSegment,
+  TranscriptionWord
+} from './speech-service-manager.js';
+import { AUTO_LANGUAGE, dominantLanguage } from './speech-provider-registry.js';
+import { averageConfidence, readErrorMessage } from './speech-client-helpers.js';
+
+// Longest audio the short-audio endpoint accepts
+const SHORT_AUDIO_MAX_SECONDS = 60;
+const FAST_TRANSCRIPTION_API_VERSION = '2024-11-15';
+// Azure reports offsets and durations in 100 ns ticks
+const TICKS_PER_SECOND = 10_000_000;
+
+// Locales Azure speech-to-text recognizes
+export const AZURE_SPEECH_LOCALES = [
+  'af-ZA', 'am-ET', 'ar-AE', 'ar-BH', 'ar-DZ', 'ar-EG', 'ar-IL', 'ar-IQ', 'ar-JO', 'ar-KW',
+  'ar-LB', 'ar-LY', 'ar-MA', 'ar-OM', 'ar-PS', 'ar-QA', 'ar-SA', 'ar-SY', 'ar-TN', 'ar-YE',
+  'az-AZ', 'bg-BG', 'bn-IN', 'bs-BA', 'ca-ES', 'cs-CZ', 'cy-GB', 'da-DK', 'de-AT', 'de-CH',
+  'de-DE', 'el-GR', 'en-AU', 'en-CA', 'en-GB', 'en-GH', 'en-HK', 'en-IE', 'en-IN', 'en-KE',
+  'en-NG', 'en-NZ', 'en-PH', 'en-SG', 'en-TZ', 'en-US', 'en-ZA', 'es-AR', 'es-BO', 'es-CL',
+  'es-CO', 'es-CR', 'es-CU', 'es-DO', 'es-EC', 'es-ES', 'es-GQ', 'es-GT', 'es-HN', 'es-MX',
+  'es-NI', 'es-PA', 'es-PE', 'es-PR', 'es-PY', 'es-SV', 'es-US', 'es-UY', 'es-VE', 'et-EE',
+  'eu-ES', 'fa-IR', 'fi-FI', 'fil-PH', 'fr-BE', 'fr-CA', 'fr-CH', 'fr-FR', 'ga-IE', 'gl-ES',
+  'gu-IN', 'he-IL', 'hi-IN', 'hr-HR', 'hu-HU', 'hy-AM', 'id-ID', 'is-IS', 'it-CH', 'it-IT',
+  'ja-JP', 'jv-ID', 'ka-GE', 'kk-KZ', 'km-KH', 'kn-IN', 'ko-KR', 'lo-LA', 'lt-LT', 'lv-LV',
+  'mk-MK', 'ml-IN', 'mn-MN', 'mr-IN', 'ms-MY', 'mt-MT', 'my-MM', 'nb-NO', 'ne-NP', 'nl-BE',
+  'nl-NL', 'pa-IN', 'pl-PL', 'ps-AF', 'pt-BR', 'pt-PT', 'ro-RO', 'ru-RU', 'si-LK', 'sk-SK',
+  'sl-SI', 'so-SO', 'sq-AL', 'sr-RS', 'sv-SE', 'sw-KE', 'sw-TZ', 'ta-IN', 'te-IN', 'th-TH',
+  'tr-TR', 'uk-UA', 'ur-IN', 'uz-UZ', 'vi-VN', 'wuu-CN', 'yue-CN', 'zh-CN', 'zh-CN-shandong',
+  'zh-CN-sichuan', 'zh-HK', 'zh-TW', 'zu-ZA'
+];
+
+export interface AzureSpeechOptions {
+  subscriptionKey: string;
+  region?: string;
+  // Replaces both regional hosts
+  endpoint?: string;
+  mode: 'auto' | 'short' | 'fast';
+  profanity: 'masked' | 'removed' | 'raw';
+  timeoutMs: number;
+}
+
+interface DetailedWord {
+  Word: string;
+  Offset: number;
+  Duration: number;
+  Confidence?: number;
+}
+
+interface DetailedAlternative {
+  Confidence: number;
+  Lexical: string;
+  ITN?: string;
+  MaskedITN?: string;
+  Display: string;
+  Words?: DetailedWord[];
+}
+
+interface ShortAudioResponse {
+  RecognitionStatus: string;
+  Offset?: number;
+  Duration?: number;
+  DisplayText?: string;
+  NBest?: DetailedAlternative[];
+}
+
+interface FastTranscriptionResponse {
+  durationMilliseconds?: number;
+  combinedPhrases?: Array<{ text: string }>;
+  phrases?: Array<{
+    offsetMilliseconds: number;
+    durationMilliseconds: number;
+    text: string;
+    confidence?: number;
+    // Identified locale, when several were given
+    locale?: string;
+    words?: Array<{ text: string; offsetMilliseconds: number; durationMilliseconds: number }>;
+  }>;
+}
+
+export class AzureSpeechClient {
+  private options: AzureSpeechOptions;
+  
+  constructor(options: AzureSpeechOptions) {
+    this.options = options;
+  }
+  
+  /**
+   * Transcribe interleaved Float32 samples in a BCP-47 language such as
+   * en-US, or with 'auto' in whichever of the candidate locales is spoken
+   */
+  async transcribe(
+    audio: Float32Array,
+    format: StreamFormat,
+    language: string,
+    candidates: string[] = []
+  ): Promise<TranscriptionResult> {
+    const seconds = audio.length / format.channels / format.sampleRate;
+    const wav = encodeWav(audio, format);
+    
+    if (language === AUTO_LANGUAGE) {
+      if (candidates.length === 0) {
+        throw ErrorHandler.createSpeechServiceError('Azure Speech needs candidate locales to identify the language');
+      }
+      return this.transcribeFast(wav, candidates, true);
+    }
+    
+    const useFast = this.options.mode === 'fast' ||
+      (this.options.mode === 'auto' && seconds > SHORT_AUDIO_MAX_SECONDS);
+      
+    return useFast
+      ? this.transcribeFast(wav, [language], false)
+      : this.transcribeShort(wav, format, language);
+  }
+  
+  private async transcribeShort(wav: Buffer, format: StreamFormat, language: string): Promise<TranscriptionResult> {
+    const url = this.getUrl('stt.speech', '/speech/recognition/conversation/cognitiveservices/v1');
+    url.searchParams.set('language', language);
+    url.searchParams.set('format', 'detailed');
+    url.searchParams.set('profanity', this.options.profanity);
+    url.searchParams.set('wordLevelTimestamps', 'true');
+    
+    const response = await this.request(url, {
+      'Content-Type': `audio/wav; codecs=audio/pcm; samplerate=${format.sampleRate}`
+    }, new Uint8Array(wav));
+    const body = await response.json() as ShortAudioResponse;
+    
+    // No speech in the audio is an empty result, not a failure
+    if (['NoMatch', 'InitialSilenceTimeout', 'BabbleTimeout'].includes(body.RecognitionStatus)) {
+      return this.result('', 0, language, []);
+    }
+    
+    if (body.RecognitionStatus !== 'Success') {
+      throw ErrorHandler.createSpeechServiceError(`Azure Speech recognition failed: ${body.RecognitionStatus}`, {
+        status: body.RecognitionStatus
+      });
+    }
+    
+    const nBest = body.NBest ?? [];
+    const best = nBest[0];
+    if (!best) {
+      return this.result(body.DisplayText ?? '', 1, language, []);
+    }
+    
+    const start = (body.Offset ?? 0) / TICKS_PER_SECOND;
+    const segment: TranscriptionSegment = {
+      text: best.Display,
+      start,
+      end: start + (body.Duration ?? 0) / TICKS_PER_SECOND,
+      confidence: best.Confidence,
+      lexical: best.Lexical,
+      ...(best.Words ? { words: best.Words.map(toWord) } : {})
+    };
+    
+    const alternatives: TranscriptionAlternative[] = nBest.map(alternative => ({
+      text: alternative.Display,
+      lexical: alternative.Lexical,
+      confidence: alternative.Confidence
+    }));
+    
+    return {
+      ...this.result(best.Display, best.Confidence, language, [segment]),
+      lexical: best.Lexical,
+      alternatives
+    };
+  }
+  
+  /**
+   * Fast transcription; when identifying the language, each phrase is tagged
+   * with the locale identified for it
+   */
+  private async transcribeFast(wav: Buffer, locales: string[], identify: boolean): Promise<TranscriptionResult> {
+    const url = this.getUrl('api.cognitive', '/speechtotext/transcriptions:transcribe');
+    url.searchParams.set('api-version', FAST_TRANSCRIPTION_API_VERSION);
+    
+    const form = new FormData();
+    form.append('audio', new Blob([new Uint8Array(wav)], { type: 'audio/wav' }), 'audio.wav');
+    form.append('definition', JSON.stringify({
+      locales,
+      profanityFilterMode: { masked: 'Masked', removed: 'Removed', raw: 'None' }[this.options.profanity]
+    }));
+    
+    const response = await this.request(url, {}, form);
+    const body = await response.json() as FastTranscriptionResponse;
+    
+    const segments: TranscriptionSegment[] = (body.phrases ?? []).map(phrase => ({
+      text: phrase.text,
+      start: phrase.offsetMilliseconds / 1000,
+      end: (phrase.offsetMilliseconds + phrase.durationMilliseconds) / 1000,
+      confidence: phrase.confidence ?? 1,
+      ...(identify ? { language: phrase.locale ?? locales[0] } : {}),
+      ...(phrase.words
+        ? {
+          words: phrase.words.map(word => ({
+            text: word.text,
+            start: word.offsetMilliseconds / 1000,
+            end: (word.offsetMilliseconds + word.durationMilliseconds) / 1000
+          }))
+        }
+        : {})
+    }));
+    
+    const text = body.combinedPhrases?.map(phrase => phrase.text).join(' ') ??
+      segments.map(segment => segment.text).join(' ');
+    const confidence = averageConfidence(segments.map(segment => segment.confidence), 0);
+    
+    return this.result(text, confidence, dominantLanguage(segments) ?? locales[0], segments);
+  }
+  
+  private async request(url: URL, headers: Record<string, string>, body: BodyInit): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Ocp-Apim-Subscription-Key': this.options.subscriptionKey,
+          Accept: 'application/json',
+          ...headers
+        },
+        body,
+        signal: AbortSignal.timeout(this.options.timeoutMs)
+      });
+    } catch (error) {
+      throw ErrorHandler.createNetworkError(`Azure Speech request to ${url.origin}${url.pathname} failed`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    
+    if (!response.ok) {
+      throw ErrorHandler.createSpeechServiceError(
+        `Azure Speech request to ${url.pathname} failed with status ${response.status}`,
+        { status: response.status, error: await readErrorMessage(response) }
+      );
+    }
+    
+    return response;
+  }
+  
+  /**
+   * URL of a path on the endpoint override, or on the regional host of one
+   * of the two services
+   */
+  private getUrl(service: 'stt.speech' | 'api.cognitive', path: string): URL {
+    if (this.options.endpoint) {
+      return new URL(`${this.options.endpoint.replace(/\/+$/, '')}${path}`);
+    }
+    
+    if (!this.options.region) {
+      throw ErrorHandler.createConfigError('Azure Speech needs a region or an endpoint');
+    }
+    
+    return new URL(`https://${this.options.region}.${service}.microsoft.com${path}`);
+  }
+  
+  private result(
+    text: string,
+    confidence: number,
+    language: string,
+    segments: TranscriptionSegment[]
+  ): TranscriptionResult {
+    return {
+      text,
+      confidence,
+      service: 'azure-speech',
+      timestamp: Date.now(),
+      language,
+      segments
+    };
+  }
+}
+
+function toWord(word: DetailedWord): TranscriptionWord {
+  return {
+    text: word.Word,
+    start: word.Offset / TICKS_PER_SECOND,
+    end: (word.Offset + word.Duration) / TICKS_PER_SECOND,
+    ...(word.Confidence !== undefined ? { confidence: word.Confidence } : {})
+  };
+}
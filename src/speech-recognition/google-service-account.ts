@@ -0,0 +1,172 @@
+/**
+ * Google Service Account Auth
+ * 
+ * OAuth access tokens for a Google service account, minted without the
+ * Google client libraries: a JWT assertion is signed locally with the
+ * account's RS256 private key and exchanged at the token endpoint
+ * (RFC 7523 JWT bearer grant). Tokens are cached until shortly before they
+ * expire.
+ */
+
+import { createSign } from 'crypto';
+import { readFile } from 'fs/promises';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { readErrorMessage } from './speech-client-helpers.js';
+
+export const DEFAULT_GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+export const CLOUD_PLATFORM_SCOPE = 'https://www.googleapis.com/auth/cloud-platform';
+
+// Lifetime requested for each assertion; Google accepts at most an hour
+const ASSERTION_LIFETIME_SECONDS = 3600;
+// Refresh this long before a token expires
+const EXPIRY_MARGIN_MS = 60000;
+
+export interface ServiceAccountKey {
+  type?: string;
+  project_id?: string;
+  private_key_id?: string;
+  private_key: string;
+  client_email: string;
+  token_uri?: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  expires_in?: number;
+  token_type?: string;
+}
+
+export class GoogleServiceAccountAuth {
+  private keyFilename: string;
+  // Overrides the key file's token_uri
+  private tokenUrl: string | undefined;
+  private scope: string;
+  private timeoutMs: number;
+  private key: ServiceAccountKey | null = null;
+  private token: { value: string; expiresAt: number } | null = null;
+  private pending: Promise<string> | null = null;
+  
+  constructor(options: { keyFilename: string; tokenUrl?: string; scope?: string; timeoutMs?: number }) {
+    this.keyFilename = options.keyFilename;
+    this.tokenUrl = options.tokenUrl;
+    this.scope = options.scope ?? CLOUD_PLATFORM_SCOPE;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+  }
+  
+  /**
+   * Read and check the service account key file
+   */
+  async loadKey(): Promise<ServiceAccountKey> {
+    if (this.key) {
+      return this.key;
+    }
+    
+    let parsed: ServiceAccountKey;
+    try {
+      parsed = JSON.parse(await readFile(this.keyFilename, 'utf8'));
+    } catch (error) {
+      throw ErrorHandler.createConfigError(`Failed to read Google service account key ${this.keyFilename}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    
+    if (!parsed?.client_email || !parsed?.private_key) {
+      throw ErrorHandler.createConfigError(
+        `${this.keyFilename} is not a service account key (client_email and private_key are required)`,
+        { type: parsed?.type }
+      );
+    }
+    
+    this.key = parsed;
+    return parsed;
+  }
+  
+  /**
+   * A valid access token, minting a new one when the cached one is about
+   * to expire; concurrent callers share one token request
+   */
+  async getAccessToken(): Promise<string> {
+    if (this.token && Date.now() < this.token.expiresAt - EXPIRY_MARGIN_MS) {
+      return this.token.value;
+    }
+    
+    this.pending ??= this.fetchToken().finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+  
+  private async fetchToken(): Promise<string> {
+    const key = await this.loadKey();
+    const tokenUrl = this.tokenUrl ?? key.token_uri ?? DEFAULT_GOOGLE_TOKEN_URL;
+    const assertion = signJwt(key, this.scope, tokenUrl);
+    
+    let response: Response;
+    try {
+      response = await fetch(tokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+          assertion
+        }),
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+    } catch (error) {
+      throw ErrorHandler.createNetworkError(`Token request to ${tokenUrl} failed`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    
+    if (!response.ok) {
+      throw ErrorHandler.createSpeechServiceError(`Token request to ${tokenUrl} failed with status ${response.status}`, {
+        status: response.status,
+        error: await readErrorMessage(response)
+      });
+    }
+    
+    const body = await response.json() as TokenResponse;
+    if (!body?.access_token) {
+      throw ErrorHandler.createSpeechServiceError('Token response has no access_token', { tokenUrl });
+    }
+    
+    this.token = {
+      value: body.access_token,
+      expiresAt: Date.now() + (body.expires_in ?? ASSERTION_LIFETIME_SECONDS) * 1000
+    };
+    return body.access_token;
+  }
+}
+
+/**
+ * RS256-signed JWT asserting the service account's identity to the token
+ * endpoint
+ */
+export function signJwt(key: ServiceAccountKey, scope: string, audience: string, now = Date.now()): string {
+  const issuedAt = Math.floor(now / 1000);
+  const header = { alg: 'RS256', typ: 'JWT', ...(key.private_key_id ? { kid: key.private_key_id } : {}) };
+  const claims = {
+    iss: key.client_email,
+    scope,
+    aud: audience,
+    iat: issuedAt,
+    exp: issuedAt + ASSERTION_LIFETIME_SECONDS
+  };
+  
+  const unsigned = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`;
+  
+  let signature: string;
+  try {
+    signature = createSign('RSA-SHA256').update(unsigned).sign(key.private_key, 'base64url');
+  } catch (error) {
+    throw ErrorHandler.createConfigError('Failed to sign with the Google service account private key', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+  
+  return `${unsigned}.${signature}`;
+}
+
+function base64Url(text: string): string {
+  return Buffer.from(text).toString('base64url');
+}
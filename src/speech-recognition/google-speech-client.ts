@@ -0,0 +1,279 @@
+/**
+ * Google Speech Client
+ * 
+ * REST client for Google Cloud Speech-to-Text v1. Audio of up to 60 seconds
+ * is sent to `speech:recognize`; longer audio to `speech:longrunningrecognize`,
+ * whose operation is polled until done. Audio goes inline as base64
+ * LINEAR16, which limits long-running requests to about 5 minutes at 16 kHz.
+ * Each recognition result becomes a segment with word time offsets and
+ * confidences. With language 'auto' the first candidate is the primary
+ * language and up to three more are alternatives Google picks from per
+ * result. Requests carry an OAuth token from the service account.
+ */
+
+import { ErrorHandler } from '../utils/error-handler.js';
+import { StreamFormat, encodeSamples } from '../audio-module/format-converter.js';
+import { GoogleServiceAccountAuth } from './google-service-account.js';
+import { AUTO_LANGUAGE, dominantLanguage, findCandidate } from './speech-provider-registry.js';
+import { averageConfidence, readErrorMessage } from './speech-client-helpers.js';
+import {
+  TranscriptionAlternative,
+  TranscriptionResult,
+  TranscriptionSegment,
+  TranscriptionWord
+} from './speech-service-manager.js';
+
+export const DEFAULT_GOOGLE_SPEECH_ENDPOINT = 'https://speech.googleapis.com';
+
+// Longest audio speech:recognize accepts
+const SYNC_AUDIO_MAX_SECONDS = 60;
+// languageCode plus at most three alternativeLanguageCodes
+export const GOOGLE_MAX_LANGUAGE_CANDIDATES = 4;
+
+// Languages Speech-to-Text v1 recognizes, spelled as it takes them (some
+// predate current BCP-47, e.g. iw-IL for Hebrew and cmn-Hans-CN for Mandarin)
+export const GOOGLE_SPEECH_LANGUAGES = [
+  'af-ZA', 'am-ET', 'ar-AE', 'ar-BH', 'ar-DZ', 'ar-EG', 'ar-IL', 'ar-IQ', 'ar-JO', 'ar-KW',
+  'ar-LB', 'ar-MA', 'ar-MR', 'ar-OM', 'ar-PS', 'ar-QA', 'ar-SA', 'ar-SY', 'ar-TN', 'ar-YE',
+  'az-AZ', 'bg-BG', 'bn-BD', 'bn-IN', 'bs-BA', 'ca-ES', 'cmn-Hans-CN', 'cmn-Hans-HK', 'cmn-Hant-TW',
+  'cs-CZ', 'da-DK', 'de-AT', 'de-CH', 'de-DE', 'el-GR', 'en-AU', 'en-CA', 'en-GB', 'en-GH',
+  'en-HK', 'en-IE', 'en-IN', 'en-KE', 'en-NG', 'en-NZ', 'en-PH', 'en-PK', 'en-SG', 'en-TZ',
+  'en-US', 'en-ZA', 'es-AR', 'es-BO', 'es-CL', 'es-CO', 'es-CR', 'es-DO', 'es-EC', 'es-ES',
+  'es-GT', 'es-HN', 'es-MX', 'es-NI', 'es-PA', 'es-PE', 'es-PR', 'es-PY', 'es-SV', 'es-US',
+  'es-UY', 'es-VE', 'et-EE', 'eu-ES', 'fa-IR', 'fi-FI', 'fil-PH', 'fr-BE', 'fr-CA', 'fr-CH',
+  'fr-FR', 'gl-ES', 'gu-IN', 'hi-IN', 'hr-HR', 'hu-HU', 'hy-AM', 'id-ID', 'is-IS', 'it-CH',
+  'it-IT', 'iw-IL', 'ja-JP', 'jv-ID', 'ka-GE', 'kk-KZ', 'km-KH', 'kn-IN', 'ko-KR', 'lo-LA',
+  'lt-LT', 'lv-LV', 'mk-MK', 'ml-IN', 'mn-MN', 'mr-IN', 'ms-MY', 'my-MM', 'ne-NP', 'nl-BE',
+  'nl-NL', 'no-NO', 'pa-Guru-IN', 'pl-PL', 'pt-BR', 'pt-PT', 'ro-RO', 'ru-RU', 'rw-RW', 'si-LK',
+  'sk-SK', 'sl-SI', 'sq-AL', 'sr-RS', 'st-ZA', 'su-ID', 'sv-SE', 'sw-KE', 'sw-TZ', 'ta-IN',
+  'ta-LK', 'ta-MY', 'ta-SG', 'te-IN', 'th-TH', 'tr-TR', 'ts-ZA', 'uk-UA', 'ur-IN', 'ur-PK',
+  'uz-UZ', 'vi-VN', 'xh-ZA', 'yue-Hant-HK', 'zu-ZA'
+];
+
+export interface GoogleSpeechOptions {
+  auth: GoogleServiceAccountAuth;
+  endpoint: string;
+  mode: 'auto' | 'sync' | 'longrunning';
+  model?: string;
+  maxAlternatives: number;
+  profanityFilter: boolean;
+  // Per request; long-running operations are polled until this much time has passed
+  timeoutMs: number;
+  pollIntervalMs: number;
+}
+
+// Durations are JSON-encoded as "1.500s"
+type Duration = string | { seconds?: string | number; nanos?: number };
+
+interface RecognitionAlternative {
+  transcript?: string;
+  confidence?: number;
+  words?: Array<{ word: string; startTime?: Duration; endTime?: Duration; confidence?: number }>;
+}
+
+interface RecognizeResponse {
+  results?: Array<{
+    alternatives?: RecognitionAlternative[];
+    resultEndTime?: Duration;
+    languageCode?: string;
+  }>;
+}
+
+interface Operation {
+  name: string;
+  done?: boolean;
+  response?: RecognizeResponse;
+  error?: { code?: number; message?: string };
+}
+
+export class GoogleSpeechClient {
+  private options: GoogleSpeechOptions;
+  
+  constructor(options: GoogleSpeechOptions) {
+    this.options = options;
+  }
+  
+  /**
+   * Transcribe interleaved Float32 samples in a BCP-47 language such as
+   * en-US, or with 'auto' in whichever of the candidates is spoken
+   */
+  async transcribe(
+    audio: Float32Array,
+    format: StreamFormat,
+    language: string,
+    candidates: string[] = []
+  ): Promise<TranscriptionResult> {
+    const identify = language === AUTO_LANGUAGE;
+    if (identify && candidates.length === 0) {
+      throw ErrorHandler.createSpeechServiceError('Google Speech needs candidate languages to identify the language');
+    }
+    if (identify && candidates.length > GOOGLE_MAX_LANGUAGE_CANDIDATES) {
+      throw ErrorHandler.createLanguageError(
+        `Google Speech identifies the language among at most ${GOOGLE_MAX_LANGUAGE_CANDIDATES} candidates, ` +
+          `got ${candidates.length}`,
+        { candidates }
+      );
+    }
+    
+    const seconds = audio.length / format.channels / format.sampleRate;
+    const longRunning = this.options.mode === 'longrunning' ||
+      (this.options.mode === 'auto' && seconds > SYNC_AUDIO_MAX_SECONDS);
+      
+    const body = {
+      config: {
+        encoding: 'LINEAR16',
+        sampleRateHertz: format.sampleRate,
+        audioChannelCount: format.channels,
+        languageCode: identify ? candidates[0] : language,
+        ...(identify && candidates.length > 1
+          ? { alternativeLanguageCodes: candidates.slice(1) }
+          : {}),
+        maxAlternatives: this.options.maxAlternatives,
+        profanityFilter: this.options.profanityFilter,
+        enableWordTimeOffsets: true,
+        enableWordConfidence: true,
+        enableAutomaticPunctuation: true,
+        ...(this.options.model ? { model: this.options.model } : {})
+      },
+      audio: { content: encodeSamples(audio, 'PCM16').toString('base64') }
+    };
+    
+    const response = longRunning
+      ? await this.recognizeLongRunning(body)
+      : await this.request<RecognizeResponse>('POST', '/v1/speech:recognize', body);
+      
+    return toResult(response, language, identify ? candidates : undefined);
+  }
+  
+  private async recognizeLongRunning(body: object): Promise<RecognizeResponse> {
+    const deadline = Date.now() + this.options.timeoutMs;
+    let operation = await this.request<Operation>('POST', '/v1/speech:longrunningrecognize', body);
+    
+    while (!operation.done) {
+      if (Date.now() + this.options.pollIntervalMs > deadline) {
+        throw ErrorHandler.createSpeechServiceError(
+          `Google Speech operation ${operation.name} did not finish within ${this.options.timeoutMs}ms`,
+          { operation: operation.name }
+        );
+      }
+      
+      await new Promise(resolve => setTimeout(resolve, this.options.pollIntervalMs));
+      operation = await this.request<Operation>('GET', `/v1/operations/${encodeURIComponent(operation.name)}`);
+    }
+    
+    if (operation.error) {
+      throw ErrorHandler.createSpeechServiceError(
+        `Google Speech operation failed: ${operation.error.message ?? 'unknown error'}`,
+        { operation: operation.name, code: operation.error.code }
+      );
+    }
+    
+    return operation.response ?? {};
+  }
+  
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: object): Promise<T> {
+    const url = `${this.options.endpoint.replace(/\/+$/, '')}${path}`;
+    const token = await this.options.auth.getAccessToken();
+    
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...(body ? { 'Content-Type': 'application/json' } : {})
+        },
+        ...(body ? { body: JSON.stringify(body) } : {}),
+        signal: AbortSignal.timeout(this.options.timeoutMs)
+      });
+    } catch (error) {
+      throw ErrorHandler.createNetworkError(`Google Speech request to ${url} failed`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    
+    if (!response.ok) {
+      throw ErrorHandler.createSpeechServiceError(
+        `Google Speech request to ${path} failed with status ${response.status}`,
+        { status: response.status, error: await readErrorMessage(response) }
+      );
+    }
+    
+    return await response.json() as T;
+  }
+}
+
+/**
+ * One segment per recognition result, from its top alternative; the ranked
+ * alternatives are kept when the audio produced a single result. When
+ * identifying the language, segments are tagged with the candidate Google
+ * reported (in lower case) for their result.
+ */
+function toResult(response: RecognizeResponse, language: string, candidates?: string[]): TranscriptionResult {
+  const results = (response.results ?? []).filter(result => (result.alternatives?.length ?? 0) > 0);
+  const segments: TranscriptionSegment[] = [];
+  let previousEnd = 0;
+  
+  for (const result of results) {
+    const best = result.alternatives![0];
+    const words = (best.words ?? []).map(toWord);
+    const end = result.resultEndTime !== undefined
+      ? parseDuration(result.resultEndTime)
+      : words[words.length - 1]?.end ?? previousEnd;
+      
+    segments.push({
+      text: (best.transcript ?? '').trim(),
+      start: words[0]?.start ?? previousEnd,
+      end,
+      confidence: best.confidence ?? 0,
+      ...(words.length > 0 ? { words } : {}),
+      ...(candidates
+        ? { language: (result.languageCode && findCandidate(result.languageCode, candidates)) || result.languageCode || candidates[0] }
+        : {})
+    });
+    previousEnd = end;
+  }
+  
+  const alternatives: TranscriptionAlternative[] | undefined = results.length === 1
+    ? results[0].alternatives!.map(alternative => ({
+      text: (alternative.transcript ?? '').trim(),
+      confidence: alternative.confidence ?? 0
+    }))
+    : undefined;
+    
+  return {
+    text: segments.map(segment => segment.text).filter(text => text.length > 0).join(' '),
+    confidence: averageConfidence(segments.map(segment => segment.confidence), 0),
+    service: 'google-speech',
+    timestamp: Date.now(),
+    language: candidates
+      ? dominantLanguage(segments) ?? candidates[0]
+      : results[0]?.languageCode ?? language,
+    segments,
+    ...(alternatives ? { alternatives } : {})
+  };
+}
+
+function toWord(word: NonNullable<RecognitionAlternative['words']>[number]): TranscriptionWord {
+  return {
+    text: word.word,
+    start: parseDuration(word.startTime),
+    end: parseDuration(word.endTime),
+    ...(word.confidence !== undefined ? { confidence: word.confidence } : {})
+  };
+}
+
+/**
+ * Seconds of a protobuf Duration in its JSON ("1.5s") or object form
+ */
+export function parseDuration(duration: Duration | undefined): number {
+  if (duration === undefined) {
+    return 0;
+  }
+  
+  if (typeof duration === 'string') {
+    return parseFloat(duration.replace(/s$/, '')) || 0;
+  }
+  
+  return Number(duration.seconds ?? 0) + (duration.nanos ?? 0) / 1e9;
+}
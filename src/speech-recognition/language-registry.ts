@@ -0,0 +1,148 @@
+/**
+ * Language Registry
+ * 
+ * Validates the language codes of requests and maps them to the form each
+ * speech provider expects: Whisper takes a bare language ("es"), Azure and
+ * Google a locale from their own lists ("es-ES", "cmn-Hans-CN"). Codes are
+ * compared in canonical BCP-47 form, so legacy, underscored or lower-case
+ * codes ("iw-il", "en_US") find the same entries.
+ */
+
+import { ErrorHandler } from '../utils/error-handler.js';
+import { SpeechProviderCapabilities } from './speech-provider-registry.js';
+
+// Region a bare language gets when a provider only takes locales; other
+// languages get the provider's first locale for them
+const DEFAULT_REGIONS: Record<string, string> = {
+  ar: 'SA', de: 'DE', en: 'US', es: 'ES', fr: 'FR', it: 'IT', nl: 'NL',
+  pt: 'BR', sw: 'KE', ta: 'IN', ur: 'PK', zh: 'CN'
+};
+
+// Languages providers list under different codes
+const EQUIVALENT_LANGUAGES: Record<string, string> = { nb: 'no', fil: 'tl' };
+
+export interface LanguageTag {
+  // Canonical BCP-47 form, e.g. "es-MX"
+  code: string;
+  language: string;
+  script?: string;
+  region?: string;
+  // English name, e.g. "Mexican Spanish"
+  name: string;
+}
+
+// A language as a provider lists it
+interface ListedLanguage extends LanguageTag {
+  tag: string;
+  // Script the tag is written in, explicit or implied ("zh-TW" is Hant)
+  likelyScript?: string;
+}
+
+export class LanguageRegistry {
+  private names = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+  private listed: WeakMap<string[], ListedLanguage[]> = new WeakMap();
+  
+  /**
+   * Validate a language code and give its canonical form and name
+   */
+  parse(code: string): LanguageTag {
+    let locale: Intl.Locale | undefined;
+    try {
+      locale = new Intl.Locale(Intl.getCanonicalLocales(code.trim().replace(/_/g, '-'))[0]);
+    } catch {
+      locale = undefined;
+    }
+    
+    const name = locale ? this.names.of(locale.language) : undefined;
+    if (!locale || !name) {
+      throw ErrorHandler.createLanguageError(
+        `Invalid language code "${code}"; use a BCP-47 tag such as en-US or a language code such as en`
+      );
+    }
+    
+    const canonical = locale.toString();
+    return {
+      code: canonical,
+      language: locale.language,
+      ...(locale.script ? { script: locale.script } : {}),
+      ...(locale.region ? { region: locale.region } : {}),
+      // Dialects such as zh-CN-sichuan have no name of their own
+      name: this.names.of(canonical) ?? `${name} (${canonical})`
+    };
+  }
+  
+  /**
+   * The code a provider takes for a language. A language the provider
+   * doesn't list, or a region it doesn't have, is a language error naming
+   * what it has instead.
+   */
+  toProvider(code: string, provider: string, capabilities: SpeechProviderCapabilities): string {
+    const requested = this.parse(code);
+    
+    if (capabilities.languages === 'any') {
+      return capabilities.languageFormat === 'language' ? requested.language : requested.code;
+    }
+    
+    const language = EQUIVALENT_LANGUAGES[requested.language] ?? requested.language;
+    const matching = this.getListed(capabilities.languages)
+      .filter(entry => (EQUIVALENT_LANGUAGES[entry.language] ?? entry.language) === language);
+      
+    if (matching.length === 0) {
+      throw ErrorHandler.createLanguageError(`Service ${provider} does not support ${requested.name} (${code})`, {
+        service: provider,
+        language: requested.code
+      });
+    }
+    
+    if (capabilities.languageFormat === 'language') {
+      return matching[0].tag;
+    }
+    
+    // A requested script only matches locales written in it, and its
+    // default region is the script's ("zh-Hant" is zh-TW)
+    const inScript = requested.script
+      ? matching.filter(entry => entry.likelyScript === requested.script)
+      : matching;
+    const region = requested.region ??
+      (requested.script ? new Intl.Locale(requested.code).maximize().region : DEFAULT_REGIONS[requested.language]);
+    const match = inScript.find(entry => entry.code === requested.code) ??
+      (region ? inScript.find(entry => entry.region === region) : undefined) ??
+      (requested.region ? undefined : inScript[0]);
+      
+    if (!match) {
+      throw ErrorHandler.createLanguageError(
+        `Service ${provider} does not support ${requested.name} (${code}); it has ` +
+          matching.map(entry => entry.tag).join(', '),
+        { service: provider, language: requested.code, supported: matching.map(entry => entry.tag) }
+      );
+    }
+    
+    return match.tag;
+  }
+  
+  /**
+   * The languages a provider lists, with their names
+   */
+  describe(capabilities: SpeechProviderCapabilities): Array<{ code: string; name: string }> | 'any' {
+    if (capabilities.languages === 'any') {
+      return 'any';
+    }
+    
+    return this.getListed(capabilities.languages).map(entry => ({ code: entry.tag, name: entry.name }));
+  }
+  
+  private getListed(tags: string[]): ListedLanguage[] {
+    let listed = this.listed.get(tags);
+    
+    if (!listed) {
+      listed = tags.map(tag => {
+        const parsed = this.parse(tag);
+        const likelyScript = parsed.script ?? new Intl.Locale(parsed.code).maximize().script;
+        return { ...parsed, tag, ...(likelyScript ? { likelyScript } : {}) };
+      });
+      this.listed.set(tags, listed);
+    }
+    
+    return listed;
+  }
+}
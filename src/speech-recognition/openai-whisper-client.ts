@@ -0,0 +1,143 @@
+/**
+ * OpenAI Whisper Client
+ * 
+ * Client for the OpenAI audio transcription endpoint
+ * (`POST /v1/audio/transcriptions`). Audio is sent as a WAV file in a
+ * multipart form. The base URL is configurable, so the same client works
+ * against self-hosted OpenAI-compatible servers such as faster-whisper-server
+ * or LocalAI.
+ */
+
+import { ErrorHandler } from '../utils/error-handler.js';
+import { StreamFormat } from '../audio-module/format-converter.js';
+import { encodeWav } from '../audio-module/wav-format.js';
+import { TranscriptionResult, TranscriptionSegment } from './speech-service-manager.js';
+import { AUTO_LANGUAGE } from './speech-provider-registry.js';
+import { fromWhisperLanguage } from './whisper-languages.js';
+import { averageConfidence, readErrorMessage, roundConfidence } from './speech-client-helpers.js';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com';
+
+export interface OpenAIWhisperOptions {
+  // Optional for self-hosted servers that don't check it
+  apiKey?: string;
+  model: string;
+  // Server root, with or without the trailing /v1
+  baseUrl: string;
+  // verbose_json adds timed segments; plain json returns only the text
+  responseFormat: 'json' | 'verbose_json';
+  timeoutMs: number;
+}
+
+interface VerboseSegment {
+  text: string;
+  start: number;
+  end: number;
+  avg_logprob?: number;
+  no_speech_prob?: number;
+}
+
+interface TranscriptionResponse {
+  text: string;
+  language?: string;
+  duration?: number;
+  segments?: VerboseSegment[];
+}
+
+export class OpenAIWhisperClient {
+  private options: OpenAIWhisperOptions;
+  
+  constructor(options: OpenAIWhisperOptions) {
+    this.options = options;
+  }
+  
+  /**
+   * Transcribe interleaved Float32 samples; without a language (or with
+   * 'auto') the server detects it and every segment is tagged with it
+   */
+  async transcribe(audio: Float32Array, format: StreamFormat, language?: string): Promise<TranscriptionResult> {
+    const url = getTranscriptionsUrl(this.options.baseUrl);
+    const wav = encodeWav(audio, format);
+    
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(wav)], { type: 'audio/wav' }), 'audio.wav');
+    form.append('model', this.options.model);
+    form.append('response_format', this.options.responseFormat);
+    
+    const whisperLanguage = toWhisperLanguage(language);
+    if (whisperLanguage) {
+      form.append('language', whisperLanguage);
+    }
+    
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {},
+        body: form,
+        signal: AbortSignal.timeout(this.options.timeoutMs)
+      });
+    } catch (error) {
+      throw ErrorHandler.createNetworkError(`Transcription request to ${url} failed`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    
+    if (!response.ok) {
+      throw ErrorHandler.createSpeechServiceError(
+        `Transcription request to ${url} failed with status ${response.status}`,
+        { status: response.status, error: await readErrorMessage(response) }
+      );
+    }
+    
+    const body = await response.json() as TranscriptionResponse;
+    if (typeof body?.text !== 'string') {
+      throw ErrorHandler.createSpeechServiceError('Transcription response has no text', { url });
+    }
+    
+    // The OpenAI API names the detected language ("spanish"); compatible servers may give its code
+    const detected = !whisperLanguage && body.language ? fromWhisperLanguage(body.language) : undefined;
+    
+    const segments: TranscriptionSegment[] = (body.segments ?? []).map(segment => ({
+      text: segment.text.trim(),
+      start: segment.start,
+      end: segment.end,
+      confidence: segmentConfidence(segment),
+      ...(detected ? { language: detected } : {})
+    }));
+    
+    return {
+      text: body.text.trim(),
+      // The API reports confidence per segment only
+      confidence: averageConfidence(segments.map(segment => segment.confidence), 1),
+      service: 'whisper-api',
+      timestamp: Date.now(),
+      ...(detected ? { language: detected } : whisperLanguage ? { language: language! } : {}),
+      ...(segments.length > 0 ? { segments } : {})
+    };
+  }
+}
+
+/**
+ * Full transcription endpoint for a base URL given with or without /v1
+ */
+export function getTranscriptionsUrl(baseUrl: string): string {
+  const root = baseUrl.replace(/\/+$/, '');
+  return `${root}${root.endsWith('/v1') ? '' : '/v1'}/audio/transcriptions`;
+}
+
+/**
+ * Whisper takes ISO-639-1 codes, e.g. "en" for "en-US"; none means detect
+ */
+export function toWhisperLanguage(language?: string): string | undefined {
+  return language && language !== AUTO_LANGUAGE ? language.split(/[-_]/)[0].toLowerCase() : undefined;
+}
+
+function segmentConfidence(segment: VerboseSegment): number {
+  if (segment.avg_logprob === undefined) {
+    return 1;
+  }
+  
+  const confidence = Math.exp(segment.avg_logprob) * (1 - (segment.no_speech_prob ?? 0));
+  return roundConfidence(Math.min(1, Math.max(0, confidence)));
+}
@@ -0,0 +1,120 @@
+/**
+ * Provider Health
+ * 
+ * Per-provider request statistics and circuit breaker. After
+ * `failureThreshold` consecutive failures the circuit opens and the provider
+ * is skipped; once `cooldownMs` has passed one request is let through as a
+ * probe, which closes the circuit on success and reopens it on failure.
+ */
+
+import { AudioMCPError } from '../utils/error-handler.js';
+
+// Weight of the newest request in the average latency
+const LATENCY_SMOOTHING = 0.3;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderHealthStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  requests: number;
+  failures: number;
+  lastLatencyMs?: number;
+  averageLatencyMs?: number;
+  lastSuccessAt?: string;
+  lastError?: { message: string; code?: string; at: string };
+  // When an open circuit lets the next probe through
+  retryAt?: string;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export class ProviderHealth {
+  private options: CircuitBreakerOptions;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private requests = 0;
+  private failures = 0;
+  private lastLatencyMs: number | null = null;
+  private averageLatencyMs: number | null = null;
+  private lastSuccessAt: number | null = null;
+  private lastError: { message: string; code?: string; at: number } | null = null;
+  private openedAt = 0;
+  private probing = false;
+  
+  constructor(options: CircuitBreakerOptions) {
+    this.options = options;
+  }
+  
+  /**
+   * Whether a request may go to the provider now; moves an open circuit
+   * whose cooldown has passed to half-open and admits one probe
+   */
+  tryAcquire(now = Date.now()): boolean {
+    if (this.state === 'open' && now - this.openedAt >= this.options.cooldownMs) {
+      this.state = 'half-open';
+    }
+    
+    if (this.state === 'half-open') {
+      if (this.probing) {
+        return false;
+      }
+      this.probing = true;
+      return true;
+    }
+    
+    return this.state === 'closed';
+  }
+  
+  recordSuccess(latencyMs: number, now = Date.now()): void {
+    this.requests++;
+    this.recordLatency(latencyMs);
+    this.lastSuccessAt = now;
+    this.consecutiveFailures = 0;
+    this.state = 'closed';
+    this.probing = false;
+  }
+  
+  recordFailure(error: unknown, latencyMs: number, now = Date.now()): void {
+    this.requests++;
+    this.failures++;
+    this.consecutiveFailures++;
+    this.recordLatency(latencyMs);
+    this.lastError = {
+      message: error instanceof Error ? error.message : String(error),
+      ...(error instanceof AudioMCPError ? { code: error.code } : {}),
+      at: now
+    };
+    
+    // A failed probe reopens the circuit straight away
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+    this.probing = false;
+  }
+  
+  getStatus(): ProviderHealthStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      requests: this.requests,
+      failures: this.failures,
+      ...(this.lastLatencyMs !== null ? { lastLatencyMs: Math.round(this.lastLatencyMs) } : {}),
+      ...(this.averageLatencyMs !== null ? { averageLatencyMs: Math.round(this.averageLatencyMs) } : {}),
+      ...(this.lastSuccessAt !== null ? { lastSuccessAt: new Date(this.lastSuccessAt).toISOString() } : {}),
+      ...(this.lastError ? { lastError: { ...this.lastError, at: new Date(this.lastError.at).toISOString() } } : {}),
+      ...(this.state === 'open' ? { retryAt: new Date(this.openedAt + this.options.cooldownMs).toISOString() } : {})
+    };
+  }
+  
+  private recordLatency(latencyMs: number): void {
+    this.lastLatencyMs = latencyMs;
+    this.averageLatencyMs = this.averageLatencyMs === null
+      ? latencyMs
+      : this.averageLatencyMs + LATENCY_SMOOTHING * (latencyMs - this.averageLatencyMs);
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Re-decoding Stream
+ * 
+ * Streaming session for providers that only transcribe complete audio. The
+ * utterance in progress is transcribed again each time another `intervalMs`
+ * of it has arrived, giving interim hypotheses; their stability is the share
+ * of words the previous hypothesis already had. When the utterance ends, its
+ * segmented audio is transcribed once more for the final result.
+ */
+
+import { AudioChunk } from '../audio-module/audio-capture-manager.js';
+import { TranscriptionResult } from './speech-service-manager.js';
+import { StreamingHandlers, StreamingHypothesis, StreamingSession } from './speech-provider-registry.js';
+
+export interface ReDecodingOptions {
+  // New audio that triggers the next interim decode
+  intervalMs: number;
+  transcribeInterim(chunks: AudioChunk[]): Promise<TranscriptionResult>;
+  transcribeFinal(utterance: AudioChunk): Promise<TranscriptionResult>;
+}
+
+export class ReDecodingStream implements StreamingSession {
+  private options: ReDecodingOptions;
+  private handlers: StreamingHandlers;
+  private chunks: AudioChunk[] = [];
+  private bufferedMs = 0;
+  // Audio buffered when the last interim decode started
+  private decodedMs = 0;
+  private decoding = false;
+  // Bumped when an utterance ends, so late interim results are dropped
+  private generation = 0;
+  private previousWords: string[] = [];
+  // Final decodes run one at a time, in utterance order
+  private finals: Promise<unknown> = Promise.resolve();
+  private closed = false;
+  
+  constructor(options: ReDecodingOptions, handlers: StreamingHandlers) {
+    this.options = options;
+    this.handlers = handlers;
+  }
+  
+  push(chunk: AudioChunk): void {
+    if (this.closed) {
+      return;
+    }
+    
+    this.chunks.push(chunk);
+    this.bufferedMs += chunk.duration;
+    this.decodeIfDue();
+  }
+  
+  endUtterance(utterance: AudioChunk): Promise<TranscriptionResult> {
+    this.chunks = [];
+    this.bufferedMs = 0;
+    this.decodedMs = 0;
+    this.previousWords = [];
+    this.generation++;
+    
+    const final = this.finals.then(async () => {
+      const result = await this.options.transcribeFinal(utterance);
+      this.handlers.onHypothesis({
+        text: result.text,
+        isFinal: true,
+        stability: 1,
+        confidence: result.confidence,
+        startSample: utterance.startSample,
+        endSample: endSampleOf(utterance),
+        result
+      });
+      return result;
+    });
+    this.finals = final.catch(() => undefined);
+    
+    return final;
+  }
+  
+  async close(): Promise<void> {
+    this.closed = true;
+    this.generation++;
+    this.chunks = [];
+    await this.finals;
+  }
+  
+  private decodeIfDue(): void {
+    if (this.closed || this.decoding || this.chunks.length === 0 ||
+        this.bufferedMs - this.decodedMs < this.options.intervalMs) {
+      return;
+    }
+    
+    const generation = this.generation;
+    const chunks = [...this.chunks];
+    this.decoding = true;
+    this.decodedMs = this.bufferedMs;
+    
+    this.options.transcribeInterim(chunks)
+      .then((result) => {
+        if (generation === this.generation) {
+          this.handlers.onHypothesis(this.toInterim(result, chunks));
+        }
+      }, (error) => {
+        if (generation === this.generation) {
+          this.handlers.onError(error instanceof Error ? error : new Error(String(error)));
+        }
+      })
+      .finally(() => {
+        this.decoding = false;
+        // Audio that arrived meanwhile may already be due
+        this.decodeIfDue();
+      });
+  }
+  
+  private toInterim(result: TranscriptionResult, chunks: AudioChunk[]): StreamingHypothesis {
+    const words = result.text.split(/\s+/).filter(word => word.length > 0);
+    const agreed = commonPrefixLength(words.map(normalizeWord), this.previousWords);
+    this.previousWords = words.map(normalizeWord);
+    
+    return {
+      text: result.text,
+      isFinal: false,
+      stability: words.length > 0 ? Math.round((agreed / words.length) * 100) / 100 : 0,
+      confidence: result.confidence,
+      startSample: chunks[0].startSample,
+      endSample: endSampleOf(chunks[chunks.length - 1])
+    };
+  }
+}
+
+function endSampleOf(chunk: AudioChunk): number {
+  return chunk.startSample + chunk.data.length / chunk.channels;
+}
+
+// Interim texts differ in casing and punctuation as words are added
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+function commonPrefixLength(a: string[], b: string[]): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
@@ -0,0 +1,45 @@
+/**
+ * Speech Client Helpers
+ * 
+ * Pieces shared by the speech provider clients: reading the error a service
+ * sent back with a failed request, and rounding the confidences they report.
+ */
+
+// Longest error text kept from a failed response
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Round a confidence to three decimals
+ */
+export function roundConfidence(confidence: number): number {
+  return Math.round(confidence * 1000) / 1000;
+}
+
+/**
+ * Mean of segment (or token) confidences, rounded; `empty` when there are
+ * none, since services differ on what no segments means
+ */
+export function averageConfidence(confidences: number[], empty: number): number {
+  if (confidences.length === 0) {
+    return empty;
+  }
+  
+  return roundConfidence(confidences.reduce((sum, confidence) => sum + confidence, 0) / confidences.length);
+}
+
+/**
+ * Error message of a failed response: `error.message` of a JSON body, as
+ * Google and OpenAI-style APIs send it, or else the body's text
+ */
+export async function readErrorMessage(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  let message = text;
+  
+  try {
+    message = JSON.parse(text)?.error?.message ?? text;
+  } catch {
+    // Not JSON, so the text is the message
+  }
+  
+  return message.slice(0, MAX_ERROR_LENGTH);
+}
@@ -0,0 +1,224 @@
+/**
+ * Speech Provider Registry
+ * 
+ * Keeps track of the speech-to-text provider types (Whisper, Azure, Google,
+ * ...), each with the schema of its options and its capabilities, and turns
+ * the providers declared in config into named instances of them.
+ */
+
+import { z } from 'zod';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { Config, SpeechProviderConfig } from '../utils/config-manager.js';
+import { AudioChunk } from '../audio-module/audio-capture-manager.js';
+import { StreamFormat } from '../audio-module/format-converter.js';
+import { TranscriptionResult, TranscriptionSegment } from './speech-service-manager.js';
+
+// Requested language that asks the provider to identify it
+export const AUTO_LANGUAGE = 'auto';
+
+export interface SpeechProviderCapabilities {
+  // Results arrive while audio is still being sent (the provider implements openStream)
+  streaming: boolean;
+  // Segments carry per-word timings
+  wordTimestamps: boolean;
+  // Codes as the provider spells them, or 'any'
+  languages: string[] | 'any';
+  // Whether the provider takes bare languages ("es") or locales ("es-ES")
+  languageFormat: 'language' | 'locale';
+  // Language identification with language 'auto': among all languages, only
+  // among the request's candidates, or not at all
+  languageDetection: 'any' | 'candidates' | 'none';
+  // Most candidates identification can choose among, if limited
+  maxLanguageCandidates?: number;
+  // Whether segments of an identified language carry languageProbability
+  languageProbability: boolean;
+  // Accepted input formats, preferred first
+  formats: StreamFormat[];
+}
+
+/**
+ * Text recognized so far in a streaming session
+ */
+export interface StreamingHypothesis {
+  text: string;
+  // Interim hypotheses may still change; a final one is the utterance's result
+  isFinal: boolean;
+  // 0-1, how likely the text is to stay as it is; always 1 when final
+  stability: number;
+  confidence?: number;
+  // Audio the hypothesis covers, in sample frames on the capture timeline
+  startSample?: number;
+  endSample?: number;
+  // Full result of a final hypothesis
+  result?: TranscriptionResult;
+}
+
+export interface StreamingHandlers {
+  onHypothesis(hypothesis: StreamingHypothesis): void;
+  // An interim decode failed; the session carries on
+  onError(error: Error): void;
+}
+
+/**
+ * Streaming recognition of the utterances of one audio source. Utterance
+ * boundaries come from the capture's segmenter, so every provider ends
+ * utterances at the same points.
+ */
+export interface StreamingSession {
+  // Audio of the utterance in progress, in the provider's preferred format
+  push(chunk: AudioChunk): void;
+  // Close the utterance in progress, whose audio as segmented is given;
+  // resolves with its final result
+  endUtterance(utterance: AudioChunk): Promise<TranscriptionResult>;
+  // Wait for outstanding final results and release the session
+  close(): Promise<void>;
+}
+
+/**
+ * A configured speech provider instance
+ */
+export interface SpeechProvider {
+  initialize(): Promise<void>;
+  // With language 'auto', detection is restricted to the candidates if any
+  transcribe(audioChunks: AudioChunk[], language?: string, candidates?: string[]): Promise<TranscriptionResult>;
+  cleanup(): Promise<void>;
+  isAvailable(): boolean;
+  getPreferredFormat(): StreamFormat;
+  // Native streaming; providers without it are re-decoded (see ReDecodingStream)
+  openStream?(language: string | undefined, candidates: string[], handlers: StreamingHandlers): StreamingSession;
+}
+
+export interface SpeechProviderDescriptor<Schema extends z.ZodTypeAny = z.ZodTypeAny> {
+  type: string;
+  description: string;
+  optionsSchema: Schema;
+  capabilities: SpeechProviderCapabilities;
+  // Capabilities that depend on an instance's options (e.g. an English-only
+  // model), over the type's
+  optionCapabilities?(options: z.infer<Schema>): Partial<SpeechProviderCapabilities>;
+  create(name: string, options: z.infer<Schema>): SpeechProvider;
+  // Options taken from the top-level speech config, under which a provider
+  // named after the type exists when no provider list is configured
+  defaultOptions?(speech: Config['speech']): Record<string, unknown>;
+}
+
+export interface ResolvedSpeechProvider {
+  name: string;
+  type: string;
+  capabilities: SpeechProviderCapabilities;
+  provider: SpeechProvider;
+}
+
+export class SpeechProviderRegistry {
+  private descriptors: Map<string, SpeechProviderDescriptor> = new Map();
+  
+  /**
+   * Register a provider type
+   */
+  register<Schema extends z.ZodTypeAny>(descriptor: SpeechProviderDescriptor<Schema>): void {
+    if (this.descriptors.has(descriptor.type)) {
+      throw ErrorHandler.createConfigError(`Speech provider type ${descriptor.type} is already registered`);
+    }
+    
+    this.descriptors.set(descriptor.type, descriptor);
+  }
+  
+  /**
+   * Get a registered provider type
+   */
+  get(type: string): SpeechProviderDescriptor {
+    const descriptor = this.descriptors.get(type);
+    
+    if (!descriptor) {
+      throw ErrorHandler.createConfigError(
+        `Unknown speech provider type: ${type}`,
+        { available: this.getTypes() }
+      );
+    }
+    
+    return descriptor;
+  }
+  
+  /**
+   * Get the names of all registered provider types
+   */
+  getTypes(): string[] {
+    return Array.from(this.descriptors.keys());
+  }
+  
+  /**
+   * The providers declared in `speech.providers`, or one per type with
+   * default options when none are declared. Options of a type with default
+   * options are merged over them, so e.g. AZURE_SPEECH_KEY still applies
+   * to a declared azure provider.
+   */
+  getProviderConfigs(speech: Config['speech']): SpeechProviderConfig[] {
+    if (speech.providers) {
+      return speech.providers;
+    }
+    
+    return Array.from(this.descriptors.values())
+      .filter(descriptor => descriptor.defaultOptions)
+      .map(descriptor => ({ name: descriptor.type, type: descriptor.type, enabled: true, options: {} }));
+  }
+  
+  /**
+   * Validate a declared provider's options against its type's schema and
+   * create it
+   */
+  create(config: SpeechProviderConfig, speech: Config['speech']): ResolvedSpeechProvider {
+    const descriptor = this.get(config.type);
+    const parsed = descriptor.optionsSchema.safeParse({
+      ...descriptor.defaultOptions?.(speech),
+      ...config.options
+    });
+    
+    if (!parsed.success) {
+      throw ErrorHandler.createConfigError(`Invalid options for speech provider ${config.name}`, {
+        type: config.type,
+        issues: parsed.error.issues.map(issue => `${issue.path.join('.') || '(options)'}: ${issue.message}`)
+      });
+    }
+    
+    return {
+      name: config.name,
+      type: config.type,
+      capabilities: { ...descriptor.capabilities, ...descriptor.optionCapabilities?.(parsed.data) },
+      provider: descriptor.create(config.name, parsed.data)
+    };
+  }
+}
+
+/**
+ * The candidate a detected language belongs to: an exact match ignoring
+ * case, else the first with the same primary subtag, so "es" and "es-es"
+ * both find "es-ES"
+ */
+export function findCandidate(language: string, candidates: string[]): string | undefined {
+  const requested = language.toLowerCase();
+  const primary = requested.split(/[-_]/)[0];
+  
+  return candidates.find(candidate => candidate.toLowerCase() === requested) ??
+    candidates.find(candidate => candidate.split(/[-_]/)[0].toLowerCase() === primary);
+}
+
+/**
+ * Language of the segments that cover the most time
+ */
+export function dominantLanguage(segments: TranscriptionSegment[]): string | undefined {
+  const durations = new Map<string, number>();
+  
+  for (const segment of segments) {
+    if (segment.language) {
+      durations.set(segment.language, (durations.get(segment.language) ?? 0) + Math.max(segment.end - segment.start, 0));
+    }
+  }
+  
+  let dominant: string | undefined;
+  for (const [language, duration] of durations) {
+    if (dominant === undefined || duration > durations.get(dominant)!) {
+      dominant = language;
+    }
+  }
+  return dominant;
+}
@@ -6,14 +6,53 @@
  */
 
 import { EventEmitter } from 'events';
+import { basename, join } from 'path';
+import { z } from 'zod';
 import { Logger } from '../utils/logger.js';
-import { ConfigManager } from '../utils/config-manager.js';
+import {
+  ConfigManager,
+  OpenAIConfigSchema,
+  WhisperCppConfigSchema,
+  AzureConfigSchema,
+  GoogleConfigSchema
+} from '../utils/config-manager.js';
 import { ErrorHandler, AudioMCPError } from '../utils/error-handler.js';
 import { AudioChunk } from '../audio-module/audio-capture-manager.js';
+import { StreamFormat, convertAudio } from '../audio-module/format-converter.js';
+import { OpenAIWhisperClient, DEFAULT_OPENAI_BASE_URL } from './openai-whisper-client.js';
+import { WhisperCppRunner } from './whisper-cpp-runner.js';
+import { AzureSpeechClient, AZURE_SPEECH_LOCALES } from './azure-speech-client.js';
+import {
+  GoogleSpeechClient,
+  DEFAULT_GOOGLE_SPEECH_ENDPOINT,
+  GOOGLE_SPEECH_LANGUAGES,
+  GOOGLE_MAX_LANGUAGE_CANDIDATES
+} from './google-speech-client.js';
+import { GoogleServiceAccountAuth } from './google-service-account.js';
+import {
+  SpeechProvider,
+  SpeechProviderCapabilities,
+  SpeechProviderDescriptor,
+  SpeechProviderRegistry,
+  ResolvedSpeechProvider,
+  StreamingHandlers,
+  StreamingHypothesis,
+  StreamingSession,
+  AUTO_LANGUAGE,
+  findCandidate
+} from './speech-provider-registry.js';
+import { LanguageRegistry, LanguageTag } from './language-registry.js';
+import { WHISPER_LANGUAGES } from './whisper-languages.js';
+import { ProviderHealth, ProviderHealthStatus } from './provider-health.js';
+import { ReDecodingStream } from './re-decoding-stream.js';
 
 export interface TranscriptionRequest {
-  service: 'whisper' | 'azure' | 'google';
+  // Name of a configured speech provider
+  service: string;
+  // A language code, or 'auto' to have the provider identify it
   language?: string;
+  // Languages 'auto' may pick from (default speech.languageDetection.candidates)
+  languageCandidates?: string[];
   continuous?: boolean;
   audioData?: AudioChunk[];
 }
@@ -25,6 +64,28 @@ export interface TranscriptionResult {
   timestamp: number;
   language?: string;
   segments?: TranscriptionSegment[];
+  // Spoken form without punctuation or formatting, where the service reports it
+  lexical?: string;
+  // Ranked recognition candidates, best first, where the service reports them
+  alternatives?: TranscriptionAlternative[];
+  // Configured provider that produced the result, and the one requested
+  // when that failed or was skipped
+  provider?: string;
+  fallbackFrom?: string;
+}
+
+export interface TranscriptionAlternative {
+  text: string;
+  lexical?: string;
+  confidence: number;
+}
+
+export interface TranscriptionWord {
+  text: string;
+  // Seconds, relative like the segment's start and end
+  start: number;
+  end: number;
+  confidence?: number;
 }
 
 export interface TranscriptionSegment {
@@ -32,6 +93,16 @@ export interface TranscriptionSegment {
   start: number;
   end: number;
   confidence: number;
+  lexical?: string;
+  words?: TranscriptionWord[];
+  // Language identified for the segment when the request's language was
+  // 'auto', with the provider's probability for it where reported
+  language?: string;
+  languageProbability?: number;
+  // Placement on the capture timeline, when the audio came from a capture session
+  startSample?: number;
+  endSample?: number;
+  wallClock?: string;
 }
 
 export interface Transcript {
@@ -44,42 +115,179 @@ export interface Transcript {
   duration: number;
 }
 
+export interface SpeechProviderInfo {
+  name: string;
+  type: string;
+  available: boolean;
+  capabilities: SpeechProviderCapabilities;
+}
+
+/**
+ * A provider's languages, or with a language asked about, how the provider
+ * would be sent it
+ */
+export interface ProviderLanguageSupport {
+  name: string;
+  type: string;
+  available: boolean;
+  format: SpeechProviderCapabilities['languageFormat'];
+  detection: SpeechProviderCapabilities['languageDetection'];
+  languages?: Array<{ code: string; name: string }> | 'any';
+  // The provider's code for the language asked about, or why it has none
+  code?: string;
+  error?: string;
+}
+
+export interface LanguageSupport {
+  language?: LanguageTag;
+  providers: ProviderLanguageSupport[];
+}
+
+// A request's languages as one provider spells them
+interface ProviderLanguages {
+  language?: string;
+  candidates: string[];
+  // Provider codes, lower-cased, back to the request's canonical codes
+  requested: Map<string, string>;
+}
+
+export interface StreamingTranscriptEvent extends StreamingHypothesis {
+  // Caller's ID for the stream, e.g. the capture session
+  streamId: string;
+  service: string;
+  language?: string;
+}
+
+export interface SpeechServiceStatus {
+  type: string;
+  available: boolean;
+  health: ProviderHealthStatus;
+}
+
+// A provider of a fallback chain that was skipped or failed
+interface FallbackAttempt {
+  provider: string;
+  error: AudioMCPError | Error;
+}
+
+// The built-in services all send 16 kHz mono audio
+const SPEECH_FORMAT: StreamFormat = { sampleRate: 16000, channels: 1 };
+
+const WhisperOptionsSchema = z.object({
+  openai: OpenAIConfigSchema.optional(),
+  // Where Whisper runs: 'local' never sends audio off the machine, 'auto'
+  // uses the API when a key or base URL is configured and whisper.cpp otherwise
+  backend: z.enum(['auto', 'api', 'local']).default('auto'),
+  whisperCpp: WhisperCppConfigSchema.default({})
+});
+
+type WhisperOptions = z.infer<typeof WhisperOptionsSchema>;
+
+/**
+ * Whether Whisper runs through the API rather than whisper.cpp: in auto
+ * mode, when an OpenAI key or a compatible server is configured
+ */
+function usesWhisperApi(options: WhisperOptions): boolean {
+  return options.backend === 'api' ||
+    (options.backend === 'auto' && !!(options.openai?.apiKey || options.openai?.baseUrl));
+}
+
+/**
+ * Whether the model Whisper runs only knows English, like base.en or
+ * ggml-small.en-q5_1.bin
+ */
+function isEnglishOnlyWhisper(options: WhisperOptions): boolean {
+  const model = usesWhisperApi(options)
+    ? options.openai?.model ?? 'whisper-1'
+    : basename(options.whisperCpp.modelPath ?? options.whisperCpp.model);
+  return /\.en(?![a-z])/i.test(model);
+}
+
 /**
- * Abstract base class for speech services
+ * Abstract base class for speech services; each instance is a named
+ * provider with its own options
  */
-abstract class SpeechService {
+abstract class SpeechService<Options> implements SpeechProvider {
   protected logger: Logger;
-  protected config: ConfigManager;
+  protected name: string;
+  protected options: Options;
   
-  constructor() {
+  constructor(name: string, options: Options) {
     this.logger = Logger.getInstance();
-    this.config = ConfigManager.getInstance();
+    this.name = name;
+    this.options = options;
   }
   
   abstract initialize(): Promise<void>;
-  abstract transcribe(audioChunks: AudioChunk[], language?: string): Promise<TranscriptionResult>;
+  abstract transcribe(audioChunks: AudioChunk[], language?: string, candidates?: string[]): Promise<TranscriptionResult>;
   abstract cleanup(): Promise<void>;
   abstract isAvailable(): boolean;
+  
+  /**
+   * Audio format the service expects; chunks are converted before transcribe()
+   */
+  abstract getPreferredFormat(): StreamFormat;
+  
+  protected combineAudioChunks(chunks: AudioChunk[]): Float32Array {
+    if (chunks.length === 0) {
+      return new Float32Array(0);
+    }
+    
+    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.data.length, 0);
+    const combined = new Float32Array(totalLength);
+    
+    let offset = 0;
+    for (const chunk of chunks) {
+      combined.set(chunk.data, offset);
+      offset += chunk.data.length;
+    }
+    
+    return combined;
+  }
 }
 
 /**
  * OpenAI Whisper service implementation
  */
-class WhisperService extends SpeechService {
+class WhisperService extends SpeechService<WhisperOptions> {
   private isInitialized = false;
+  private apiClient: OpenAIWhisperClient | null = null;
+  private localRunner: WhisperCppRunner | null = null;
   
   async initialize(): Promise<void> {
     try {
-      this.logger.info('Initializing Whisper service');
+      this.logger.info(`Initializing Whisper service ${this.name}`);
       
-      // Check if OpenAI API key is available for cloud Whisper
-      const speechConfig = this.config.getSpeechConfig();
-      const hasApiKey = !!speechConfig.openai?.apiKey;
+      const openai = this.options.openai;
       
-      if (hasApiKey) {
-        this.logger.info('Using OpenAI Whisper API');
+      if (usesWhisperApi(this.options)) {
+        const baseUrl = openai?.baseUrl ?? DEFAULT_OPENAI_BASE_URL;
+        this.apiClient = new OpenAIWhisperClient({
+          ...(openai?.apiKey ? { apiKey: openai.apiKey } : {}),
+          model: openai?.model ?? 'whisper-1',
+          baseUrl,
+          responseFormat: openai?.responseFormat ?? 'verbose_json',
+          timeoutMs: openai?.timeoutMs ?? 60000
+        });
+        this.logger.info(`Using OpenAI Whisper API at ${baseUrl}`);
       } else {
-        this.logger.info('Using local Whisper implementation');
+        const whisperCpp = this.options.whisperCpp;
+        const modelPath = whisperCpp.modelPath ?? join(whisperCpp.modelDirectory, `ggml-${whisperCpp.model}.bin`);
+        
+        this.localRunner = new WhisperCppRunner({
+          binaryPath: whisperCpp.binaryPath,
+          modelPath,
+          threads: whisperCpp.threads,
+          beamSize: whisperCpp.beamSize,
+          outputFormat: whisperCpp.outputFormat,
+          timeoutMs: whisperCpp.timeoutMs
+        });
+        
+        if (this.localRunner.isModelAvailable()) {
+          this.logger.info(`Using local whisper.cpp with model ${modelPath}`);
+        } else {
+          this.logger.warn(`whisper.cpp model not found at ${modelPath}; local Whisper transcription is unavailable`);
+        }
       }
       
       this.isInitialized = true;
@@ -90,76 +298,52 @@ class WhisperService extends SpeechService {
     }
   }
   
-  async transcribe(audioChunks: AudioChunk[], language = 'en'): Promise<TranscriptionResult> {
+  async transcribe(audioChunks: AudioChunk[], language = 'en', candidates: string[] = []): Promise<TranscriptionResult> {
     if (!this.isInitialized) {
       throw ErrorHandler.createSpeechServiceError('Whisper service not initialized');
     }
     
     try {
-      const speechConfig = this.config.getSpeechConfig();
-      
       // Combine audio chunks
       const combinedAudio = this.combineAudioChunks(audioChunks);
+      const result = await this.transcribeAudio(combinedAudio, language);
       
-      if (speechConfig.openai?.apiKey) {
-        return await this.transcribeWithAPI(combinedAudio, language);
-      } else {
-        return await this.transcribeLocally(combinedAudio, language);
+      // Whisper can't be told which languages to pick from, so a detection
+      // outside the candidates is redone in the first one
+      if (language === AUTO_LANGUAGE && candidates.length > 0 && !findCandidate(result.language ?? '', candidates)) {
+        this.logger.debug(`Whisper detected ${result.language}, not one of the candidates; transcribing as ${candidates[0]}`);
+        const forced = await this.transcribeAudio(combinedAudio, candidates[0]);
+        return {
+          ...forced,
+          ...(forced.segments ? { segments: forced.segments.map(segment => ({ ...segment, language: candidates[0] })) } : {})
+        };
       }
       
+      return result;
+      
     } catch (error) {
       this.logger.error('Whisper transcription failed', error);
+      // Keep the request's own error (status, network failure) visible
+      if (error instanceof AudioMCPError) {
+        throw error;
+      }
       throw ErrorHandler.createSpeechServiceError('Whisper transcription failed', error);
     }
   }
   
-  private async transcribeWithAPI(audioData: Float32Array, language: string): Promise<TranscriptionResult> {
-    // This would implement OpenAI Whisper API calls
-    // For now, return mock result
-    this.logger.info('Using OpenAI Whisper API for transcription');
-    
-    return {
-      text: "Mock transcription from OpenAI Whisper API",
-      confidence: 0.95,
-      service: 'whisper-api',
-      timestamp: Date.now(),
-      language
-    };
+  isAvailable(): boolean {
+    return this.isInitialized && (this.apiClient !== null || !!this.localRunner?.isModelAvailable());
   }
   
-  private async transcribeLocally(audioData: Float32Array, language: string): Promise<TranscriptionResult> {
-    // This would implement local Whisper model processing
-    // For now, return mock result
-    this.logger.info('Using local Whisper model for transcription');
-    
-    return {
-      text: "Mock transcription from local Whisper model",
-      confidence: 0.90,
-      service: 'whisper-local',
-      timestamp: Date.now(),
-      language
-    };
+  private transcribeAudio(audio: Float32Array, language: string): Promise<TranscriptionResult> {
+    return this.apiClient
+      ? this.apiClient.transcribe(audio, this.getPreferredFormat(), language)
+      : this.localRunner!.transcribe(audio, language);
   }
   
-  private combineAudioChunks(chunks: AudioChunk[]): Float32Array {
-    if (chunks.length === 0) {
-      return new Float32Array(0);
-    }
-    
-    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.data.length, 0);
-    const combined = new Float32Array(totalLength);
-    
-    let offset = 0;
-    for (const chunk of chunks) {
-      combined.set(chunk.data, offset);
-      offset += chunk.data.length;
-    }
-    
-    return combined;
-  }
-  
-  isAvailable(): boolean {
-    return this.isInitialized;
+  getPreferredFormat(): StreamFormat {
+    // Whisper models are trained on 16 kHz mono audio
+    return SPEECH_FORMAT;
   }
   
   async cleanup(): Promise<void> {
@@ -171,20 +355,28 @@ class WhisperService extends SpeechService {
 /**
  * Azure Speech Services implementation
  */
-class AzureSpeechService extends SpeechService {
+class AzureSpeechService extends SpeechService<z.infer<typeof AzureConfigSchema>> {
   private isInitialized = false;
+  private client: AzureSpeechClient | null = null;
   
   async initialize(): Promise<void> {
     try {
-      this.logger.info('Initializing Azure Speech service');
+      this.logger.info(`Initializing Azure Speech service ${this.name}`);
       
-      const speechConfig = this.config.getSpeechConfig();
+      const azure = this.options;
       
-      if (!speechConfig.azure?.subscriptionKey || !speechConfig.azure?.region) {
+      if (!azure.subscriptionKey || !(azure.region || azure.endpoint)) {
         throw new Error('Azure Speech credentials not configured');
       }
       
-      // Initialize Azure Speech SDK here
+      this.client = new AzureSpeechClient({
+        subscriptionKey: azure.subscriptionKey,
+        ...(azure.region ? { region: azure.region } : {}),
+        ...(azure.endpoint ? { endpoint: azure.endpoint } : {}),
+        mode: azure.mode,
+        profanity: azure.profanity,
+        timeoutMs: azure.timeoutMs
+      });
       this.isInitialized = true;
       
     } catch (error) {
@@ -193,36 +385,40 @@ class AzureSpeechService extends SpeechService {
     }
   }
   
-  async transcribe(audioChunks: AudioChunk[], language = 'en-US'): Promise<TranscriptionResult> {
-    if (!this.isInitialized) {
+  async transcribe(audioChunks: AudioChunk[], language?: string, candidates: string[] = []): Promise<TranscriptionResult> {
+    if (!this.isInitialized || !this.client) {
       throw ErrorHandler.createSpeechServiceError('Azure Speech service not initialized');
     }
     
     try {
-      // This would implement Azure Speech SDK calls
-      this.logger.info('Using Azure Speech service for transcription');
-      
-      return {
-        text: "Mock transcription from Azure Speech Services",
-        confidence: 0.92,
-        service: 'azure-speech',
-        timestamp: Date.now(),
-        language
-      };
+      const combinedAudio = this.combineAudioChunks(audioChunks);
+      return await this.client.transcribe(
+        combinedAudio,
+        this.getPreferredFormat(),
+        language ?? this.options.language,
+        candidates
+      );
       
     } catch (error) {
       this.logger.error('Azure Speech transcription failed', error);
+      if (error instanceof AudioMCPError) {
+        throw error;
+      }
       throw ErrorHandler.createSpeechServiceError('Azure Speech transcription failed', error);
     }
   }
   
   isAvailable(): boolean {
-    const speechConfig = this.config.getSpeechConfig();
-    return this.isInitialized && !!(speechConfig.azure?.subscriptionKey && speechConfig.azure?.region);
+    return this.isInitialized && this.client !== null;
+  }
+  
+  getPreferredFormat(): StreamFormat {
+    return SPEECH_FORMAT;
   }
   
   async cleanup(): Promise<void> {
     this.isInitialized = false;
+    this.client = null;
     this.logger.info('Azure Speech service cleanup completed');
   }
 }
@@ -230,20 +426,37 @@ class AzureSpeechService extends SpeechService {
 /**
  * Google Speech-to-Text implementation
  */
-class GoogleSpeechService extends SpeechService {
+class GoogleSpeechService extends SpeechService<z.infer<typeof GoogleConfigSchema>> {
   private isInitialized = false;
+  private client: GoogleSpeechClient | null = null;
   
   async initialize(): Promise<void> {
     try {
-      this.logger.info('Initializing Google Speech service');
+      this.logger.info(`Initializing Google Speech service ${this.name}`);
       
-      const speechConfig = this.config.getSpeechConfig();
+      const google = this.options;
       
-      if (!speechConfig.google?.keyFilename && !speechConfig.google?.projectId) {
+      if (!google.keyFilename) {
         throw new Error('Google Speech credentials not configured');
       }
       
-      // Initialize Google Speech SDK here
+      const auth = new GoogleServiceAccountAuth({
+        keyFilename: google.keyFilename,
+        ...(google.tokenUrl ? { tokenUrl: google.tokenUrl } : {})
+      });
+      // Fail here rather than on the first request if the key is unusable
+      await auth.loadKey();
+      
+      this.client = new GoogleSpeechClient({
+        auth,
+        endpoint: google.endpoint ?? DEFAULT_GOOGLE_SPEECH_ENDPOINT,
+        mode: google.mode,
+        ...(google.model ? { model: google.model } : {}),
+        maxAlternatives: google.maxAlternatives,
+        profanityFilter: google.profanityFilter,
+        timeoutMs: google.timeoutMs,
+        pollIntervalMs: google.pollIntervalMs
+      });
       this.isInitialized = true;
       
     } catch (error) {
@@ -252,36 +465,40 @@ class GoogleSpeechService extends SpeechService {
     }
   }
   
-  async transcribe(audioChunks: AudioChunk[], language = 'en-US'): Promise<TranscriptionResult> {
-    if (!this.isInitialized) {
+  async transcribe(audioChunks: AudioChunk[], language?: string, candidates: string[] = []): Promise<TranscriptionResult> {
+    if (!this.isInitialized || !this.client) {
       throw ErrorHandler.createSpeechServiceError('Google Speech service not initialized');
     }
     
     try {
-      // This would implement Google Speech SDK calls
-      this.logger.info('Using Google Speech service for transcription');
-      
-      return {
-        text: "Mock transcription from Google Speech-to-Text",
-        confidence: 0.94,
-        service: 'google-speech',
-        timestamp: Date.now(),
-        language
-      };
+      const combinedAudio = this.combineAudioChunks(audioChunks);
+      return await this.client.transcribe(
+        combinedAudio,
+        this.getPreferredFormat(),
+        language ?? this.options.language,
+        candidates
+      );
       
     } catch (error) {
       this.logger.error('Google Speech transcription failed', error);
+      if (error instanceof AudioMCPError) {
+        throw error;
+      }
       throw ErrorHandler.createSpeechServiceError('Google Speech transcription failed', error);
     }
   }
   
   isAvailable(): boolean {
-    const speechConfig = this.config.getSpeechConfig();
-    return this.isInitialized && !!(speechConfig.google?.keyFilename || speechConfig.google?.projectId);
+    return this.isInitialized && this.client !== null;
+  }
+  
+  getPreferredFormat(): StreamFormat {
+    return SPEECH_FORMAT;
   }
   
   async cleanup(): Promise<void> {
     this.isInitialized = false;
+    this.client = null;
     this.logger.info('Google Speech service cleanup completed');
   }
 }
@@ -292,7 +509,11 @@ class GoogleSpeechService extends SpeechService {
 export class SpeechServiceManager extends EventEmitter {
   private logger: Logger;
   private config: ConfigManager;
-  private services: Map<string, SpeechService> = new Map();
+  private providers: SpeechProviderRegistry;
+  private languages: LanguageRegistry;
+  // Initialized providers by name
+  private services: Map<string, ResolvedSpeechProvider> = new Map();
+  private health: Map<string, ProviderHealth> = new Map();
   private transcripts: Transcript[] = [];
   private isInitialized = false;
   private continuousTranscription = false;
@@ -302,38 +523,61 @@ export class SpeechServiceManager extends EventEmitter {
     super();
     this.logger = Logger.getInstance();
     this.config = ConfigManager.getInstance();
+    this.providers = new SpeechProviderRegistry();
+    this.languages = new LanguageRegistry();
+    this.registerBuiltInProviders();
   }
   
   /**
-   * Initialize all available speech services
+   * Register an additional provider type; call before initialize()
+   */
+  registerProvider<Schema extends z.ZodTypeAny>(descriptor: SpeechProviderDescriptor<Schema>): void {
+    this.providers.register(descriptor);
+  }
+  
+  /**
+   * Create and initialize the configured speech providers
    */
   async initialize(): Promise<void> {
     try {
       this.logger.info('Initializing Speech Service Manager');
       
-      // Initialize Whisper (always available)
-      const whisperService = new WhisperService();
-      await whisperService.initialize();
-      this.services.set('whisper', whisperService);
+      const speechConfig = this.config.getSpeechConfig();
       
-      // Initialize Azure Speech if configured
-      try {
-        const azureService = new AzureSpeechService();
-        await azureService.initialize();
-        this.services.set('azure', azureService);
-        this.logger.info('Azure Speech service initialized');
-      } catch (error) {
-        this.logger.warn('Azure Speech service not available', error);
+      for (const providerConfig of this.providers.getProviderConfigs(speechConfig)) {
+        if (!providerConfig.enabled) {
+          continue;
+        }
+        
+        if (this.services.has(providerConfig.name)) {
+          throw ErrorHandler.createConfigError(`Speech provider ${providerConfig.name} is declared more than once`);
+        }
+        
+        // Unknown types and invalid options are config errors; a provider
+        // that fails to initialize (e.g. missing credentials) is left out
+        const resolved = this.providers.create(providerConfig, speechConfig);
+        try {
+          await resolved.provider.initialize();
+          this.services.set(resolved.name, resolved);
+          this.health.set(resolved.name, new ProviderHealth({
+            failureThreshold: speechConfig.fallback.failureThreshold,
+            cooldownMs: speechConfig.fallback.cooldownMs
+          }));
+          this.logger.info(`Speech provider ${resolved.name} (${resolved.type}) initialized`);
+        } catch (error) {
+          this.logger.warn(`Speech provider ${resolved.name} (${resolved.type}) not available`, error);
+        }
       }
       
-      // Initialize Google Speech if configured
-      try {
-        const googleService = new GoogleSpeechService();
-        await googleService.initialize();
-        this.services.set('google', googleService);
-        this.logger.info('Google Speech service initialized');
-      } catch (error) {
-        this.logger.warn('Google Speech service not available', error);
+      const unknownFallbacks = speechConfig.fallback.order.filter(name => !this.services.has(name));
+      if (unknownFallbacks.length > 0) {
+        this.logger.warn('Fallback chain names unavailable speech providers', { providers: unknownFallbacks });
+      }
+      
+      if (!this.services.has(speechConfig.defaultService)) {
+        this.logger.warn(`Default speech service ${speechConfig.defaultService} is not available`, {
+          available: this.getAvailableServices()
+        });
       }
       
       this.isInitialized = true;
@@ -354,14 +598,10 @@ export class SpeechServiceManager extends EventEmitter {
     }
     
     try {
-      const service = this.services.get(request.service);
-      
-      if (!service) {
-        throw ErrorHandler.createSpeechServiceError(`Service ${request.service} not available`);
-      }
-      
-      if (!service.isAvailable()) {
-        throw ErrorHandler.createSpeechServiceError(`Service ${request.service} is not available`);
+      if (!this.services.has(request.service)) {
+        throw ErrorHandler.createSpeechServiceError(`Service ${request.service} not available`, {
+          available: this.getAvailableServices()
+        });
       }
       
       // Use buffered audio if no audio data provided
@@ -371,7 +611,14 @@ export class SpeechServiceManager extends EventEmitter {
         throw ErrorHandler.createSpeechServiceError('No audio data available for transcription');
       }
       
-      const result = await service.transcribe(audioChunks, request.language);
+      // Malformed codes are rejected before any provider is tried
+      if (request.language === AUTO_LANGUAGE) {
+        this.getLanguageCandidates(request).forEach(candidate => this.languages.parse(candidate));
+      } else if (request.language) {
+        this.languages.parse(request.language);
+      }
+      
+      const result = await this.transcribeWithFallback(request, audioChunks);
       
       // Store transcript
       const transcript: Transcript = {
@@ -409,13 +656,242 @@ export class SpeechServiceManager extends EventEmitter {
     }
   }
   
+  /**
+   * Try the requested provider, then the fallback chain, skipping providers
+   * that are unavailable, don't support the language or have an open
+   * circuit. Only recoverable errors fall through to the next provider.
+   */
+  private async transcribeWithFallback(request: TranscriptionRequest, audioChunks: AudioChunk[]): Promise<TranscriptionResult> {
+    const chain = [
+      request.service,
+      ...this.config.getSpeechConfig().fallback.order.filter(name => name !== request.service)
+    ];
+    const attempts: FallbackAttempt[] = [];
+    const candidates = this.getLanguageCandidates(request);
+    
+    for (const name of chain) {
+      const skipped = this.checkProvider(name, request.language, candidates);
+      if (skipped) {
+        attempts.push({ provider: name, error: skipped });
+        continue;
+      }
+      
+      const resolved = this.services.get(name)!;
+      const health = this.health.get(name)!;
+      const languages = this.toProviderLanguages(resolved, request.language, candidates);
+      const startedAt = Date.now();
+      
+      try {
+        const result = this.fromProviderLanguages(await resolved.provider.transcribe(
+          this.convertChunks(audioChunks, resolved.provider.getPreferredFormat()),
+          languages.language,
+          languages.candidates
+        ), languages);
+        health.recordSuccess(Date.now() - startedAt);
+        
+        if (attempts.length > 0) {
+          this.logger.warn(`Transcribed with fallback provider ${name} instead of ${request.service}`, {
+            attempts: attempts.map(attempt => ({ provider: attempt.provider, error: attempt.error.message }))
+          });
+          this.emit('serviceFallback', { requested: request.service, provider: name, attempts });
+        }
+        
+        return { ...result, provider: name, ...(name !== request.service ? { fallbackFrom: request.service } : {}) };
+        
+      } catch (error) {
+        health.recordFailure(error, Date.now() - startedAt);
+        this.emit('serviceFailed', { provider: name, error, health: health.getStatus() });
+        
+        // Errors another provider would run into as well end the chain
+        if (!(error instanceof Error) || (error instanceof AudioMCPError && !error.recoverable)) {
+          throw error;
+        }
+        attempts.push({ provider: name, error });
+      }
+    }
+    
+    // Without a fallback chain the requested provider's own error is the answer
+    if (attempts.length === 1) {
+      throw attempts[0].error;
+    }
+    
+    throw ErrorHandler.createSpeechServiceError(`No speech service could transcribe the audio (requested ${request.service})`, {
+      attempts: attempts.map(attempt => ({ provider: attempt.provider, error: attempt.error.message }))
+    });
+  }
+  
+  /**
+   * Languages a request with language 'auto' may be identified as
+   */
+  private getLanguageCandidates(request: { languageCandidates?: string[] }): string[] {
+    return request.languageCandidates ?? this.config.getSpeechConfig().languageDetection.candidates;
+  }
+  
+  /**
+   * Why a provider can't take a request right now, or null if it can; an
+   * open circuit admitting a probe counts as able
+   */
+  private checkProvider(name: string, language?: string, candidates: string[] = []): AudioMCPError | null {
+    const resolved = this.services.get(name);
+    
+    if (!resolved?.provider.isAvailable()) {
+      return ErrorHandler.createSpeechServiceError(`Service ${name} is not available`);
+    }
+    
+    try {
+      this.toProviderLanguages(resolved, language, candidates);
+    } catch (error) {
+      if (error instanceof AudioMCPError) {
+        return error;
+      }
+      throw error;
+    }
+    
+    const health = this.health.get(name)!;
+    if (!health.tryAcquire()) {
+      const status = health.getStatus();
+      return ErrorHandler.createSpeechServiceError(
+        `Service ${name} is skipped after ${status.consecutiveFailures} consecutive failures`,
+        { retryAt: status.retryAt, lastError: status.lastError?.message }
+      );
+    }
+    
+    return null;
+  }
+  
+  /**
+   * A request's language and candidates as a provider takes them; throws a
+   * language error for any it doesn't support
+   */
+  private toProviderLanguages(resolved: ResolvedSpeechProvider, language?: string, candidates: string[] = []): ProviderLanguages {
+    const requested = new Map<string, string>();
+    const toProvider = (code: string) => {
+      const mapped = this.languages.toProvider(code, resolved.name, resolved.capabilities);
+      if (!requested.has(mapped.toLowerCase())) {
+        requested.set(mapped.toLowerCase(), this.languages.parse(code).code);
+      }
+      return mapped;
+    };
+    
+    if (language !== AUTO_LANGUAGE) {
+      return { ...(language ? { language: toProvider(language) } : {}), candidates: [], requested };
+    }
+    
+    const detection = resolved.capabilities.languageDetection;
+    if (detection === 'none' || (detection === 'candidates' && candidates.length === 0)) {
+      throw ErrorHandler.createLanguageError(
+        detection === 'none'
+          ? `Service ${resolved.name} cannot identify the language`
+          : `Service ${resolved.name} only identifies the language among languageCandidates, and none were given`,
+        { service: resolved.name }
+      );
+    }
+    
+    // Candidates that map to the same code count once
+    const providerCandidates = Array.from(new Set(candidates.map(toProvider)));
+    const max = resolved.capabilities.maxLanguageCandidates;
+    if (max !== undefined && providerCandidates.length > max) {
+      throw ErrorHandler.createLanguageError(
+        `Service ${resolved.name} identifies the language among at most ${max} languageCandidates, got ${providerCandidates.length}`,
+        { service: resolved.name, candidates: providerCandidates }
+      );
+    }
+    
+    return { language, candidates: providerCandidates, requested };
+  }
+  
+  /**
+   * A result with its languages back in the request's codes, or canonical
+   * where the provider reported one the request didn't name
+   */
+  private fromProviderLanguages(result: TranscriptionResult, languages: ProviderLanguages): TranscriptionResult {
+    const toRequested = (code: string) => {
+      const requested = languages.requested.get(code.toLowerCase());
+      if (requested) {
+        return requested;
+      }
+      
+      try {
+        return this.languages.parse(code).code;
+      } catch {
+        return code;
+      }
+    };
+    
+    return {
+      ...result,
+      ...(result.language ? { language: toRequested(result.language) } : {}),
+      ...(result.segments
+        ? {
+          segments: result.segments.map(segment => segment.language ? { ...segment, language: toRequested(segment.language) } : segment)
+        }
+        : {})
+    };
+  }
+  
+  /**
+   * Open a streaming session on a provider. Its hypotheses are emitted as
+   * partialTranscript and finalTranscript events tagged with streamId.
+   * Providers without native streaming are re-decoded; their interim
+   * decodes go straight to the provider, while each utterance's final
+   * result is transcribed like any other request, with fallback.
+   */
+  openStream(options: { streamId: string; service: string; language?: string; languageCandidates?: string[] }): StreamingSession {
+    const resolved = this.services.get(options.service);
+    if (!resolved?.provider.isAvailable()) {
+      throw ErrorHandler.createSpeechServiceError(`Service ${options.service} is not available`, {
+        available: this.getAvailableServices()
+      });
+    }
+    
+    const provider = resolved.provider;
+    const format = provider.getPreferredFormat();
+    const languages = this.toProviderLanguages(resolved, options.language, this.getLanguageCandidates(options));
+    const handlers: StreamingHandlers = {
+      onHypothesis: (hypothesis) => {
+        const event: StreamingTranscriptEvent = {
+          ...hypothesis,
+          streamId: options.streamId,
+          service: options.service,
+          ...(options.language ? { language: options.language } : {})
+        };
+        this.emit(hypothesis.isFinal ? 'finalTranscript' : 'partialTranscript', event);
+      },
+      onError: (error) => {
+        // Interim results are best effort; the final result reports failures
+        this.logger.debug(`Interim transcription on ${options.service} failed`, {
+          streamId: options.streamId,
+          error: error.message
+        });
+      }
+    };
+    
+    if (provider.openStream) {
+      const session = provider.openStream(languages.language, languages.candidates, handlers);
+      return {
+        push: (chunk) => session.push(this.convertChunks([chunk], format)[0]),
+        endUtterance: (utterance) => session.endUtterance(this.convertChunks([utterance], format)[0]),
+        close: () => session.close()
+      };
+    }
+    
+    return new ReDecodingStream({
+      intervalMs: this.config.getSpeechConfig().streaming.intervalMs,
+      transcribeInterim: (chunks) => provider.transcribe(this.convertChunks(chunks, format), languages.language, languages.candidates),
+      transcribeFinal: (utterance) => this.transcribe({
+        service: options.service,
+        ...(options.language ? { language: options.language } : {}),
+        ...(options.languageCandidates ? { languageCandidates: options.languageCandidates } : {}),
+        continuous: true,
+        audioData: [utterance]
+      })
+    }, handlers);
+  }
+  
   /**
    * Start continuous transcription
    */
-  async startContinuousTranscription(
-    service: 'whisper' | 'azure' | 'google',
-    language?: string
-  ): Promise<void> {
+  async startContinuousTranscription(service: string, language?: string): Promise<void> {
     this.continuousTranscription = true;
     this.audioBuffer = [];
     
@@ -467,23 +943,165 @@ export class SpeechServiceManager extends EventEmitter {
    */
   getAvailableServices(): string[] {
     return Array.from(this.services.keys()).filter(service => 
-      this.services.get(service)?.isAvailable()
+      this.services.get(service)?.provider.isAvailable()
     );
   }
   
   /**
    * Get service status
    */
-  getServiceStatus(): { [service: string]: boolean } {
-    const status: { [service: string]: boolean } = {};
+  getServiceStatus(): { [service: string]: SpeechServiceStatus } {
+    const status: { [service: string]: SpeechServiceStatus } = {};
     
     for (const [name, service] of this.services) {
-      status[name] = service.isAvailable();
+      status[name] = {
+        type: service.type,
+        available: service.provider.isAvailable(),
+        health: this.health.get(name)!.getStatus()
+      };
     }
     
     return status;
   }
   
+  /**
+   * Get the initialized providers with their types and capabilities
+   */
+  getProviders(): SpeechProviderInfo[] {
+    return Array.from(this.services.values()).map(service => ({
+      name: service.name,
+      type: service.type,
+      available: service.provider.isAvailable(),
+      capabilities: service.capabilities
+    }));
+  }
+  
+  /**
+   * The languages of the initialized providers; with a language, whether
+   * and as which code each provider takes it
+   */
+  getLanguages(language?: string): LanguageSupport {
+    const tag = language ? this.languages.parse(language) : undefined;
+    
+    const providers = Array.from(this.services.values()).map(service => {
+      const support: ProviderLanguageSupport = {
+        name: service.name,
+        type: service.type,
+        available: service.provider.isAvailable(),
+        format: service.capabilities.languageFormat,
+        detection: service.capabilities.languageDetection
+      };
+      
+      if (!tag) {
+        return { ...support, languages: this.languages.describe(service.capabilities) };
+      }
+      
+      try {
+        return { ...support, code: this.languages.toProvider(tag.code, service.name, service.capabilities) };
+      } catch (error) {
+        return { ...support, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+    
+    return { ...(tag ? { language: tag } : {}), providers };
+  }
+  
+  /**
+   * Provider used when a request names none: speech.defaultService, or the
+   * first available provider when that one is not available
+   */
+  getDefaultService(): string {
+    const configured = this.config.getSpeechConfig().defaultService;
+    
+    if (this.services.get(configured)?.provider.isAvailable()) {
+      return configured;
+    }
+    
+    return this.getAvailableServices()[0] ?? configured;
+  }
+  
+  /**
+   * Register the provider types that ship with the server; without
+   * speech.providers one of each is created, named after its type
+   */
+  private registerBuiltInProviders(): void {
+    this.providers.register({
+      type: 'whisper',
+      description: 'OpenAI Whisper through the OpenAI API or a compatible server, or offline with whisper.cpp',
+      optionsSchema: WhisperOptionsSchema,
+      capabilities: {
+        streaming: false,
+        wordTimestamps: false,
+        languages: Object.keys(WHISPER_LANGUAGES),
+        languageFormat: 'language',
+        languageDetection: 'any',
+        // whisper.cpp logs it; the API doesn't report it
+        languageProbability: true,
+        formats: [SPEECH_FORMAT]
+      },
+      optionCapabilities: (options) => isEnglishOnlyWhisper(options)
+        ? { languages: ['en'], languageDetection: 'none', languageProbability: false }
+        : usesWhisperApi(options) ? { languageProbability: false } : {},
+      create: (name, options) => new WhisperService(name, options),
+      defaultOptions: (speech) => ({
+        ...(speech.openai ? { openai: speech.openai } : {}),
+        backend: speech.whisperBackend,
+        whisperCpp: speech.whisperCpp
+      })
+    });
+    
+    this.providers.register({
+      type: 'azure',
+      description: 'Azure Speech REST API with detailed output',
+      optionsSchema: AzureConfigSchema,
+      capabilities: {
+        streaming: false,
+        wordTimestamps: true,
+        languages: AZURE_SPEECH_LOCALES,
+        languageFormat: 'locale',
+        languageDetection: 'candidates',
+        // Phrases only carry recognition confidence
+        languageProbability: false,
+        formats: [SPEECH_FORMAT]
+      },
+      create: (name, options) => new AzureSpeechService(name, options),
+      defaultOptions: (speech) => ({ ...speech.azure })
+    });
+    
+    this.providers.register({
+      type: 'google',
+      description: 'Google Cloud Speech-to-Text v1 REST API with a service account',
+      optionsSchema: GoogleConfigSchema,
+      capabilities: {
+        streaming: false,
+        wordTimestamps: true,
+        languages: GOOGLE_SPEECH_LANGUAGES,
+        languageFormat: 'locale',
+        languageDetection: 'candidates',
+        maxLanguageCandidates: GOOGLE_MAX_LANGUAGE_CANDIDATES,
+        // Results name their language without a confidence
+        languageProbability: false,
+        formats: [SPEECH_FORMAT]
+      },
+      create: (name, options) => new GoogleSpeechService(name, options),
+      defaultOptions: (speech) => ({ ...speech.google })
+    });
+  }
+  
+  /**
+   * Convert audio chunks to the format a service expects
+   */
+  private convertChunks(chunks: AudioChunk[], format: StreamFormat): AudioChunk[] {
+    const quality = this.config.getAudioConfig().resampleQuality;
+    
+    return chunks.map(chunk => ({
+      ...chunk,
+      data: convertAudio(chunk.data, chunk, format, quality),
+      sampleRate: format.sampleRate,
+      channels: format.channels
+    }));
+  }
+  
   /**
    * Generate unique transcript ID
    */
@@ -504,7 +1122,7 @@ export class SpeechServiceManager extends EventEmitter {
       // Cleanup all services
       for (const [name, service] of this.services) {
         try {
-          await service.cleanup();
+          await service.provider.cleanup();
           this.logger.info(`${name} service cleaned up`);
         } catch (error) {
           this.logger.error(`Error cleaning up ${name} service`, error);
@@ -512,6 +1130,7 @@ export class SpeechServiceManager extends EventEmitter {
       }
       
       this.services.clear();
+      this.health.clear();
       this.transcripts = [];
       this.removeAllListeners();
       this.isInitialized = false;
@@ -0,0 +1,244 @@
+/**
+ * whisper.cpp Runner
+ * 
+ * Offline transcription with a local whisper.cpp build. Each request writes
+ * the audio to a temporary 16 kHz WAV file, runs the configured whisper.cpp
+ * CLI (`whisper-cli`, or `main` in older builds) on it as a subprocess and
+ * parses the JSON or SRT file it writes. Audio never leaves the machine.
+ */
+
+import { spawn } from 'child_process';
+import { existsSync } from 'fs';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { encodeWav } from '../audio-module/wav-format.js';
+import { toWhisperLanguage } from './openai-whisper-client.js';
+import { TranscriptionResult, TranscriptionSegment } from './speech-service-manager.js';
+import { averageConfidence } from './speech-client-helpers.js';
+
+// whisper.cpp only accepts 16 kHz mono input
+const WHISPER_CPP_FORMAT = { sampleRate: 16000, channels: 1 };
+// Logged by whisper.cpp when it identifies the language itself
+const DETECTED_LANGUAGE_PATTERN = /auto-detected language: ([a-z]+) \(p = ([\d.]+)\)/;
+
+export interface WhisperCppOptions {
+  binaryPath: string;
+  modelPath: string;
+  threads: number;
+  beamSize: number;
+  outputFormat: 'json' | 'srt';
+  timeoutMs: number;
+}
+
+interface DetectedLanguage {
+  language: string;
+  probability: number;
+}
+
+interface WhisperCppJson {
+  result?: { language?: string };
+  transcription?: Array<{
+    offsets: { from: number; to: number };
+    text: string;
+    tokens?: Array<{ text: string; p?: number }>;
+  }>;
+}
+
+export class WhisperCppRunner {
+  private logger: Logger;
+  private options: WhisperCppOptions;
+  
+  constructor(options: WhisperCppOptions) {
+    this.logger = Logger.getInstance();
+    this.options = options;
+  }
+  
+  /**
+   * Whether the configured model file exists; the binary is only found
+   * when it runs
+   */
+  isModelAvailable(): boolean {
+    return existsSync(this.options.modelPath);
+  }
+  
+  /**
+   * Transcribe 16 kHz mono Float32 samples; without a language (or with
+   * 'auto') whisper.cpp detects it, and every segment is tagged with it and
+   * its probability
+   */
+  async transcribe(audio: Float32Array, language?: string): Promise<TranscriptionResult> {
+    const directory = await mkdtemp(join(tmpdir(), 'whisper-cpp-'));
+    const input = join(directory, 'audio.wav');
+    const outputPrefix = join(directory, 'transcript');
+    
+    try {
+      await writeFile(input, encodeWav(audio, WHISPER_CPP_FORMAT));
+      const whisperLanguage = toWhisperLanguage(language);
+      const detected = await this.run(this.buildArgs(input, outputPrefix, whisperLanguage));
+      
+      const output = await readFile(`${outputPrefix}.${this.options.outputFormat}`, 'utf8').catch(() => {
+        throw ErrorHandler.createSpeechServiceError(`whisper.cpp wrote no ${this.options.outputFormat} output`, {
+          binary: this.options.binaryPath
+        });
+      });
+      
+      const segments = (this.options.outputFormat === 'json'
+        ? parseWhisperCppJson(output)
+        : parseSrt(output)
+      ).map(segment => detected
+        ? { ...segment, language: detected.language, languageProbability: detected.probability }
+        : segment);
+        
+      return {
+        text: segments.map(segment => segment.text).filter(text => text.length > 0).join(' '),
+        confidence: averageConfidence(segments.map(segment => segment.confidence), 1),
+        service: 'whisper-local',
+        timestamp: Date.now(),
+        ...(detected ? { language: detected.language } : whisperLanguage ? { language: language! } : {}),
+        segments
+      };
+    } finally {
+      await rm(directory, { recursive: true, force: true }).catch((error) => {
+        this.logger.warn(`Failed to remove ${directory}`, error);
+      });
+    }
+  }
+  
+  private buildArgs(input: string, outputPrefix: string, whisperLanguage?: string): string[] {
+    return [
+      '-m', this.options.modelPath,
+      '-f', input,
+      '-l', whisperLanguage ?? 'auto',
+      '-t', String(this.options.threads),
+      '-bs', String(this.options.beamSize),
+      this.options.outputFormat === 'json' ? '-oj' : '-osrt',
+      '-of', outputPrefix,
+      // -np would also silence the log line reporting the detected language
+      ...(whisperLanguage ? ['-np'] : [])
+    ];
+  }
+  
+  /**
+   * Run the binary to completion, failing on a non-zero exit or the timeout;
+   * resolves with the language whisper.cpp detected, if it logged one
+   */
+  private run(args: string[]): Promise<DetectedLanguage | undefined> {
+    const binary = this.options.binaryPath;
+    this.logger.debug(`Running ${binary} ${args.join(' ')}`);
+    
+    return new Promise((resolve, reject) => {
+      const child = spawn(binary, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+      let stderr = '';
+      let detected: DetectedLanguage | undefined;
+      
+      const timeout = setTimeout(() => {
+        child.kill('SIGKILL');
+        reject(ErrorHandler.createSpeechServiceError(`whisper.cpp timed out after ${this.options.timeoutMs}ms`, {
+          binary
+        }));
+      }, this.options.timeoutMs);
+      
+      child.stderr?.on('data', (data: Buffer) => {
+        // Keep the tail, which holds the error if the run fails
+        stderr = (stderr + data.toString()).slice(-4000);
+        
+        const match = detected ? null : DETECTED_LANGUAGE_PATTERN.exec(stderr);
+        if (match) {
+          detected = { language: match[1], probability: Math.round(parseFloat(match[2]) * 1000) / 1000 };
+        }
+      });
+      
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        clearTimeout(timeout);
+        reject(ErrorHandler.createSpeechServiceError(
+          error.code === 'ENOENT' ? `whisper.cpp binary not found: ${binary}` : `Failed to run ${binary}`,
+          { error: error.message }
+        ));
+      });
+      
+      child.on('close', (code, signal) => {
+        clearTimeout(timeout);
+        
+        if (code === 0) {
+          resolve(detected);
+        } else if (signal !== 'SIGKILL') {
+          reject(ErrorHandler.createSpeechServiceError(`whisper.cpp exited with code ${code}`, {
+            binary,
+            signal,
+            stderr: stderr.trim().split('\n').slice(-5).join('\n')
+          }));
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Segments of the file written by `-oj`; with token probabilities
+ * (`-ojf` builds) confidence is their mean
+ */
+export function parseWhisperCppJson(output: string): TranscriptionSegment[] {
+  let parsed: WhisperCppJson;
+  try {
+    parsed = JSON.parse(output);
+  } catch (error) {
+    throw ErrorHandler.createSpeechServiceError('Failed to parse whisper.cpp JSON output', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+  
+  return (parsed.transcription ?? []).map(entry => {
+    // Special tokens such as [_BEG_] carry no text worth scoring
+    const probabilities = (entry.tokens ?? [])
+      .filter(token => token.p !== undefined && !/^\[_.*_\]$/.test(token.text))
+      .map(token => token.p!);
+      
+    return {
+      text: entry.text.trim(),
+      start: entry.offsets.from / 1000,
+      end: entry.offsets.to / 1000,
+      confidence: averageConfidence(probabilities, 1)
+    };
+  });
+}
+
+/**
+ * Segments of an SRT file (`-osrt`)
+ */
+export function parseSrt(output: string): TranscriptionSegment[] {
+  const segments: TranscriptionSegment[] = [];
+  
+  for (const block of output.replace(/\r/g, '').split(/\n\s*\n/)) {
+    const lines = block.trim().split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex < 0) {
+      continue;
+    }
+    
+    const [from, to] = lines[timingIndex].split('-->').map(time => parseSrtTime(time.trim()));
+    segments.push({
+      text: lines.slice(timingIndex + 1).map(line => line.trim()).filter(line => line.length > 0).join(' '),
+      start: from,
+      end: to,
+      confidence: 1
+    });
+  }
+  
+  return segments;
+}
+
+/**
+ * Seconds of an SRT timestamp, e.g. 00:01:02,345
+ */
+function parseSrtTime(time: string): number {
+  const match = /^(\d+):(\d{2}):(\d{2})[,.](\d{1,3})$/.exec(time);
+  if (!match) {
+    throw ErrorHandler.createSpeechServiceError(`Invalid SRT timestamp: ${time}`);
+  }
+  
+  const [, hours, minutes, seconds, millis] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis.padEnd(3, '0')) / 1000;
+}
@@ -0,0 +1,44 @@
+/**
+ * Whisper Languages
+ * 
+ * The languages Whisper models know, by the ISO-639-1 (or ISO-639-3 where
+ * there is none) code Whisper uses, with the name the OpenAI API reports a
+ * detected language by.
+ */
+
+export const WHISPER_LANGUAGES: Record<string, string> = {
+  en: 'english', zh: 'chinese', de: 'german', es: 'spanish', ru: 'russian',
+  ko: 'korean', fr: 'french', ja: 'japanese', pt: 'portuguese', tr: 'turkish',
+  pl: 'polish', ca: 'catalan', nl: 'dutch', ar: 'arabic', sv: 'swedish',
+  it: 'italian', id: 'indonesian', hi: 'hindi', fi: 'finnish', vi: 'vietnamese',
+  he: 'hebrew', uk: 'ukrainian', el: 'greek', ms: 'malay', cs: 'czech',
+  ro: 'romanian', da: 'danish', hu: 'hungarian', ta: 'tamil', no: 'norwegian',
+  th: 'thai', ur: 'urdu', hr: 'croatian', bg: 'bulgarian', lt: 'lithuanian',
+  la: 'latin', mi: 'maori', ml: 'malayalam', cy: 'welsh', sk: 'slovak',
+  te: 'telugu', fa: 'persian', lv: 'latvian', bn: 'bengali', sr: 'serbian',
+  az: 'azerbaijani', sl: 'slovenian', kn: 'kannada', et: 'estonian', mk: 'macedonian',
+  br: 'breton', eu: 'basque', is: 'icelandic', hy: 'armenian', ne: 'nepali',
+  mn: 'mongolian', bs: 'bosnian', kk: 'kazakh', sq: 'albanian', sw: 'swahili',
+  gl: 'galician', mr: 'marathi', pa: 'punjabi', si: 'sinhala', km: 'khmer',
+  sn: 'shona', yo: 'yoruba', so: 'somali', af: 'afrikaans', oc: 'occitan',
+  ka: 'georgian', be: 'belarusian', tg: 'tajik', sd: 'sindhi', gu: 'gujarati',
+  am: 'amharic', yi: 'yiddish', lo: 'lao', uz: 'uzbek', fo: 'faroese',
+  ht: 'haitian creole', ps: 'pashto', tk: 'turkmen', nn: 'nynorsk', mt: 'maltese',
+  sa: 'sanskrit', lb: 'luxembourgish', my: 'myanmar', bo: 'tibetan', tl: 'tagalog',
+  mg: 'malagasy', as: 'assamese', tt: 'tatar', haw: 'hawaiian', ln: 'lingala',
+  ha: 'hausa', ba: 'bashkir', jw: 'javanese', su: 'sundanese', yue: 'cantonese'
+};
+
+/**
+ * Code of a language reported by name ("spanish") or by code ("es"), as
+ * self-hosted servers do
+ */
+export function fromWhisperLanguage(language: string): string {
+  const normalized = language.trim().toLowerCase();
+  
+  if (normalized in WHISPER_LANGUAGES) {
+    return normalized;
+  }
+  
+  return Object.keys(WHISPER_LANGUAGES).find(code => WHISPER_LANGUAGES[code] === normalized) ?? normalized;
+}
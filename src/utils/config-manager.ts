@@ -8,33 +8,218 @@
 import { z } from 'zod';
 import dotenv from 'dotenv';
 import path from 'path';
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { Logger } from './logger.js';
+import { ErrorHandler } from './error-handler.js';
+
+// Ordered DSP chain applied between format conversion and segmentation
+export const PreprocessingProfileSchema = z.object({
+  stages: z.array(z.enum(['highPass', 'noiseSuppression', 'agc', 'normalize']))
+    .default(['highPass', 'noiseSuppression', 'agc', 'normalize']),
+  highPass: z.object({
+    enabled: z.boolean().default(true),
+    cutoffHz: z.number().min(10).max(500).default(80)
+  }).default({}),
+  noiseSuppression: z.object({
+    enabled: z.boolean().default(false),
+    overSubtraction: z.number().min(1).max(6).default(2),
+    spectralFloor: z.number().min(0).max(1).default(0.1),
+    noiseAdaptation: z.number().min(0.5).max(0.999).default(0.98)
+  }).default({}),
+  agc: z.object({
+    enabled: z.boolean().default(false),
+    targetDb: z.number().min(-40).max(-3).default(-20),
+    maxGainDb: z.number().min(0).max(40).default(24),
+    attackMs: z.number().min(1).max(1000).default(20),
+    releaseMs: z.number().min(10).max(5000).default(400),
+    gateDb: z.number().min(-90).max(-20).default(-60)
+  }).default({}),
+  normalize: z.object({
+    enabled: z.boolean().default(false),
+    peakDb: z.number().min(-20).max(0).default(-1),
+    maxGainDb: z.number().min(0).max(40).default(12),
+    releaseMs: z.number().min(10).max(10000).default(2000)
+  }).default({})
+});
+
+// Per-device settings, e.g. VAD thresholds from calibrateMicrophone
+const DeviceProfileSchema = z.object({
+  vad: z.object({
+    energyThreshold: z.number().min(0).max(1).optional(),
+    silenceThreshold: z.number().min(0).max(1).optional(),
+    snrThresholdDb: z.number().min(0).max(40).optional()
+  }).optional(),
+  // Name of the preprocessing profile to use for this device
+  preprocessing: z.string().optional(),
+  calibration: z.object({
+    noiseFloorDb: z.number(),
+    speechLevelDb: z.number(),
+    snrDb: z.number(),
+    calibratedAt: z.string()
+  }).optional()
+});
 
 // Configuration schema
 const AudioConfigSchema = z.object({
   sampleRate: z.number().min(8000).max(96000).default(44100),
   channels: z.number().min(1).max(2).default(1),
   bufferSizeMs: z.number().min(10).max(1000).default(100),
-  deviceId: z.string().optional()
+  deviceId: z.string().optional(),
+  backend: z.string().default('native'),
+  resampleQuality: z.enum(['low', 'medium', 'high']).default('medium'),
+  historySeconds: z.number().min(1).max(1800).default(30),
+  // Capture started with the server, so recent speech can be transcribed after the fact
+  rollingBuffer: z.object({
+    enabled: z.boolean().default(false),
+    deviceId: z.string().optional()
+  }).default({}),
+  vad: z.object({
+    type: z.enum(['energy', 'spectral']).default('energy'),
+    energyThreshold: z.number().min(0).max(1).default(0.01),
+    silenceThreshold: z.number().min(0).max(1).default(0.005),
+    minSpeechDuration: z.number().min(0).max(5000).default(300),
+    minSilenceDuration: z.number().min(0).max(5000).default(500),
+    spectral: z.object({
+      speechThreshold: z.number().min(0).max(1).default(0.5),
+      snrThresholdDb: z.number().min(0).max(40).default(6),
+      flatnessThreshold: z.number().min(0).max(1).default(0.5),
+      noiseAdaptation: z.number().min(0).max(1).default(0.95)
+    }).default({})
+  }).default({}),
+  preprocessing: z.object({
+    profile: z.string().default('default'),
+    profiles: z.record(PreprocessingProfileSchema).default({})
+  }).default({}),
+  segmentation: z.object({
+    frameMs: z.number().min(10).max(100).default(30),
+    preRollMs: z.number().min(0).max(2000).default(500),
+    postRollMs: z.number().min(0).max(5000).default(300),
+    maxUtteranceMs: z.number().min(1000).max(120000).default(30000),
+    minUtteranceMs: z.number().min(0).max(5000).default(200)
+  }).default({}),
+  wav: z.object({
+    path: z.string().optional(),
+    loop: z.boolean().default(false)
+  }).optional(),
+  pcm: z.object({
+    source: z.string().default('command'),
+    path: z.string().optional(),
+    command: z.string().optional(),
+    args: z.array(z.string()).default([]),
+    format: z.enum(['s16le', 's24le', 's32le', 'f32le']).default('s16le'),
+    sampleRate: z.number().min(8000).max(192000).default(16000),
+    channels: z.number().min(1).max(8).default(1)
+  }).optional(),
+  recording: z.object({
+    directory: z.string().default('recordings'),
+    format: z.enum(['wav', 'flac']).default('wav'),
+    bitsPerSample: z.union([z.literal(16), z.literal(24)]).default(16)
+  }).default({}),
+  deviceProfiles: z.record(DeviceProfileSchema).default({})
+});
+
+// Options of the built-in speech providers; the top-level speech sections
+// below are the options of the providers of the same name
+export const OpenAIConfigSchema = z.object({
+  apiKey: z.string().optional(),
+  model: z.string().default('whisper-1'),
+  // OpenAI-compatible server (e.g. faster-whisper-server, LocalAI); setting
+  // it enables the API without an API key
+  baseUrl: z.string().url().optional(),
+  responseFormat: z.enum(['json', 'verbose_json']).default('verbose_json'),
+  timeoutMs: z.number().min(1000).max(600000).default(60000)
+});
+
+export const WhisperCppConfigSchema = z.object({
+  binaryPath: z.string().default('whisper-cli'),
+  // A model name resolves to ggml-<model>.bin in modelDirectory
+  model: z.string().default('base.en'),
+  modelDirectory: z.string().default('models'),
+  // Explicit model file, overriding model and modelDirectory
+  modelPath: z.string().optional(),
+  threads: z.number().int().min(1).max(64).default(4),
+  beamSize: z.number().int().min(1).max(16).default(5),
+  outputFormat: z.enum(['json', 'srt']).default('json'),
+  timeoutMs: z.number().min(1000).max(3600000).default(300000)
+});
+
+export const AzureConfigSchema = z.object({
+  subscriptionKey: z.string().optional(),
+  region: z.string().optional(),
+  // Custom domain or stand-in server, replacing the regional hosts
+  endpoint: z.string().url().optional(),
+  language: z.string().default('en-US'),
+  // 'auto' sends audio over 60 seconds to fast transcription and shorter
+  // audio to the short-audio endpoint with detailed output
+  mode: z.enum(['auto', 'short', 'fast']).default('auto'),
+  profanity: z.enum(['masked', 'removed', 'raw']).default('masked'),
+  timeoutMs: z.number().min(1000).max(600000).default(60000)
+});
+
+export const GoogleConfigSchema = z.object({
+  // Service account key JSON, used to mint OAuth tokens
+  keyFilename: z.string().optional(),
+  projectId: z.string().optional(),
+  language: z.string().default('en-US'),
+  // API and token endpoints, e.g. a local stand-in server for testing;
+  // the token endpoint defaults to the key file's token_uri
+  endpoint: z.string().url().optional(),
+  tokenUrl: z.string().url().optional(),
+  // 'auto' sends audio over 60 seconds to longrunningrecognize
+  mode: z.enum(['auto', 'sync', 'longrunning']).default('auto'),
+  model: z.string().optional(),
+  maxAlternatives: z.number().int().min(1).max(30).default(3),
+  profanityFilter: z.boolean().default(false),
+  timeoutMs: z.number().min(1000).max(3600000).default(300000),
+  pollIntervalMs: z.number().min(100).max(60000).default(2000)
+});
+
+// A speech provider instance; options are checked against the schema its
+// type registers
+const SpeechProviderConfigSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9][A-Za-z0-9_.-]*$/),
+  type: z.string(),
+  enabled: z.boolean().default(true),
+  options: z.record(z.unknown()).default({})
 });
 
 const SpeechConfigSchema = z.object({
-  defaultService: z.enum(['whisper', 'azure', 'google']).default('whisper'),
-  openai: z.object({
-    apiKey: z.string().optional(),
-    model: z.string().default('whisper-1')
-  }).optional(),
-  azure: z.object({
-    subscriptionKey: z.string().optional(),
-    region: z.string().optional(),
-    language: z.string().default('en-US')
-  }).optional(),
-  google: z.object({
-    keyFilename: z.string().optional(),
-    projectId: z.string().optional(),
-    language: z.string().default('en-US')
-  }).optional()
+  // Provider used when a request names none
+  defaultService: z.string().default('whisper'),
+  // Language used when a request names none; 'auto' identifies it
+  defaultLanguage: z.string().default('en-US'),
+  // Languages 'auto' picks from when a request gives none; providers that
+  // only identify among candidates (Azure, Google) need at least one
+  languageDetection: z.object({
+    candidates: z.array(z.string()).default([])
+  }).default({}),
+  // Without a list, one provider per built-in type is created from the
+  // sections below
+  providers: z.array(SpeechProviderConfigSchema).optional(),
+  // Providers tried in order when the requested one fails or its circuit is
+  // open; empty means no fallback, so audio never reaches a provider that
+  // was not asked for
+  fallback: z.object({
+    order: z.array(z.string()).default([]),
+    // Consecutive failures that open a provider's circuit
+    failureThreshold: z.number().int().min(1).max(100).default(3),
+    // Time before an open circuit lets a probe request through
+    cooldownMs: z.number().min(1000).max(3600000).default(30000)
+  }).default({}),
+  // Interim results while an utterance is still being spoken, for
+  // continuous transcription; providers without native streaming re-decode
+  // the utterance every intervalMs, which costs a request each time
+  streaming: z.object({
+    partialResults: z.boolean().default(false),
+    intervalMs: z.number().min(250).max(10000).default(1000)
+  }).default({}),
+  openai: OpenAIConfigSchema.optional(),
+  // Where Whisper runs: 'local' never sends audio off the machine, 'auto'
+  // uses the API when a key or base URL is configured and whisper.cpp otherwise
+  whisperBackend: z.enum(['auto', 'api', 'local']).default('auto'),
+  whisperCpp: WhisperCppConfigSchema.default({}),
+  azure: AzureConfigSchema.optional(),
+  google: GoogleConfigSchema.optional()
 });
 
 const ServerConfigSchema = z.object({
@@ -50,10 +235,14 @@ export const ConfigSchema = z.object({
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
+export type DeviceProfile = z.infer<typeof DeviceProfileSchema>;
+export type PreprocessingProfile = z.infer<typeof PreprocessingProfileSchema>;
+export type SpeechProviderConfig = z.infer<typeof SpeechProviderConfigSchema>;
 
 export class ConfigManager {
   private static instance: ConfigManager;
   private config: Config | null = null;
+  private configPath = '';
   private logger: Logger;
   
   private constructor() {
@@ -77,6 +266,7 @@ export class ConfigManager {
       
       // Try to load config file
       const configPath = process.env.CONFIG_PATH || path.join(process.cwd(), 'config.json');
+      this.configPath = configPath;
       let fileConfig = {};
       
       if (existsSync(configPath)) {
@@ -96,23 +286,88 @@ export class ConfigManager {
           channels: parseInt(process.env.AUDIO_CHANNELS || '') || 1,
           bufferSizeMs: parseInt(process.env.AUDIO_BUFFER_SIZE_MS || '') || 100,
           deviceId: process.env.AUDIO_DEVICE_ID,
+          backend: process.env.AUDIO_BACKEND || 'native',
+          resampleQuality: process.env.AUDIO_RESAMPLE_QUALITY || 'medium',
+          historySeconds: parseInt(process.env.AUDIO_HISTORY_SECONDS || '') || 30,
+          vad: {
+            type: process.env.AUDIO_VAD_TYPE || 'energy'
+          },
+          rollingBuffer: {
+            enabled: process.env.AUDIO_ROLLING_BUFFER === 'true',
+            deviceId: process.env.AUDIO_ROLLING_BUFFER_DEVICE
+          },
+          preprocessing: {
+            profile: process.env.AUDIO_PREPROCESSING_PROFILE || 'default'
+          },
+          wav: {
+            path: process.env.AUDIO_WAV_PATH,
+            loop: process.env.AUDIO_WAV_LOOP === 'true'
+          },
+          pcm: {
+            source: process.env.AUDIO_PCM_SOURCE || 'command',
+            path: process.env.AUDIO_PCM_PIPE,
+            command: process.env.AUDIO_PCM_COMMAND,
+            args: process.env.AUDIO_PCM_ARGS ? process.env.AUDIO_PCM_ARGS.split(' ').filter(Boolean) : [],
+            format: process.env.AUDIO_PCM_FORMAT || 's16le',
+            sampleRate: parseInt(process.env.AUDIO_PCM_SAMPLE_RATE || '') || 16000,
+            channels: parseInt(process.env.AUDIO_PCM_CHANNELS || '') || 1
+          },
+          recording: {
+            directory: process.env.AUDIO_RECORDING_DIR || 'recordings',
+            format: process.env.AUDIO_RECORDING_FORMAT || 'wav'
+          },
           ...((fileConfig as any)?.audio || {})
         },
         speech: {
           defaultService: process.env.DEFAULT_SPEECH_SERVICE || 'whisper',
+          defaultLanguage: process.env.DEFAULT_SPEECH_LANGUAGE || 'en-US',
+          languageDetection: {
+            candidates: (process.env.SPEECH_LANGUAGE_CANDIDATES || '').split(',').map(code => code.trim()).filter(code => code.length > 0)
+          },
+          fallback: {
+            order: (process.env.SPEECH_FALLBACK || '').split(',').map(name => name.trim()).filter(name => name.length > 0),
+            failureThreshold: parseInt(process.env.SPEECH_FALLBACK_FAILURE_THRESHOLD || '') || 3,
+            cooldownMs: parseInt(process.env.SPEECH_FALLBACK_COOLDOWN_MS || '') || 30000
+          },
+          streaming: {
+            partialResults: process.env.SPEECH_PARTIAL_RESULTS === 'true',
+            intervalMs: parseInt(process.env.SPEECH_PARTIAL_INTERVAL_MS || '') || 1000
+          },
           openai: {
             apiKey: process.env.OPENAI_API_KEY,
-            model: process.env.OPENAI_MODEL || 'whisper-1'
+            model: process.env.OPENAI_MODEL || 'whisper-1',
+            baseUrl: process.env.OPENAI_BASE_URL,
+            responseFormat: process.env.OPENAI_RESPONSE_FORMAT || 'verbose_json',
+            timeoutMs: parseInt(process.env.OPENAI_TIMEOUT_MS || '') || 60000
+          },
+          whisperBackend: process.env.WHISPER_BACKEND || 'auto',
+          whisperCpp: {
+            binaryPath: process.env.WHISPER_CPP_BINARY || 'whisper-cli',
+            model: process.env.WHISPER_CPP_MODEL || 'base.en',
+            modelDirectory: process.env.WHISPER_CPP_MODEL_DIR || 'models',
+            modelPath: process.env.WHISPER_CPP_MODEL_PATH,
+            threads: parseInt(process.env.WHISPER_CPP_THREADS || '') || 4,
+            beamSize: parseInt(process.env.WHISPER_CPP_BEAM_SIZE || '') || 5,
+            outputFormat: process.env.WHISPER_CPP_OUTPUT_FORMAT || 'json'
           },
           azure: {
             subscriptionKey: process.env.AZURE_SPEECH_KEY,
             region: process.env.AZURE_SPEECH_REGION,
-            language: process.env.AZURE_SPEECH_LANGUAGE || 'en-US'
+            endpoint: process.env.AZURE_SPEECH_ENDPOINT,
+            language: process.env.AZURE_SPEECH_LANGUAGE || 'en-US',
+            mode: process.env.AZURE_SPEECH_MODE || 'auto',
+            profanity: process.env.AZURE_SPEECH_PROFANITY || 'masked',
+            timeoutMs: parseInt(process.env.AZURE_SPEECH_TIMEOUT_MS || '') || 60000
           },
           google: {
             keyFilename: process.env.GOOGLE_APPLICATION_CREDENTIALS,
             projectId: process.env.GOOGLE_CLOUD_PROJECT,
-            language: process.env.GOOGLE_SPEECH_LANGUAGE || 'en-US'
+            language: process.env.GOOGLE_SPEECH_LANGUAGE || 'en-US',
+            endpoint: process.env.GOOGLE_SPEECH_ENDPOINT,
+            tokenUrl: process.env.GOOGLE_TOKEN_URL,
+            mode: process.env.GOOGLE_SPEECH_MODE || 'auto',
+            model: process.env.GOOGLE_SPEECH_MODEL,
+            timeoutMs: parseInt(process.env.GOOGLE_SPEECH_TIMEOUT_MS || '') || 300000
           },
           ...((fileConfig as any)?.speech || {})
         },
@@ -184,43 +439,48 @@ export class ConfigManager {
   }
   
   /**
-   * Validate speech service configuration
+   * Get the profile stored for a device, if any
    */
-  public validateSpeechServiceConfig(service: string): boolean {
-    const speechConfig = this.getSpeechConfig();
-    
-    switch (service) {
-      case 'whisper':
-        return true; // Whisper can work locally without API key
-        
-      case 'azure':
-        return !!(speechConfig.azure?.subscriptionKey && speechConfig.azure?.region);
-        
-      case 'google':
-        return !!(speechConfig.google?.keyFilename || speechConfig.google?.projectId);
-        
-      default:
-        return false;
-    }
+  public getDeviceProfile(deviceId: string): DeviceProfile | undefined {
+    return this.getAudioConfig().deviceProfiles[deviceId];
   }
   
   /**
-   * Get available speech services
+   * Merge settings into a device profile and persist them to the config
+   * file; settings the update leaves out, such as preprocessing, are kept
    */
-  public getAvailableSpeechServices(): string[] {
-    const services: string[] = [];
-    
-    // Whisper is always available
-    services.push('whisper');
-    
-    if (this.validateSpeechServiceConfig('azure')) {
-      services.push('azure');
-    }
+  public saveDeviceProfile(deviceId: string, profile: DeviceProfile): void {
+    const audioConfig = this.getAudioConfig();
+    this.updateConfig({
+      audio: {
+        ...audioConfig,
+        deviceProfiles: {
+          ...audioConfig.deviceProfiles,
+          [deviceId]: { ...audioConfig.deviceProfiles[deviceId], ...profile }
+        }
+      }
+    });
     
-    if (this.validateSpeechServiceConfig('google')) {
-      services.push('google');
+    try {
+      // Merge into the file as written, so env-derived values are not persisted
+      const fileConfig = existsSync(this.configPath)
+        ? JSON.parse(readFileSync(this.configPath, 'utf8'))
+        : {};
+        
+      fileConfig.audio = {
+        ...fileConfig.audio,
+        deviceProfiles: {
+          ...fileConfig.audio?.deviceProfiles,
+          [deviceId]: { ...fileConfig.audio?.deviceProfiles?.[deviceId], ...profile }
+        }
+      };
+      
+      writeFileSync(this.configPath, JSON.stringify(fileConfig, null, 2) + '\n');
+      this.logger.info(`Saved profile for device ${deviceId} to ${this.configPath}`);
+      
+    } catch (error) {
+      this.logger.error(`Failed to save profile for device ${deviceId}`, error);
+      throw ErrorHandler.createConfigError(`Failed to write config file ${this.configPath}: ${error}`, { deviceId });
     }
-    
-    return services;
   }
 }
@@ -18,6 +18,7 @@ export class AudioErrorCodes {
   static readonly DEVICE_ACCESS_DENIED = 'DEVICE_ACCESS_DENIED';
   static readonly AUDIO_CAPTURE_FAILED = 'AUDIO_CAPTURE_FAILED';
   static readonly SPEECH_SERVICE_ERROR = 'SPEECH_SERVICE_ERROR';
+  static readonly UNSUPPORTED_LANGUAGE = 'UNSUPPORTED_LANGUAGE';
   static readonly CONFIGURATION_ERROR = 'CONFIGURATION_ERROR';
   static readonly NETWORK_ERROR = 'NETWORK_ERROR';
   static readonly BUFFER_OVERFLOW = 'BUFFER_OVERFLOW';
@@ -141,6 +142,15 @@ export class ErrorHandler {
     );
   }
   
+  public static createLanguageError(message: string, details?: any): AudioMCPError {
+    return new AudioMCPError(
+      AudioErrorCodes.UNSUPPORTED_LANGUAGE,
+      message,
+      details,
+      true // Another service may support the language
+    );
+  }
+  
   public static createConfigError(message: string, details?: any): AudioMCPError {
     return new AudioMCPError(
       AudioErrorCodes.CONFIGURATION_ERROR,
@@ -240,7 +250,7 @@ export class ErrorHandler {
   }
 }
 
-// Start periodic cleanup
+// Start periodic cleanup; it must not keep the process alive on its own
 setInterval(() => {
   ErrorHandler.cleanupErrorTracking();
-}, 5 * 60 * 1000); // Every 5 minutes
+}, 5 * 60 * 1000).unref(); // Every 5 minutes
@@ -0,0 +1,17 @@
+/**
+ * Keep the logger quiet and away from the logs/ directory during tests
+ */
+
+import { jest } from '@jest/globals';
+
+jest.mock('../src/utils/logger', () => {
+  const silent = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined,
+    setLevel: () => undefined
+  };
+  
+  return { Logger: { getInstance: () => silent } };
+});
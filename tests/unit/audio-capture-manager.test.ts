@@ -0,0 +1,107 @@
+import { describe, it, expect, jest, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { AudioCaptureManager } from '../../src/audio-module/audio-capture-manager';
+import { encodeWav } from '../../src/audio-module/wav-format';
+import { ConfigManager } from '../../src/utils/config-manager';
+import { AudioErrorCodes } from '../../src/utils/error-handler';
+
+// The compiled addon: one instance whatever the device
+jest.mock('../../build/Release/audio_capture.node', () => ({
+  initialize: () => true,
+  startCapture: () => true,
+  stopCapture: () => true,
+  getDevices: () => [],
+  cleanup: () => true,
+  setAudioCallback: () => {}
+}), { virtual: true });
+
+const CAPTURE = { sampleRate: 16000, channels: 1, bufferSizeMs: 10 };
+
+describe('AudioCaptureManager devices', () => {
+  let directory: string;
+  let config: ConfigManager;
+  let manager: AudioCaptureManager;
+  
+  beforeAll(async () => {
+    directory = mkdtempSync(path.join(tmpdir(), 'capture-manager-'));
+    writeFileSync(
+      path.join(directory, 'tone.wav'),
+      encodeWav(new Float32Array(1600).fill(0.25), { sampleRate: 16000, channels: 1 })
+    );
+    writeFileSync(path.join(directory, 'notes.txt'), 'not audio');
+    writeFileSync(path.join(directory, 'audio.pcm'), Buffer.alloc(3200));
+    
+    process.env.CONFIG_PATH = path.join(directory, 'config.json');
+    config = ConfigManager.getInstance();
+    await config.load();
+  });
+  
+  afterAll(() => {
+    delete process.env.CONFIG_PATH;
+    rmSync(directory, { recursive: true, force: true });
+  });
+  
+  beforeEach(() => {
+    config.updateConfig({
+      audio: {
+        ...config.getAudioConfig(),
+        wav: { path: directory, loop: false },
+        pcm: { ...config.getAudioConfig().pcm!, source: 'command', path: path.join(directory, 'audio.pcm') },
+        deviceProfiles: {}
+      }
+    });
+    manager = new AudioCaptureManager();
+  });
+  
+  afterEach(async () => {
+    await manager.cleanup();
+  });
+  
+  it('captures WAV files inside audio.wav.path', async () => {
+    const session = await manager.startCapture({ ...CAPTURE, deviceId: `wav:${path.join(directory, 'tone.wav')}` });
+    
+    expect(session.isActive()).toBe(true);
+  });
+  
+  it('rejects WAV paths the configuration does not name', async () => {
+    for (const deviceId of ['wav:/etc/passwd', `wav:${path.join(directory, 'notes.txt')}`, `wav:${directory}/../x.wav`]) {
+      await expect(manager.startCapture({ ...CAPTURE, deviceId }))
+        .rejects.toMatchObject({ code: AudioErrorCodes.CONFIGURATION_ERROR, message: expect.stringContaining('is not configured') });
+    }
+  });
+  
+  it('captures WAV paths that have a device profile', async () => {
+    const deviceId = `wav:${path.join(directory, 'tone.wav')}`;
+    config.updateConfig({ audio: { ...config.getAudioConfig(), wav: { loop: false }, deviceProfiles: { [deviceId]: {} } } });
+    
+    const session = await manager.startCapture({ ...CAPTURE, deviceId });
+    
+    expect(session.isActive()).toBe(true);
+  });
+  
+  it('reads the PCM pipe named in audio.pcm.path', async () => {
+    const session = await manager.startCapture({ ...CAPTURE, deviceId: `pcm:pipe:${path.join(directory, 'audio.pcm')}` });
+    
+    expect(session.isActive()).toBe(true);
+  });
+  
+  it('rejects PCM pipes and stdin the configuration does not name', async () => {
+    for (const deviceId of ['pcm:pipe:/etc/passwd', 'pcm:stdin']) {
+      await expect(manager.startCapture({ ...CAPTURE, deviceId }))
+        .rejects.toMatchObject({ code: AudioErrorCodes.CONFIGURATION_ERROR, message: expect.stringContaining('is not configured') });
+    }
+  });
+  
+  it('captures one device at a time through the native addon', async () => {
+    const first = await manager.startCapture({ ...CAPTURE, deviceId: 'native:mic-1' });
+    
+    await expect(manager.startCapture({ ...CAPTURE, deviceId: 'native:mic-2' }))
+      .rejects.toMatchObject({ code: AudioErrorCodes.AUDIO_CAPTURE_FAILED, message: expect.stringContaining(first.id) });
+      
+    await manager.stopCapture(first.id);
+    const second = await manager.startCapture({ ...CAPTURE, deviceId: 'native:mic-2' });
+    expect(second.isActive()).toBe(true);
+  });
+});
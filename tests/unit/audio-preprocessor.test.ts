@@ -0,0 +1,121 @@
+import { describe, it, expect } from '@jest/globals';
+import { AudioPreprocessor, getBuiltInPreprocessingProfile } from '../../src/audio-module/audio-preprocessor';
+import { PreprocessingProfileSchema } from '../../src/utils/config-manager';
+
+const FORMAT = { sampleRate: 16000, channels: 1 };
+
+function tone(frequency: number, amplitude: number, seconds: number): Float32Array {
+  return Float32Array.from({ length: seconds * FORMAT.sampleRate }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / FORMAT.sampleRate));
+}
+
+function noise(rms: number, seconds: number): Float32Array {
+  let seed = 1;
+  return Float32Array.from({ length: seconds * FORMAT.sampleRate }, () => {
+    seed = (seed * 16807) % 2147483647;
+    return rms * Math.sqrt(3) * (2 * seed / 2147483647 - 1);
+  });
+}
+
+function rms(samples: Float32Array): number {
+  return Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+}
+
+function peak(samples: Float32Array): number {
+  return samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+}
+
+/**
+ * Run audio through a preprocessor in 30 ms blocks, as a capture session does
+ */
+function run(preprocessor: AudioPreprocessor, samples: Float32Array): Float32Array {
+  const output = new Float32Array(samples.length);
+  for (let offset = 0; offset < samples.length; offset += 480) {
+    output.set(preprocessor.process(samples.subarray(offset, offset + 480)), offset);
+  }
+  return output;
+}
+
+function only(stage: 'highPass' | 'noiseSuppression' | 'agc' | 'normalize'): AudioPreprocessor {
+  return new AudioPreprocessor(PreprocessingProfileSchema.parse({
+    stages: [stage],
+    [stage]: { enabled: true }
+  }), FORMAT);
+}
+
+describe('AudioPreprocessor', () => {
+  it.each([
+    ['off', []],
+    ['default', ['highPass']],
+    ['office', ['highPass', 'noiseSuppression', 'agc', 'normalize']]
+  ])('builds the %s profile', (name, stages) => {
+    expect(new AudioPreprocessor(getBuiltInPreprocessingProfile(name)!, FORMAT).getStageNames()).toEqual(stages);
+  });
+  
+  it('runs enabled stages in the order of the profile', () => {
+    const profile = PreprocessingProfileSchema.parse({
+      stages: ['normalize', 'highPass', 'agc'],
+      normalize: { enabled: true },
+      agc: { enabled: true }
+    });
+    
+    expect(new AudioPreprocessor(profile, FORMAT).getStageNames()).toEqual(['normalize', 'highPass', 'agc']);
+    expect(getBuiltInPreprocessingProfile('studio')).toBeUndefined();
+  });
+  
+  it('leaves the caller\'s samples alone', () => {
+    const samples = tone(440, 0.5, 0.1);
+    const copy = Float32Array.from(samples);
+    
+    const output = only('highPass').process(samples);
+    
+    expect(output).toHaveLength(samples.length);
+    expect(samples).toEqual(copy);
+  });
+  
+  it('removes DC offset and rumble but passes speech frequencies', () => {
+    const dc = run(only('highPass'), new Float32Array(FORMAT.sampleRate).fill(0.5));
+    expect(peak(dc.subarray(-1600))).toBeLessThan(0.001);
+    
+    const rumble = run(only('highPass'), tone(20, 0.5, 1));
+    // Two octaves under the 80 Hz cutoff: -24 dB
+    expect(rms(rumble.subarray(-8000))).toBeLessThan(0.1 * rms(tone(20, 0.5, 1)));
+    
+    const voice = run(only('highPass'), tone(1000, 0.5, 1));
+    expect(rms(voice.subarray(-8000))).toBeCloseTo(0.5 / Math.SQRT2, 2);
+  });
+  
+  it('suppresses steady noise but keeps a tone above it', () => {
+    const suppressor = only('noiseSuppression');
+    const background = noise(0.05, 2);
+    
+    const quiet = run(suppressor, background);
+    expect(rms(quiet.subarray(-8000))).toBeLessThan(0.3 * 0.05);
+    
+    const speech = tone(500, 0.3, 1);
+    const mixed = run(suppressor, speech.map((sample, i) => sample + background[i]));
+    expect(rms(mixed.subarray(-8000))).toBeCloseTo(rms(speech), 1);
+  });
+  
+  it('brings a quiet signal up to the AGC target', () => {
+    const target = Math.pow(10, -20 / 20);
+    
+    const quiet = run(only('agc'), tone(440, 0.02 * Math.SQRT2, 3));
+    
+    expect(20 * Math.log10(rms(quiet.subarray(-8000)) / target)).toBeCloseTo(0, 0);
+  });
+  
+  it('does not pump up a signal under the AGC gate', () => {
+    const hiss = tone(440, 0.0005, 1);
+    
+    expect(run(only('agc'), hiss)).toEqual(hiss);
+  });
+  
+  it('normalizes peaks to the target without exceeding it', () => {
+    const target = Math.pow(10, -1 / 20);
+    
+    const output = run(only('normalize'), tone(440, 0.5, 1));
+    
+    expect(peak(output)).toBeLessThanOrEqual(target + 1e-6);
+    expect(peak(output.subarray(-8000))).toBeCloseTo(target, 2);
+  });
+});
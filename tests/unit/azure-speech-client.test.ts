@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { AzureSpeechClient, AzureSpeechOptions } from '../../src/speech-recognition/azure-speech-client';
+import { parseWavHeader } from '../../src/audio-module/wav-format';
+import { AudioErrorCodes } from '../../src/utils/error-handler';
+
+const FORMAT = { sampleRate: 16000, channels: 1 };
+const AUDIO = new Float32Array(16000).fill(0.25);
+
+interface ReceivedRequest {
+  method: string;
+  url: URL;
+  headers: IncomingMessage['headers'];
+  body: Buffer;
+}
+
+/**
+ * Local stand-in for the Azure Speech hosts: records each request and
+ * answers with the status and body the test sets
+ */
+class StandInServer {
+  requests: ReceivedRequest[] = [];
+  status = 200;
+  body: unknown = {};
+  private server: Server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      this.requests.push({
+        method: request.method!,
+        url: new URL(request.url!, 'http://stand-in'),
+        headers: request.headers,
+        body: Buffer.concat(chunks)
+      });
+      response.writeHead(this.status, { 'Content-Type': 'application/json' });
+      response.end(typeof this.body === 'string' ? this.body : JSON.stringify(this.body));
+    });
+  });
+  
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+  
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+function readForm(request: ReceivedRequest): Promise<FormData> {
+  return new Response(request.body, { headers: { 'Content-Type': request.headers['content-type'] ?? '' } }).formData();
+}
+
+describe('AzureSpeechClient', () => {
+  let server: StandInServer;
+  let options: AzureSpeechOptions;
+  
+  beforeEach(async () => {
+    server = new StandInServer();
+    options = {
+      subscriptionKey: 'azure-key',
+      endpoint: `${await server.listen()}/`,
+      mode: 'auto',
+      profanity: 'masked',
+      timeoutMs: 5000
+    };
+  });
+  
+  afterEach(async () => {
+    await server.close();
+  });
+  
+  it('recognizes short audio with detailed output', async () => {
+    server.body = {
+      RecognitionStatus: 'Success',
+      Offset: 5_000_000,
+      Duration: 12_000_000,
+      DisplayText: 'Hello, world.',
+      NBest: [
+        {
+          Confidence: 0.92,
+          Lexical: 'hello world',
+          ITN: 'hello world',
+          MaskedITN: 'hello world',
+          Display: 'Hello, world.',
+          Words: [
+            { Word: 'hello', Offset: 5_000_000, Duration: 4_000_000, Confidence: 0.95 },
+            { Word: 'world', Offset: 10_000_000, Duration: 7_000_000 }
+          ]
+        },
+        { Confidence: 0.41, Lexical: 'hollow world', Display: 'Hollow world.' }
+      ]
+    };
+    
+    const result = await new AzureSpeechClient(options).transcribe(AUDIO, FORMAT, 'en-US');
+    
+    const [request] = server.requests;
+    expect(request.url.pathname).toBe('/speech/recognition/conversation/cognitiveservices/v1');
+    expect(Object.fromEntries(request.url.searchParams)).toEqual({
+      language: 'en-US',
+      format: 'detailed',
+      profanity: 'masked',
+      wordLevelTimestamps: 'true'
+    });
+    expect(request.headers).toMatchObject({
+      'ocp-apim-subscription-key': 'azure-key',
+      'content-type': 'audio/wav; codecs=audio/pcm; samplerate=16000'
+    });
+    expect(parseWavHeader(request.body)).toMatchObject({ sampleRate: 16000, channels: 1, dataLength: 32000 });
+    
+    expect(result).toEqual({
+      text: 'Hello, world.',
+      confidence: 0.92,
+      service: 'azure-speech',
+      timestamp: expect.any(Number),
+      language: 'en-US',
+      lexical: 'hello world',
+      segments: [{
+        text: 'Hello, world.',
+        start: 0.5,
+        end: 1.7,
+        confidence: 0.92,
+        lexical: 'hello world',
+        words: [
+          { text: 'hello', start: 0.5, end: 0.9, confidence: 0.95 },
+          { text: 'world', start: 1, end: 1.7 }
+        ]
+      }],
+      alternatives: [
+        { text: 'Hello, world.', lexical: 'hello world', confidence: 0.92 },
+        { text: 'Hollow world.', lexical: 'hollow world', confidence: 0.41 }
+      ]
+    });
+  });
+  
+  it('returns an empty result when no speech is recognized', async () => {
+    server.body = { RecognitionStatus: 'InitialSilenceTimeout', Offset: 0, Duration: 0 };
+    
+    const result = await new AzureSpeechClient(options).transcribe(AUDIO, FORMAT, 'en-US');
+    
+    expect(result).toMatchObject({ text: '', confidence: 0, language: 'en-US', segments: [] });
+  });
+  
+  it('identifies the language among candidates with fast transcription', async () => {
+    server.body = {
+      durationMilliseconds: 4000,
+      combinedPhrases: [{ text: 'Bonjour. Hello there.' }],
+      phrases: [
+        { offsetMilliseconds: 0, durationMilliseconds: 800, text: 'Bonjour.', confidence: 0.9, locale: 'fr-FR' },
+        {
+          offsetMilliseconds: 1000,
+          durationMilliseconds: 2500,
+          text: 'Hello there.',
+          confidence: 0.8,
+          locale: 'en-US',
+          words: [{ text: 'Hello', offsetMilliseconds: 1000, durationMilliseconds: 500 }]
+        }
+      ]
+    };
+    
+    const result = await new AzureSpeechClient({ ...options, profanity: 'raw' })
+      .transcribe(AUDIO, FORMAT, 'auto', ['en-US', 'fr-FR']);
+      
+    const [request] = server.requests;
+    expect(request.url.pathname).toBe('/speechtotext/transcriptions:transcribe');
+    expect(request.url.searchParams.get('api-version')).toBe('2024-11-15');
+    const form = await readForm(request);
+    expect(JSON.parse(form.get('definition') as string)).toEqual({ locales: ['en-US', 'fr-FR'], profanityFilterMode: 'None' });
+    expect(parseWavHeader(Buffer.from(await (form.get('audio') as File).arrayBuffer()))).toMatchObject({ dataLength: 32000 });
+    
+    expect(result).toMatchObject({ text: 'Bonjour. Hello there.', confidence: 0.85, language: 'en-US' });
+    expect(result.segments).toEqual([
+      { text: 'Bonjour.', start: 0, end: 0.8, confidence: 0.9, language: 'fr-FR' },
+      {
+        text: 'Hello there.',
+        start: 1,
+        end: 3.5,
+        confidence: 0.8,
+        language: 'en-US',
+        words: [{ text: 'Hello', start: 1, end: 1.5 }]
+      }
+    ]);
+  });
+  
+  it('sends audio over a minute to fast transcription', async () => {
+    server.body = { phrases: [{ offsetMilliseconds: 0, durationMilliseconds: 61000, text: 'Long talk' }] };
+    
+    const result = await new AzureSpeechClient(options).transcribe(new Float32Array(61 * 16000), FORMAT, 'en-US');
+    
+    expect(server.requests[0].url.pathname).toBe('/speechtotext/transcriptions:transcribe');
+    expect(result).toMatchObject({ text: 'Long talk', confidence: 1, language: 'en-US' });
+    expect(result.segments![0]).not.toHaveProperty('language');
+  });
+  
+  it('reports the error the service sends back', async () => {
+    server.status = 401;
+    server.body = 'Access denied due to invalid subscription key.';
+    
+    await expect(new AzureSpeechClient(options).transcribe(AUDIO, FORMAT, 'en-US')).rejects.toMatchObject({
+      code: AudioErrorCodes.SPEECH_SERVICE_ERROR,
+      message: expect.stringContaining('failed with status 401'),
+      details: { status: 401, error: 'Access denied due to invalid subscription key.' }
+    });
+    
+    server.status = 422;
+    server.body = { error: { code: 'InvalidArgument', message: 'Unsupported locale xx-XX' } };
+    await expect(new AzureSpeechClient({ ...options, mode: 'fast' }).transcribe(AUDIO, FORMAT, 'xx-XX')).rejects.toMatchObject({
+      details: { status: 422, error: 'Unsupported locale xx-XX' }
+    });
+  });
+  
+  it('needs candidates for auto, and a region or endpoint', async () => {
+    await expect(new AzureSpeechClient(options).transcribe(AUDIO, FORMAT, 'auto')).rejects.toThrow('needs candidate locales');
+    
+    const { endpoint, ...withoutEndpoint } = options;
+    await expect(new AzureSpeechClient(withoutEndpoint).transcribe(AUDIO, FORMAT, 'en-US')).rejects.toMatchObject({
+      code: AudioErrorCodes.CONFIGURATION_ERROR
+    });
+    expect(server.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { CaptureSession } from '../../src/audio-module/capture-session';
+import { NativeAudioModule } from '../../src/audio-module/audio-capture-manager';
+import { ConfigManager } from '../../src/utils/config-manager';
+
+const CAPTURE = { deviceId: 'test', sampleRate: 16000, channels: 1, bufferSizeMs: 100 };
+
+/**
+ * A backend that delivers nothing by itself; tests feed the session directly
+ */
+const backend: NativeAudioModule = {
+  initialize: () => true,
+  startCapture: () => true,
+  stopCapture: () => true,
+  getDevices: () => [],
+  cleanup: () => true,
+  setAudioCallback: () => {}
+};
+
+/**
+ * Deliver frames of quiet Float32 audio as the backend would
+ */
+function feed(session: CaptureSession, frames: number): void {
+  session.onAudioData(Buffer.from(new Float32Array(frames).fill(0.01).buffer));
+}
+
+describe('CaptureSession', () => {
+  let directory: string;
+  let session: CaptureSession;
+  
+  beforeAll(async () => {
+    directory = mkdtempSync(path.join(tmpdir(), 'capture-session-'));
+    process.env.CONFIG_PATH = path.join(directory, 'config.json');
+    await ConfigManager.getInstance().load();
+  });
+  
+  afterAll(() => {
+    delete process.env.CONFIG_PATH;
+    rmSync(directory, { recursive: true, force: true });
+  });
+  
+  beforeEach(() => {
+    session = new CaptureSession('session_1', CAPTURE, backend);
+    session.start();
+  });
+  
+  afterEach(() => {
+    session.stop();
+  });
+  
+  describe('getAudioStream', () => {
+    it('detaches a cancelled stream from the session', async () => {
+      const before = session.listenerCount('audioChunk');
+      const stream = session.getAudioStream();
+      expect(session.listenerCount('audioChunk')).toBe(before + 1);
+      
+      await stream.cancel();
+      
+      expect(session.listenerCount('audioChunk')).toBe(before);
+      expect(session.listenerCount('captureStopped')).toBe(0);
+    });
+    
+    it('detaches and closes every stream when the session stops', async () => {
+      const before = session.listenerCount('audioChunk');
+      const readers = [session.getAudioStream(), session.getAudioStream()].map(stream => stream.getReader());
+      
+      session.stop();
+      
+      expect(session.listenerCount('audioChunk')).toBe(before);
+      expect(session.listenerCount('captureStopped')).toBe(0);
+      for (const reader of readers) {
+        await expect(reader.read()).resolves.toMatchObject({ done: true });
+      }
+    });
+  });
+  
+  describe('getAudioLevels', () => {
+    it('reports the latest voice activity decision', () => {
+      expect(session.getAudioLevels().vad).toBeNull();
+      
+      feed(session, 4800);
+      session.pause();
+      
+      expect(session.getAudioLevels().vad).toMatchObject({ isSpeech: false, timestamp: 270 });
+    });
+  });
+  
+  describe('pause and resume', () => {
+    it('records a gap at the processed position and discards audio fed while paused', () => {
+      feed(session, 4800);
+      const paused = session.pause();
+      
+      expect(paused).toEqual({ atSample: 4800, pausedAt: expect.any(String) });
+      expect(session.isPaused()).toBe(true);
+      expect(session.getAudioLevels().status).toBe('paused');
+      
+      feed(session, 4800);
+      const resumed = session.resume();
+      feed(session, 4800);
+      
+      expect(resumed).toEqual({
+        atSample: 4800,
+        pausedAt: paused.pausedAt,
+        resumedAt: expect.any(String),
+        durationMs: expect.any(Number)
+      });
+      expect(session.getInfo()).toMatchObject({
+        paused: false,
+        gaps: [resumed],
+        timeline: {
+          position: 9600,
+          anchors: [{ atSample: 0, reason: 'start' }, { atSample: 4800, reason: 'pause' }]
+        }
+      });
+    });
+    
+    it('closes a gap still open when the session stops', () => {
+      session.pause();
+      session.stop();
+      
+      expect(session.isPaused()).toBe(false);
+      expect(session.getGaps()).toEqual([expect.objectContaining({ resumedAt: expect.any(String) })]);
+    });
+    
+    it('rejects pausing twice and resuming a running session', () => {
+      expect(() => session.resume()).toThrow('is not paused');
+      
+      session.pause();
+      expect(() => session.pause()).toThrow('is already paused');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import { CaptureTimeline } from '../../src/audio-module/capture-timeline';
+
+// One frame per millisecond keeps the arithmetic readable
+const SAMPLE_RATE = 1000;
+
+describe('CaptureTimeline', () => {
+  it('anchors frame 0 on the arrival of the first audio', () => {
+    const timeline = new CaptureTimeline(SAMPLE_RATE);
+    timeline.start(1000);
+    
+    // Provisional until audio arrives
+    expect(timeline.toWallClock(50)).toBe(1050);
+    
+    timeline.receive(0, 1100);
+    timeline.receive(100, 1200);
+    
+    expect(timeline.getPosition()).toBe(100);
+    expect(timeline.toWallClock(0)).toBe(1100);
+    expect(timeline.toWallClock(50)).toBe(1150);
+    expect(timeline.toSample(1150)).toBe(50);
+    expect(timeline.toSample(900)).toBe(0);
+    expect(timeline.getStatus().anchors).toEqual([
+      { atSample: 0, wallClock: new Date(1100).toISOString(), reason: 'start', gapMs: 0 }
+    ]);
+  });
+  
+  it('measures drift between received audio and the host clock', () => {
+    const timeline = new CaptureTimeline(SAMPLE_RATE);
+    timeline.start(1000);
+    timeline.receive(100, 1200);
+    
+    timeline.receive(100, 1310);
+    expect(timeline.getDriftMs()).toBe(10);
+    
+    // Reported to a tenth of a millisecond
+    timeline.receive(100, 1395.04);
+    expect(timeline.getStatus()).toMatchObject({ position: 300, driftMs: -5, maxDriftMs: 10 });
+  });
+  
+  it('re-anchors after a pause and maps times inside the gap to the frame after it', () => {
+    const timeline = new CaptureTimeline(SAMPLE_RATE);
+    timeline.start(1000);
+    timeline.receive(300, 1400);
+    
+    timeline.pause(300);
+    timeline.receive(100, 2000);
+    
+    expect(timeline.getStatus().anchors[1]).toEqual({
+      atSample: 300,
+      wallClock: new Date(1900).toISOString(),
+      reason: 'pause',
+      gapMs: 500
+    });
+    expect(timeline.toWallClock(250)).toBe(1350);
+    expect(timeline.toWallClock(350)).toBe(1950);
+    expect(timeline.toSample(1600)).toBe(300);
+    expect(timeline.toSample(1950)).toBe(350);
+    expect(timeline.getDriftMs()).toBe(0);
+  });
+  
+  it('drops anchors inside audio discarded by a pause', () => {
+    const timeline = new CaptureTimeline(SAMPLE_RATE);
+    timeline.start(1000);
+    timeline.receive(300, 1400);
+    timeline.pause(300);
+    timeline.receive(100, 2000);
+    
+    // Only the first 250 frames were kept
+    timeline.pause(250);
+    timeline.receive(50, 3000);
+    
+    expect(timeline.getPosition()).toBe(300);
+    expect(timeline.getStatus().anchors.map(({ atSample, reason, gapMs }) => ({ atSample, reason, gapMs }))).toEqual([
+      { atSample: 0, reason: 'start', gapMs: 0 },
+      { atSample: 250, reason: 'pause', gapMs: 1600 }
+    ]);
+  });
+  
+  it('counts dropped frames and re-anchors on the audio after an overflow', () => {
+    const timeline = new CaptureTimeline(SAMPLE_RATE);
+    timeline.start(0);
+    timeline.receive(100, 100);
+    
+    timeline.drop(100);
+    timeline.drop(50);
+    timeline.receive(100, 400);
+    
+    const status = timeline.getStatus();
+    expect(status).toMatchObject({ position: 200, droppedFrames: 150, driftMs: 0 });
+    expect(status.anchors[1]).toEqual({ atSample: 100, wallClock: new Date(300).toISOString(), reason: 'overflow', gapMs: 200 });
+    expect(timeline.toWallClock(150)).toBe(350);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ConfigManager } from '../../src/utils/config-manager';
+import { AudioErrorCodes } from '../../src/utils/error-handler';
+
+const CALIBRATION = {
+  vad: { energyThreshold: 0.02, silenceThreshold: 0.005 },
+  calibration: { noiseFloorDb: -60, speechLevelDb: -20, snrDb: 40, calibratedAt: '2024-01-01T00:00:00.000Z' }
+};
+
+describe('ConfigManager device profiles', () => {
+  let directory: string;
+  let configPath: string;
+  let config: ConfigManager;
+  
+  beforeAll(async () => {
+    directory = mkdtempSync(path.join(tmpdir(), 'config-manager-'));
+    configPath = path.join(directory, 'config.json');
+    writeFileSync(configPath, JSON.stringify({
+      audio: { deviceProfiles: { mic: { preprocessing: 'voice' } } }
+    }));
+    
+    process.env.CONFIG_PATH = configPath;
+    config = ConfigManager.getInstance();
+    await config.load();
+  });
+  
+  afterAll(() => {
+    delete process.env.CONFIG_PATH;
+    rmSync(directory, { recursive: true, force: true });
+  });
+  
+  it('merges a calibration into the existing profile', () => {
+    config.saveDeviceProfile('mic', CALIBRATION);
+    
+    expect(config.getDeviceProfile('mic')).toEqual({ preprocessing: 'voice', ...CALIBRATION });
+    expect(JSON.parse(readFileSync(configPath, 'utf8')).audio.deviceProfiles).toEqual({
+      mic: { preprocessing: 'voice', ...CALIBRATION }
+    });
+  });
+  
+  it('reports a config file it cannot write as a configuration error', () => {
+    (config as unknown as { configPath: string }).configPath = directory;
+    
+    expect(() => config.saveDeviceProfile('mic', CALIBRATION))
+      .toThrow(expect.objectContaining({ code: AudioErrorCodes.CONFIGURATION_ERROR }));
+      
+    (config as unknown as { configPath: string }).configPath = configPath;
+  });
+});
@@ -0,0 +1,339 @@
+import { describe, it, expect } from '@jest/globals';
+import { createHash } from 'crypto';
+import { FlacEncoder, FLAC_STREAMINFO_OFFSET } from '../../src/audio-module/flac-encoder';
+
+/**
+ * MSB-first bit reader over a FLAC stream
+ */
+class BitReader {
+  position = 0;
+  
+  constructor(private bytes: Buffer) {}
+  
+  read(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const bit = (this.bytes[this.position >> 3] >> (7 - (this.position & 7))) & 1;
+      value = value * 2 + bit;
+      this.position++;
+    }
+    return value;
+  }
+  
+  readSigned(count: number): number {
+    const value = this.read(count);
+    return value >= Math.pow(2, count - 1) ? value - Math.pow(2, count) : value;
+  }
+  
+  readUnary(): number {
+    let zeros = 0;
+    while (this.read(1) === 0) {
+      zeros++;
+    }
+    return zeros;
+  }
+  
+  align(): void {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+  
+  get byteOffset(): number {
+    return this.position >> 3;
+  }
+  
+  get done(): boolean {
+    return this.byteOffset >= this.bytes.length;
+  }
+}
+
+interface StreamInfo {
+  minBlockSize: number;
+  maxBlockSize: number;
+  minFrameSize: number;
+  maxFrameSize: number;
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  totalSamples: number;
+  md5: string;
+}
+
+interface DecodedFlac {
+  streamInfo: StreamInfo;
+  tags: Record<string, string>;
+  frameSizes: number[];
+  subframeTypes: Set<string>;
+  // Per channel
+  samples: number[][];
+}
+
+function crc(bytes: Buffer, width: 8 | 16, polynomial: number): number {
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  let value = 0;
+  for (const byte of bytes) {
+    value ^= byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & top ? ((value << 1) ^ polynomial) & mask : (value << 1) & mask;
+    }
+  }
+  return value;
+}
+
+function readStreamInfo(body: Buffer): StreamInfo {
+  const reader = new BitReader(body);
+  return {
+    minBlockSize: reader.read(16),
+    maxBlockSize: reader.read(16),
+    minFrameSize: reader.read(24),
+    maxFrameSize: reader.read(24),
+    sampleRate: reader.read(20),
+    channels: reader.read(3) + 1,
+    bitsPerSample: reader.read(5) + 1,
+    totalSamples: reader.read(36),
+    md5: body.subarray(18, 34).toString('hex')
+  };
+}
+
+function readVorbisComment(body: Buffer): Record<string, string> {
+  let offset = 4 + body.readUInt32LE(0);
+  const count = body.readUInt32LE(offset);
+  offset += 4;
+  
+  const tags: Record<string, string> = {};
+  for (let i = 0; i < count; i++) {
+    const length = body.readUInt32LE(offset);
+    const [key, ...value] = body.toString('utf8', offset + 4, offset + 4 + length).split('=');
+    tags[key] = value.join('=');
+    offset += 4 + length;
+  }
+  return tags;
+}
+
+/**
+ * Decoder for the subset of FLAC written by FlacEncoder (and a little more):
+ * fixed blocking, CONSTANT, VERBATIM and FIXED subframes, Rice partitions.
+ * Checks the frame CRCs as it goes.
+ */
+function decodeFlac(file: Buffer): DecodedFlac {
+  expect(file.toString('ascii', 0, 4)).toBe('fLaC');
+  
+  let offset = 4;
+  let streamInfo: StreamInfo | null = null;
+  let tags: Record<string, string> = {};
+  for (let last = false; !last;) {
+    last = (file[offset] & 0x80) !== 0;
+    const type = file[offset] & 0x7f;
+    const length = file.readUIntBE(offset + 1, 3);
+    const body = file.subarray(offset + 4, offset + 4 + length);
+    if (type === 0) {
+      streamInfo = readStreamInfo(body);
+    } else if (type === 4) {
+      tags = readVorbisComment(body);
+    }
+    offset += 4 + length;
+  }
+  
+  const info = streamInfo!;
+  const samples: number[][] = Array.from({ length: info.channels }, () => []);
+  const frameSizes: number[] = [];
+  const subframeTypes = new Set<string>();
+  const reader = new BitReader(file);
+  reader.position = offset * 8;
+  
+  while (!reader.done) {
+    const frameStart = reader.byteOffset;
+    expect(reader.read(15)).toBe(0x7ffc);
+    expect(reader.read(1)).toBe(0);
+    
+    const blockSizeCode = reader.read(4);
+    expect(reader.read(4)).toBe(0);
+    const channels = reader.read(4) + 1;
+    const bitsPerSample = { 1: 8, 2: 12, 4: 16, 5: 20, 6: 24 }[reader.read(3)]!;
+    reader.read(1);
+    
+    // Frame number, UTF-8 style
+    const first = reader.read(8);
+    for (let extra = Math.clz32(~(first << 24)) - 1; extra > 0; extra--) {
+      reader.read(8);
+    }
+    
+    const blockSize = blockSizeCode === 6 ? reader.read(8) + 1 : blockSizeCode === 7 ? reader.read(16) + 1 : NaN;
+    const crc8 = crc(file.subarray(frameStart, reader.byteOffset), 8, 0x07);
+    expect(reader.read(8)).toBe(crc8);
+    expect(channels).toBe(info.channels);
+    expect(bitsPerSample).toBe(info.bitsPerSample);
+    
+    for (let ch = 0; ch < channels; ch++) {
+      samples[ch].push(...decodeSubframe(reader, blockSize, bitsPerSample, subframeTypes));
+    }
+    
+    reader.align();
+    const crc16 = crc(file.subarray(frameStart, reader.byteOffset), 16, 0x8005);
+    expect(reader.read(16)).toBe(crc16);
+    frameSizes.push(reader.byteOffset - frameStart);
+  }
+  
+  return { streamInfo: info, tags, frameSizes, subframeTypes, samples };
+}
+
+function decodeSubframe(reader: BitReader, blockSize: number, bitsPerSample: number, types: Set<string>): number[] {
+  expect(reader.read(1)).toBe(0);
+  const type = reader.read(6);
+  expect(reader.read(1)).toBe(0);
+  
+  if (type === 0) {
+    types.add('constant');
+    return new Array(blockSize).fill(reader.readSigned(bitsPerSample));
+  }
+  
+  if (type === 1) {
+    types.add('verbatim');
+    return Array.from({ length: blockSize }, () => reader.readSigned(bitsPerSample));
+  }
+  
+  expect(type & 0b111000).toBe(0b001000);
+  const order = type & 0b111;
+  types.add(`fixed${order}`);
+  
+  const output = Array.from({ length: order }, () => reader.readSigned(bitsPerSample));
+  
+  const method = reader.read(2);
+  const parameterBits = method === 0 ? 4 : 5;
+  const partitions = Math.pow(2, reader.read(4));
+  for (let partition = 0; partition < partitions; partition++) {
+    const parameter = reader.read(parameterBits);
+    const count = blockSize / partitions - (partition === 0 ? order : 0);
+    for (let i = 0; i < count; i++) {
+      const folded = reader.readUnary() * Math.pow(2, parameter) + reader.read(parameter);
+      const residual = folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2;
+      const n = output.length;
+      const prediction = [
+        0,
+        output[n - 1],
+        2 * output[n - 1] - output[n - 2],
+        3 * output[n - 1] - 3 * output[n - 2] + output[n - 3],
+        4 * output[n - 1] - 6 * output[n - 2] + 4 * output[n - 3] - output[n - 4]
+      ][order];
+      output.push(prediction + residual);
+    }
+  }
+  
+  return output;
+}
+
+/**
+ * The integer samples the encoder quantizes Float32 input to
+ */
+function quantize(samples: Float32Array, bitsPerSample: number): number[] {
+  const scale = Math.pow(2, bitsPerSample - 1);
+  // `|| 0` turns the -0 of rounding tiny negative samples into 0
+  return Array.from(samples, sample => Math.max(-scale, Math.min(scale - 1, Math.round(sample * scale) || 0)));
+}
+
+function deinterleave(samples: number[], channels: number): number[][] {
+  return Array.from({ length: channels }, (_, ch) => samples.filter((_, i) => i % channels === ch));
+}
+
+function md5(samples: number[], bitsPerSample: number): string {
+  const bytes = bitsPerSample / 8;
+  const raw = Buffer.alloc(samples.length * bytes);
+  samples.forEach((sample, i) => raw.writeIntLE(sample, i * bytes, bytes));
+  return createHash('md5').update(raw).digest('hex');
+}
+
+/**
+ * Stereo test signal: a tone on the left, silence on the right, then
+ * full-scale noise on both
+ */
+function signal(frames: number, noiseFrom: number): Float32Array {
+  const samples = new Float32Array(frames * 2);
+  let seed = 1;
+  for (let i = 0; i < frames; i++) {
+    if (i < noiseFrom) {
+      samples[i * 2] = 0.5 * Math.sin((2 * Math.PI * 440 * i) / 16000);
+    } else {
+      for (let ch = 0; ch < 2; ch++) {
+        seed = (seed * 16807) % 2147483647;
+        samples[i * 2 + ch] = 2 * seed / 2147483647 - 1;
+      }
+    }
+  }
+  return samples;
+}
+
+/**
+ * Encode in uneven pieces, as a capture delivers them
+ */
+function encode(encoder: FlacEncoder, samples: Float32Array, piece: number): Buffer {
+  const frames: Buffer[] = [];
+  for (let offset = 0; offset < samples.length; offset += piece) {
+    frames.push(encoder.encode(samples.subarray(offset, offset + piece)));
+  }
+  frames.push(encoder.flush());
+  
+  const file = Buffer.concat([encoder.getHeader(), ...frames]);
+  encoder.getStreamInfo().copy(file, FLAC_STREAMINFO_OFFSET);
+  return file;
+}
+
+describe('FlacEncoder', () => {
+  it.each([16, 24] as const)('round-trips %i-bit audio losslessly', (bitsPerSample) => {
+    const samples = signal(5000, 3000);
+    const encoder = new FlacEncoder({ sampleRate: 16000, channels: 2, bitsPerSample, blockSize: 1024 });
+    
+    const decoded = decodeFlac(encode(encoder, samples, 998));
+    
+    const expected = quantize(samples, bitsPerSample);
+    expect(decoded.samples).toEqual(deinterleave(expected, 2));
+    // Silence, noise and the tone each take their own kind of subframe
+    expect(Array.from(decoded.subframeTypes)).toEqual(expect.arrayContaining([
+      'constant', 'verbatim', expect.stringMatching(/^fixed[1-4]$/)
+    ]));
+  });
+  
+  it('completes STREAMINFO with the totals, frame sizes and MD5', () => {
+    const samples = signal(5000, 3000);
+    const encoder = new FlacEncoder({ sampleRate: 16000, channels: 2, bitsPerSample: 16, blockSize: 1024 });
+    
+    const { streamInfo, frameSizes } = decodeFlac(encode(encoder, samples, 998));
+    
+    expect(streamInfo).toEqual({
+      minBlockSize: 1024,
+      maxBlockSize: 1024,
+      minFrameSize: Math.min(...frameSizes),
+      maxFrameSize: Math.max(...frameSizes),
+      sampleRate: 16000,
+      channels: 2,
+      bitsPerSample: 16,
+      totalSamples: 5000,
+      md5: md5(quantize(samples, 16), 16)
+    });
+    // Four full blocks and the rest
+    expect(frameSizes).toHaveLength(5);
+  });
+  
+  it('leaves the totals and MD5 unset until audio is encoded', () => {
+    const encoder = new FlacEncoder({ sampleRate: 48000, channels: 1, bitsPerSample: 24 });
+    
+    expect(readStreamInfo(encoder.getStreamInfo())).toMatchObject({
+      minBlockSize: 4096,
+      sampleRate: 48000,
+      channels: 1,
+      bitsPerSample: 24,
+      totalSamples: 0,
+      md5: '0'.repeat(32)
+    });
+  });
+  
+  it('writes non-empty tags as Vorbis comments', () => {
+    const encoder = new FlacEncoder({
+      sampleRate: 16000,
+      channels: 1,
+      bitsPerSample: 16,
+      tags: { TITLE: 'Stand-up = daily', DATE: '2024-01-01', COMMENT: '' }
+    });
+    
+    expect(decodeFlac(encoder.getHeader()).tags).toEqual({ TITLE: 'Stand-up = daily', DATE: '2024-01-01' });
+  });
+});
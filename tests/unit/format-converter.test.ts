@@ -0,0 +1,137 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  FormatConverter,
+  Resampler,
+  SampleFormat,
+  convertAudio,
+  decodeSamples,
+  encodeSamples,
+  mixChannels
+} from '../../src/audio-module/format-converter';
+
+function tone(frequency: number, sampleRate: number, frames: number, amplitude = 0.5): Float32Array {
+  return Float32Array.from({ length: frames }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+}
+
+function rms(samples: Float32Array): number {
+  return Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+}
+
+function concat(blocks: Float32Array[]): Float32Array {
+  const output = new Float32Array(blocks.reduce((sum, block) => sum + block.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    output.set(block, offset);
+    offset += block.length;
+  }
+  return output;
+}
+
+describe('sample formats', () => {
+  const samples = Float32Array.from([0, 0.5, -0.5, 0.999, -1]);
+  
+  it.each<[SampleFormat, number, number]>([
+    ['PCM16', 2, 1 / 32768],
+    ['PCM24', 3, 1 / 8388608],
+    ['PCM32', 4, 1e-7],
+    ['Float32', 4, 0]
+  ])('round-trips %s', (format, bytesPerSample, tolerance) => {
+    const encoded = encodeSamples(samples, format);
+    expect(encoded).toHaveLength(samples.length * bytesPerSample);
+    
+    const decoded = decodeSamples(encoded, format);
+    decoded.forEach((sample, i) => expect(Math.abs(sample - samples[i])).toBeLessThanOrEqual(tolerance));
+  });
+  
+  it('clips out-of-range samples to full scale', () => {
+    const decoded = decodeSamples(encodeSamples(Float32Array.from([2, -2]), 'PCM16'), 'PCM16');
+    expect(Array.from(decoded)).toEqual([32767 / 32768, -1]);
+  });
+});
+
+describe('mixChannels', () => {
+  it('averages channels when downmixing', () => {
+    expect(Array.from(mixChannels(Float32Array.from([0.2, 0.4, -1, 1]), 2, 1))).toEqual([
+      expect.closeTo(0.3), 0
+    ]);
+  });
+  
+  it('repeats channels when upmixing', () => {
+    expect(Array.from(mixChannels(Float32Array.from([0.25, -0.5]), 1, 2))).toEqual([0.25, 0.25, -0.5, -0.5]);
+  });
+});
+
+describe('Resampler', () => {
+  it('passes audio through when the rates match', () => {
+    const samples = tone(440, 16000, 160);
+    expect(new Resampler(16000, 16000, 1).process(samples)).toBe(samples);
+  });
+  
+  it.each(['low', 'medium', 'high'] as const)('keeps the length and level of a tone at %s quality', (quality) => {
+    const output = convertAudio(tone(440, 48000, 48000), { sampleRate: 48000, channels: 1 }, { sampleRate: 16000, channels: 1 }, quality);
+    
+    expect(Math.abs(output.length - 16000)).toBeLessThanOrEqual(2);
+    expect(rms(output.subarray(100, -100))).toBeCloseTo(0.5 / Math.SQRT2, 2);
+  });
+  
+  it('filters out frequencies above the new Nyquist rate when downsampling', () => {
+    const output = convertAudio(tone(12000, 48000, 48000), { sampleRate: 48000, channels: 1 }, { sampleRate: 16000, channels: 1 }, 'high');
+    
+    expect(rms(output.subarray(100, -100))).toBeLessThan(0.01);
+  });
+  
+  it('gives the same output whatever the block sizes', () => {
+    const input = tone(1000, 44100, 4410);
+    const whole = new Resampler(44100, 16000, 1);
+    const expected = concat([whole.process(input), whole.flush()]);
+    
+    const blocks = new Resampler(44100, 16000, 1);
+    const output: Float32Array[] = [];
+    for (let offset = 0; offset < input.length; offset += 333) {
+      output.push(blocks.process(input.subarray(offset, offset + 333)));
+    }
+    output.push(blocks.flush());
+    
+    // Rounding of the read position can move the last flushed sample
+    const actual = concat(output);
+    expect(Math.abs(actual.length - expected.length)).toBeLessThanOrEqual(1);
+    for (let i = 0; i < Math.min(actual.length, expected.length); i++) {
+      expect(actual[i]).toBeCloseTo(expected[i], 5);
+    }
+  });
+});
+
+describe('FormatConverter', () => {
+  const INPUT = { sampleFormat: 'PCM16' as const, sampleRate: 32000, channels: 2 };
+  const OUTPUT = { sampleRate: 16000, channels: 1 };
+  
+  it('converts interleaved PCM to canonical Float32', () => {
+    const stereo = mixChannels(tone(440, 32000, 3200), 1, 2);
+    const converter = new FormatConverter(INPUT, OUTPUT);
+    
+    const output = converter.convert(encodeSamples(stereo, 'PCM16'));
+    
+    // The resampler holds back its kernel's look-ahead
+    expect(output.length).toBeGreaterThan(1580);
+    expect(output.length).toBeLessThanOrEqual(1600);
+    expect(rms(output.subarray(100))).toBeCloseTo(0.5 / Math.SQRT2, 2);
+  });
+  
+  it('carries partial frames over to the next block', () => {
+    const bytes = encodeSamples(mixChannels(tone(440, 32000, 3200), 1, 2), 'PCM16');
+    const expected = new FormatConverter(INPUT, OUTPUT).convert(bytes);
+    
+    const converter = new FormatConverter(INPUT, OUTPUT);
+    const output: Float32Array[] = [];
+    for (let offset = 0; offset < bytes.length; offset += 1001) {
+      output.push(converter.convert(bytes.subarray(offset, offset + 1001)));
+    }
+    
+    expect(Array.from(concat(output))).toEqual(Array.from(expected).map(sample => expect.closeTo(sample, 5)));
+  });
+  
+  it('rejects unknown sample formats', () => {
+    expect(() => new FormatConverter({ ...INPUT, sampleFormat: 'PCM8' as SampleFormat }, OUTPUT))
+      .toThrow('Unsupported sample format: PCM8');
+  });
+});
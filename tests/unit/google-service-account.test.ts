@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createVerify, generateKeyPairSync } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  CLOUD_PLATFORM_SCOPE,
+  GoogleServiceAccountAuth,
+  ServiceAccountKey,
+  signJwt
+} from '../../src/speech-recognition/google-service-account';
+import { AudioErrorCodes } from '../../src/utils/error-handler';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+const KEY: ServiceAccountKey = {
+  type: 'service_account',
+  project_id: 'meeting-notes',
+  private_key_id: 'key-1',
+  private_key: privateKey,
+  client_email: 'transcriber@meeting-notes.iam.gserviceaccount.com'
+};
+
+/**
+ * Header and claims of a JWT, after checking its RS256 signature
+ */
+function verifyJwt(jwt: string): { header: Record<string, unknown>; claims: Record<string, unknown> } {
+  const [header, claims, signature] = jwt.split('.');
+  const valid = createVerify('RSA-SHA256').update(`${header}.${claims}`).verify(publicKey, signature, 'base64url');
+  expect(valid).toBe(true);
+  
+  return {
+    header: JSON.parse(Buffer.from(header, 'base64url').toString()),
+    claims: JSON.parse(Buffer.from(claims, 'base64url').toString())
+  };
+}
+
+/**
+ * Local stand-in for the OAuth token endpoint: records each form it is
+ * posted and answers with the status and body the test sets
+ */
+class StandInTokenServer {
+  forms: URLSearchParams[] = [];
+  status = 200;
+  body: unknown = { access_token: 'token-1', expires_in: 3600, token_type: 'Bearer' };
+  private server: Server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      this.forms.push(new URLSearchParams(Buffer.concat(chunks).toString()));
+      response.writeHead(this.status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(this.body));
+    });
+  });
+  
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/token`;
+  }
+  
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+describe('signJwt', () => {
+  it('signs the service account assertion with RS256', () => {
+    const now = Date.UTC(2024, 0, 1);
+    
+    // Claim times are whole seconds
+    const { header, claims } = verifyJwt(signJwt(KEY, CLOUD_PLATFORM_SCOPE, 'https://oauth2.googleapis.com/token', now + 999));
+    
+    expect(header).toEqual({ alg: 'RS256', typ: 'JWT', kid: 'key-1' });
+    expect(claims).toEqual({
+      iss: KEY.client_email,
+      scope: 'https://www.googleapis.com/auth/cloud-platform',
+      aud: 'https://oauth2.googleapis.com/token',
+      iat: now / 1000,
+      exp: now / 1000 + 3600
+    });
+  });
+  
+  it('rejects a key it cannot sign with', () => {
+    expect(() => signJwt({ ...KEY, private_key: 'not a key' }, CLOUD_PLATFORM_SCOPE, 'aud')).toThrow(
+      expect.objectContaining({ code: AudioErrorCodes.CONFIGURATION_ERROR })
+    );
+  });
+});
+
+describe('GoogleServiceAccountAuth', () => {
+  let directory: string;
+  let keyFilename: string;
+  let server: StandInTokenServer;
+  let tokenUrl: string;
+  
+  beforeAll(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'google-service-account-'));
+    keyFilename = path.join(directory, 'key.json');
+    writeFileSync(keyFilename, JSON.stringify(KEY));
+  });
+  
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+  
+  beforeEach(async () => {
+    server = new StandInTokenServer();
+    tokenUrl = await server.listen();
+  });
+  
+  afterEach(async () => {
+    await server.close();
+  });
+  
+  it('exchanges a signed assertion for an access token and caches it', async () => {
+    const auth = new GoogleServiceAccountAuth({ keyFilename, tokenUrl });
+    
+    const tokens = await Promise.all([auth.getAccessToken(), auth.getAccessToken()]);
+    expect(tokens).toEqual(['token-1', 'token-1']);
+    expect(await auth.getAccessToken()).toBe('token-1');
+    
+    expect(server.forms).toHaveLength(1);
+    const [form] = server.forms;
+    expect(form.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:jwt-bearer');
+    expect(verifyJwt(form.get('assertion')!).claims).toMatchObject({ iss: KEY.client_email, aud: tokenUrl });
+  });
+  
+  it('mints a new token when the cached one is about to expire', async () => {
+    server.body = { access_token: 'short-lived', expires_in: 30 };
+    const auth = new GoogleServiceAccountAuth({ keyFilename, tokenUrl });
+    expect(await auth.getAccessToken()).toBe('short-lived');
+    
+    server.body = { access_token: 'token-2', expires_in: 3600 };
+    expect(await auth.getAccessToken()).toBe('token-2');
+    expect(server.forms).toHaveLength(2);
+  });
+  
+  it('uses the token_uri of the key file when no token URL is configured', async () => {
+    const withTokenUri = path.join(directory, 'with-token-uri.json');
+    writeFileSync(withTokenUri, JSON.stringify({ ...KEY, token_uri: tokenUrl }));
+    
+    expect(await new GoogleServiceAccountAuth({ keyFilename: withTokenUri, scope: 'custom' }).getAccessToken()).toBe('token-1');
+    expect(verifyJwt(server.forms[0].get('assertion')!).claims).toMatchObject({ aud: tokenUrl, scope: 'custom' });
+  });
+  
+  it('reports the error the token endpoint sends back', async () => {
+    server.status = 400;
+    server.body = { error: 'invalid_grant', error_description: 'Invalid JWT Signature.' };
+    
+    await expect(new GoogleServiceAccountAuth({ keyFilename, tokenUrl }).getAccessToken()).rejects.toMatchObject({
+      code: AudioErrorCodes.SPEECH_SERVICE_ERROR,
+      details: { status: 400, error: expect.stringContaining('Invalid JWT Signature.') }
+    });
+  });
+  
+  it('rejects key files that are missing or not service account keys', async () => {
+    await expect(new GoogleServiceAccountAuth({ keyFilename: path.join(directory, 'missing.json') }).loadKey()).rejects.toMatchObject({
+      code: AudioErrorCodes.CONFIGURATION_ERROR,
+      message: expect.stringContaining('Failed to read Google service account key')
+    });
+    
+    const userCredentials = path.join(directory, 'user.json');
+    writeFileSync(userCredentials, JSON.stringify({ type: 'authorized_user', client_id: 'id', refresh_token: 'token' }));
+    await expect(new GoogleServiceAccountAuth({ keyFilename: userCredentials }).loadKey()).rejects.toMatchObject({
+      code: AudioErrorCodes.CONFIGURATION_ERROR,
+      details: { type: 'authorized_user' }
+    });
+  });
+});
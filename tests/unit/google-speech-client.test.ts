@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { GoogleSpeechClient, GoogleSpeechOptions, parseDuration } from '../../src/speech-recognition/google-speech-client';
+import { GoogleServiceAccountAuth } from '../../src/speech-recognition/google-service-account';
+import { AudioErrorCodes } from '../../src/utils/error-handler';
+
+const FORMAT = { sampleRate: 16000, channels: 1 };
+const AUDIO = new Float32Array(16000).fill(0.25);
+
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+/**
+ * Local stand-in for the Speech-to-Text API: records each request and
+ * answers it with the reply the test sets for its path
+ */
+class StandInServer {
+  requests: ReceivedRequest[] = [];
+  replies: Record<string, Array<{ status?: number; body: unknown }>> = {};
+  private server: Server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      const text = Buffer.concat(chunks).toString();
+      this.requests.push({ method: request.method!, url: request.url!, headers: request.headers, body: text ? JSON.parse(text) : undefined });
+      
+      // The last reply for a path is repeated
+      const replies = this.replies[request.url!] ?? [{ status: 404, body: { error: { message: `No reply for ${request.url}` } } }];
+      const reply = replies.length > 1 ? replies.shift()! : replies[0];
+      response.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(reply.body));
+    });
+  });
+  
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+  
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+describe('GoogleSpeechClient', () => {
+  let server: StandInServer;
+  let options: GoogleSpeechOptions;
+  
+  beforeEach(async () => {
+    server = new StandInServer();
+    options = {
+      // The service account has its own tests
+      auth: { getAccessToken: async () => 'access-token' } as unknown as GoogleServiceAccountAuth,
+      endpoint: `${await server.listen()}/`,
+      mode: 'auto',
+      maxAlternatives: 2,
+      profanityFilter: false,
+      timeoutMs: 5000,
+      pollIntervalMs: 10
+    };
+  });
+  
+  afterEach(async () => {
+    await server.close();
+  });
+  
+  it('recognizes short audio inline, one segment per result', async () => {
+    server.replies['/v1/speech:recognize'] = [{
+      body: {
+        results: [
+          {
+            alternatives: [{
+              transcript: 'Hello there.',
+              confidence: 0.9,
+              words: [
+                { word: 'Hello', startTime: '0.200s', endTime: '0.600s', confidence: 0.95 },
+                { word: 'there.', startTime: '0.600s', endTime: '1.100s' }
+              ]
+            }],
+            resultEndTime: '1.200s',
+            languageCode: 'en-us'
+          },
+          { alternatives: [{ transcript: ' How are you? ', confidence: 0.7 }], resultEndTime: { seconds: '2', nanos: 500000000 } },
+          { alternatives: [] }
+        ]
+      }
+    }];
+    
+    const result = await new GoogleSpeechClient({ ...options, model: 'latest_short' }).transcribe(AUDIO, FORMAT, 'en-US');
+    
+    const [request] = server.requests;
+    expect(request).toMatchObject({ method: 'POST', url: '/v1/speech:recognize' });
+    expect(request.headers.authorization).toBe('Bearer access-token');
+    expect(request.body.config).toEqual({
+      encoding: 'LINEAR16',
+      sampleRateHertz: 16000,
+      audioChannelCount: 1,
+      languageCode: 'en-US',
+      maxAlternatives: 2,
+      profanityFilter: false,
+      enableWordTimeOffsets: true,
+      enableWordConfidence: true,
+      enableAutomaticPunctuation: true,
+      model: 'latest_short'
+    });
+    const pcm = Buffer.from(request.body.audio.content, 'base64');
+    expect(pcm).toHaveLength(32000);
+    expect(pcm.readInt16LE(0)).toBe(8192);
+    
+    expect(result).toEqual({
+      text: 'Hello there. How are you?',
+      confidence: 0.8,
+      service: 'google-speech',
+      timestamp: expect.any(Number),
+      language: 'en-us',
+      segments: [
+        {
+          text: 'Hello there.',
+          start: 0.2,
+          end: 1.2,
+          confidence: 0.9,
+          words: [
+            { text: 'Hello', start: 0.2, end: 0.6, confidence: 0.95 },
+            { text: 'there.', start: 0.6, end: 1.1 }
+          ]
+        },
+        // No words, so it starts where the previous result ended
+        { text: 'How are you?', start: 1.2, end: 2.5, confidence: 0.7 }
+      ]
+    });
+  });
+  
+  it('identifies the language among candidates and keeps the alternatives of a single result', async () => {
+    server.replies['/v1/speech:recognize'] = [{
+      body: {
+        results: [{
+          alternatives: [{ transcript: 'Bonjour à tous', confidence: 0.88 }, { transcript: 'Bonjour atout', confidence: 0.4 }],
+          resultEndTime: '1.5s',
+          languageCode: 'fr-fr'
+        }]
+      }
+    }];
+    
+    const result = await new GoogleSpeechClient(options).transcribe(AUDIO, FORMAT, 'auto', ['en-US', 'fr-FR', 'de-DE']);
+    
+    expect(server.requests[0].body.config).toMatchObject({ languageCode: 'en-US', alternativeLanguageCodes: ['fr-FR', 'de-DE'] });
+    expect(result).toMatchObject({
+      text: 'Bonjour à tous',
+      language: 'fr-FR',
+      segments: [{ text: 'Bonjour à tous', start: 0, end: 1.5, language: 'fr-FR' }],
+      alternatives: [{ text: 'Bonjour à tous', confidence: 0.88 }, { text: 'Bonjour atout', confidence: 0.4 }]
+    });
+  });
+  
+  it('polls a long-running operation until it is done', async () => {
+    server.replies['/v1/speech:longrunningrecognize'] = [{ body: { name: '42' } }];
+    server.replies['/v1/operations/42'] = [
+      { body: { name: '42', done: false } },
+      { body: { name: '42', done: true, response: { results: [{ alternatives: [{ transcript: 'Long talk', confidence: 0.6 }] }] } } }
+    ];
+    
+    const result = await new GoogleSpeechClient({ ...options, mode: 'longrunning' }).transcribe(AUDIO, FORMAT, 'en-US');
+    
+    expect(server.requests.map(request => `${request.method} ${request.url}`)).toEqual([
+      'POST /v1/speech:longrunningrecognize',
+      'GET /v1/operations/42',
+      'GET /v1/operations/42'
+    ]);
+    expect(result).toMatchObject({ text: 'Long talk', confidence: 0.6, language: 'en-US' });
+  });
+  
+  it('reports failed and unfinished operations', async () => {
+    server.replies['/v1/speech:longrunningrecognize'] = [{ body: { name: '7', done: true, error: { code: 3, message: 'Invalid audio' } } }];
+    await expect(new GoogleSpeechClient({ ...options, mode: 'longrunning' }).transcribe(AUDIO, FORMAT, 'en-US')).rejects.toMatchObject({
+      code: AudioErrorCodes.SPEECH_SERVICE_ERROR,
+      message: 'Google Speech operation failed: Invalid audio',
+      details: { operation: '7', code: 3 }
+    });
+    
+    server.replies['/v1/speech:longrunningrecognize'] = [{ body: { name: '8' } }];
+    server.replies['/v1/operations/8'] = [{ body: { name: '8', done: false } }];
+    await expect(
+      new GoogleSpeechClient({ ...options, mode: 'longrunning', timeoutMs: 100, pollIntervalMs: 40 }).transcribe(AUDIO, FORMAT, 'en-US')
+    ).rejects.toThrow('did not finish within 100ms');
+  });
+  
+  it('reports the error the API sends back', async () => {
+    server.replies['/v1/speech:recognize'] = [{
+      status: 400,
+      body: { error: { code: 400, message: 'Invalid recognition config: bad sample rate.', status: 'INVALID_ARGUMENT' } }
+    }];
+    
+    await expect(new GoogleSpeechClient(options).transcribe(AUDIO, FORMAT, 'en-US')).rejects.toMatchObject({
+      code: AudioErrorCodes.SPEECH_SERVICE_ERROR,
+      message: 'Google Speech request to /v1/speech:recognize failed with status 400',
+      details: { status: 400, error: 'Invalid recognition config: bad sample rate.' }
+    });
+  });
+  
+  it('needs between one and four candidates to identify the language', async () => {
+    const client = new GoogleSpeechClient(options);
+    
+    await expect(client.transcribe(AUDIO, FORMAT, 'auto')).rejects.toThrow('needs candidate languages');
+    await expect(client.transcribe(AUDIO, FORMAT, 'auto', ['en-US', 'fr-FR', 'de-DE', 'es-ES', 'it-IT'])).rejects.toMatchObject({
+      code: AudioErrorCodes.UNSUPPORTED_LANGUAGE
+    });
+    expect(server.requests).toHaveLength(0);
+  });
+});
+
+describe('parseDuration', () => {
+  it.each([
+    ['1.500s', 1.5],
+    ['3s', 3],
+    [{ seconds: '2', nanos: 250000000 }, 2.25],
+    [{ nanos: 5000000 }, 0.005],
+    [undefined, 0]
+  ])('reads %j as %d seconds', (duration, seconds) => {
+    expect(parseDuration(duration)).toBe(seconds);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from '@jest/globals';
+import { LanguageRegistry } from '../../src/speech-recognition/language-registry';
+import { SpeechProviderCapabilities } from '../../src/speech-recognition/speech-provider-registry';
+import { AZURE_SPEECH_LOCALES } from '../../src/speech-recognition/azure-speech-client';
+import { GOOGLE_SPEECH_LANGUAGES } from '../../src/speech-recognition/google-speech-client';
+import { WHISPER_LANGUAGES } from '../../src/speech-recognition/whisper-languages';
+import { AudioErrorCodes } from '../../src/utils/error-handler';
+
+function capabilities(languages: string[] | 'any', languageFormat: 'language' | 'locale'): SpeechProviderCapabilities {
+  return { streaming: false, wordTimestamps: false, languages, languageFormat, languageDetection: 'none', languageProbability: false, formats: [] };
+}
+
+const WHISPER = capabilities(Object.keys(WHISPER_LANGUAGES), 'language');
+const AZURE = capabilities(AZURE_SPEECH_LOCALES, 'locale');
+const GOOGLE = capabilities(GOOGLE_SPEECH_LANGUAGES, 'locale');
+
+describe('LanguageRegistry', () => {
+  const registry = new LanguageRegistry();
+  
+  it('parses codes into canonical form with a name', () => {
+    expect(registry.parse('en_us')).toMatchObject({ code: 'en-US', language: 'en', region: 'US', name: 'American English' });
+    expect(registry.parse('iw-il')).toMatchObject({ code: 'he-IL', language: 'he' });
+    expect(registry.parse('zh-Hant')).toMatchObject({ code: 'zh-Hant', script: 'Hant' });
+  });
+  
+  it('rejects invalid codes as language errors', () => {
+    for (const code of ['', 'not a language', 'xx-YY']) {
+      expect(() => registry.parse(code)).toThrow(expect.objectContaining({ code: AudioErrorCodes.UNSUPPORTED_LANGUAGE }));
+    }
+  });
+  
+  it('gives bare languages to providers that take them', () => {
+    expect(registry.toProvider('es-MX', 'whisper', WHISPER)).toBe('es');
+    expect(registry.toProvider('zh-Hant', 'whisper', WHISPER)).toBe('zh');
+    expect(registry.toProvider('nb-NO', 'whisper', WHISPER)).toBe('no');
+  });
+  
+  it('picks the default region of a bare language', () => {
+    expect(registry.toProvider('en', 'azure', AZURE)).toBe('en-US');
+    expect(registry.toProvider('es', 'google', GOOGLE)).toBe('es-ES');
+    expect(registry.toProvider('zh', 'google', GOOGLE)).toBe('cmn-Hans-CN');
+  });
+  
+  it('matches the script of a requested locale', () => {
+    expect(registry.toProvider('zh-Hant', 'azure', AZURE)).toBe('zh-TW');
+    expect(registry.toProvider('zh-Hant', 'google', GOOGLE)).toBe('cmn-Hant-TW');
+    expect(registry.toProvider('zh-Hans-HK', 'google', GOOGLE)).toBe('cmn-Hans-HK');
+    expect(registry.toProvider('sr-Cyrl', 'azure', AZURE)).toBe('sr-RS');
+  });
+  
+  it('rejects a script no locale of the provider is written in', () => {
+    for (const capabilitiesOf of [AZURE, GOOGLE]) {
+      expect(() => registry.toProvider('sr-Latn', 'provider', capabilitiesOf)).toThrow(expect.objectContaining({
+        code: AudioErrorCodes.UNSUPPORTED_LANGUAGE,
+        details: expect.objectContaining({ supported: ['sr-RS'] })
+      }));
+    }
+  });
+  
+  it('rejects languages and regions the provider does not list', () => {
+    expect(() => registry.toProvider('en-AQ', 'azure', AZURE)).toThrow(/it has .*en-US/);
+    expect(() => registry.toProvider('tlh', 'azure', AZURE)).toThrow(expect.objectContaining({
+      code: AudioErrorCodes.UNSUPPORTED_LANGUAGE
+    }));
+  });
+  
+  it('passes codes through to providers that take any language', () => {
+    expect(registry.toProvider('pt_br', 'any', capabilities('any', 'locale'))).toBe('pt-BR');
+    expect(registry.describe(capabilities('any', 'locale'))).toBe('any');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from '@jest/globals';
+import { LevelMeter, diagnoseLevels } from '../../src/audio-module/level-meter';
+
+const FRAME_MS = 100;
+
+/**
+ * One 100 ms frame of interleaved stereo at 1 kHz
+ */
+function stereo(left: (i: number) => number, right: (i: number) => number): Float32Array {
+  const frame = new Float32Array(200);
+  for (let i = 0; i < 100; i++) {
+    frame[i * 2] = left(i);
+    frame[i * 2 + 1] = right(i);
+  }
+  return frame;
+}
+
+describe('LevelMeter', () => {
+  it('meters RMS, peak and DC offset per channel', () => {
+    const meter = new LevelMeter(2, FRAME_MS);
+    
+    const levels = meter.process(stereo(i => (i % 2 ? 0.5 : -0.5), () => 0.1), 0);
+    
+    expect(levels.framesMetered).toBe(1);
+    expect(levels.channels[0]).toMatchObject({ rms: 0.5, rmsDb: -6, peak: 0.5, peakDb: -6, clippedSamples: 0, dcOffset: 0 });
+    expect(levels.channels[1]).toMatchObject({ rmsDb: -20, peakDb: -20, dcOffset: expect.closeTo(0.1) });
+  });
+  
+  it('counts clipped samples and remembers clipping for the window', () => {
+    const meter = new LevelMeter(1, FRAME_MS, 300);
+    const clipped = Float32Array.from({ length: 100 }, (_, i) => (i < 3 ? 1 : 0.2));
+    const quiet = new Float32Array(100).fill(0.2);
+    
+    expect(meter.process(clipped, 0).channels[0]).toMatchObject({ clippedSamples: 3, totalClippedSamples: 3, peakDb: 0 });
+    meter.process(quiet, 100);
+    meter.process(quiet, 200);
+    expect(meter.isClipping()).toBe(true);
+    
+    // Out of the three-frame window, but still in the capture totals
+    const levels = meter.process(quiet, 300);
+    expect(meter.isClipping()).toBe(false);
+    expect(levels.channels[0]).toMatchObject({ clippedSamples: 0, totalClippedSamples: 3, windowPeakDb: -14, maxPeakDb: 0 });
+    expect(meter.getLevels()).toBe(levels);
+  });
+});
+
+describe('diagnoseLevels', () => {
+  function levelsOf(frame: Float32Array, frames = 1): LevelMeter {
+    const meter = new LevelMeter(1, FRAME_MS);
+    for (let i = 0; i < frames; i++) {
+      meter.process(frame, i * FRAME_MS);
+    }
+    return meter;
+  }
+  
+  it.each([
+    ['noSignal', 'nothing was delivered yet', levelsOf(new Float32Array(100).fill(0.1)), null],
+    ['noSignal', 'the backend stalled', levelsOf(new Float32Array(100).fill(0.1)), 1.5],
+    ['digitalSilence', 'the audio is all zeros', levelsOf(new Float32Array(100)), 0.1],
+    ['clipping', 'samples hit full scale', levelsOf(new Float32Array(100).fill(1)), 0.1],
+    ['low', 'peaks stay under -30 dBFS', levelsOf(new Float32Array(100).fill(0.01)), 0.1],
+    ['ok', 'the level is healthy', levelsOf(new Float32Array(100).fill(0.2)), 0.1]
+  ] as const)('reports %s when %s', (status, _, meter, secondsSinceAudio) => {
+    expect(diagnoseLevels(meter.getLevels(), secondsSinceAudio, meter.isClipping())).toBe(status);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { MicrophoneCalibrator } from '../../src/audio-module/microphone-calibrator';
+import { AudioCaptureManager } from '../../src/audio-module/audio-capture-manager';
+import { ConfigManager } from '../../src/utils/config-manager';
+
+const SAMPLE_RATE = 8000;
+const CAPTURE = { deviceId: 'mic', sampleRate: SAMPLE_RATE, channels: 1, bufferSizeMs: 100 };
+const OPTIONS = { silenceSeconds: 1, speechSeconds: 2 };
+
+/**
+ * Just enough of AudioCaptureManager for one session, which delivers the
+ * given audio in 100 ms chunks once started
+ */
+class FakeCapture {
+  session = Object.assign(new EventEmitter(), { id: 'session_1' });
+  active = false;
+  
+  constructor(private audio: Float32Array) {}
+  
+  async startCapture() {
+    this.active = true;
+    setImmediate(() => {
+      for (let offset = 0; this.active && offset < this.audio.length; offset += SAMPLE_RATE / 10) {
+        this.session.emit('audioChunk', { data: this.audio.subarray(offset, offset + SAMPLE_RATE / 10) });
+      }
+    });
+    return this.session;
+  }
+  
+  getSession(id: string) {
+    return this.active && id === this.session.id ? this.session : undefined;
+  }
+  
+  async stopCapture() {
+    this.active = false;
+  }
+}
+
+/**
+ * Noise for the silence phase, then speech-like bursts: 200 ms of tone,
+ * 200 ms of noise
+ */
+function recording(noise: number, speech: number): Float32Array {
+  const silenceFrames = OPTIONS.silenceSeconds * SAMPLE_RATE;
+  const audio = new Float32Array((OPTIONS.silenceSeconds + OPTIONS.speechSeconds) * SAMPLE_RATE);
+  
+  let seed = 1;
+  for (let i = 0; i < audio.length; i++) {
+    // Deterministic uniform noise of RMS `noise`
+    seed = (seed * 16807) % 2147483647;
+    audio[i] = noise * Math.sqrt(3) * (2 * seed / 2147483647 - 1);
+    
+    const burst = i >= silenceFrames && Math.floor((i - silenceFrames) / (SAMPLE_RATE / 5)) % 2 === 0;
+    if (burst) {
+      audio[i] += speech * Math.SQRT2 * Math.sin((2 * Math.PI * 300 * i) / SAMPLE_RATE);
+    }
+  }
+  
+  return audio;
+}
+
+function calibrate(audio: Float32Array) {
+  const calibrator = new MicrophoneCalibrator(new FakeCapture(audio) as unknown as AudioCaptureManager);
+  return calibrator.calibrate(CAPTURE, OPTIONS);
+}
+
+describe('MicrophoneCalibrator', () => {
+  let directory: string;
+  
+  beforeAll(async () => {
+    directory = mkdtempSync(path.join(tmpdir(), 'calibrator-'));
+    process.env.CONFIG_PATH = path.join(directory, 'config.json');
+    await ConfigManager.getInstance().load();
+  });
+  
+  afterAll(() => {
+    delete process.env.CONFIG_PATH;
+    rmSync(directory, { recursive: true, force: true });
+  });
+  
+  it('measures noise, speech and SNR and places the thresholds between them', async () => {
+    const result = await calibrate(recording(0.001, 0.1));
+    
+    expect(result.noiseFloorDb).toBeCloseTo(-60, 0);
+    expect(result.speechLevelDb).toBeCloseTo(-20, 0);
+    expect(result.snrDb).toBeCloseTo(40, 0);
+    expect(result.speechActivity).toBeCloseTo(0.5, 1);
+    expect(result.clippedSamples).toBe(0);
+    expect(result.warnings).toEqual([]);
+    
+    const { silenceThreshold, energyThreshold, snrThresholdDb } = result.recommended;
+    expect(silenceThreshold).toBeGreaterThan(result.noiseFloor);
+    expect(energyThreshold).toBeGreaterThan(silenceThreshold);
+    expect(energyThreshold).toBeLessThan(result.speechLevel);
+    expect(snrThresholdDb).toBe(15);
+  });
+  
+  it('warns about a muted device', async () => {
+    const result = await calibrate(new Float32Array(3 * SAMPLE_RATE));
+    
+    expect(result.warnings).toEqual(expect.arrayContaining([
+      expect.stringContaining('digital silence'),
+      expect.stringContaining('Little or no speech')
+    ]));
+  });
+  
+  it('warns about clipping and low SNR', async () => {
+    const audio = recording(0.2, 0.5).map(sample => Math.max(-1, Math.min(1, sample)));
+    const result = await calibrate(audio);
+    
+    expect(result.clippedSamples).toBeGreaterThan(0);
+    expect(result.warnings).toEqual(expect.arrayContaining([
+      expect.stringContaining('clipping'),
+      expect.stringContaining('signal-to-noise')
+    ]));
+  });
+});
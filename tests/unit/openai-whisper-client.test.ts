@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { OpenAIWhisperClient, OpenAIWhisperOptions, getTranscriptionsUrl } from '../../src/speech-recognition/openai-whisper-client';
+import { parseWavHeader } from '../../src/audio-module/wav-format';
+import { AudioErrorCodes } from '../../src/utils/error-handler';
+
+const FORMAT = { sampleRate: 16000, channels: 1 };
+const AUDIO = new Float32Array(1600).fill(0.25);
+
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  form: FormData;
+}
+
+/**
+ * Local stand-in for an OpenAI-compatible server: records each request and
+ * answers with the status and body the test sets
+ */
+class StandInServer {
+  requests: ReceivedRequest[] = [];
+  status = 200;
+  body: unknown = { text: '' };
+  private server: Server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', async () => {
+      const form = await new Response(Buffer.concat(chunks), {
+        headers: { 'Content-Type': request.headers['content-type'] ?? '' }
+      }).formData();
+      this.requests.push({ method: request.method!, url: request.url!, headers: request.headers, form });
+      response.writeHead(this.status, { 'Content-Type': 'application/json' });
+      response.end(typeof this.body === 'string' ? this.body : JSON.stringify(this.body));
+    });
+  });
+  
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+  
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+describe('OpenAIWhisperClient', () => {
+  let server: StandInServer;
+  let options: OpenAIWhisperOptions;
+  
+  beforeEach(async () => {
+    server = new StandInServer();
+    options = {
+      apiKey: 'sk-test',
+      model: 'whisper-1',
+      baseUrl: await server.listen(),
+      responseFormat: 'verbose_json',
+      timeoutMs: 5000
+    };
+  });
+  
+  afterEach(async () => {
+    await server.close();
+  });
+  
+  it('posts the audio as a WAV file in a multipart form', async () => {
+    server.body = { text: ' Hello there. ' };
+    
+    const result = await new OpenAIWhisperClient(options).transcribe(AUDIO, FORMAT, 'en-US');
+    
+    const [request] = server.requests;
+    expect(request).toMatchObject({ method: 'POST', url: '/v1/audio/transcriptions' });
+    expect(request.headers.authorization).toBe('Bearer sk-test');
+    expect(request.form.get('model')).toBe('whisper-1');
+    expect(request.form.get('response_format')).toBe('verbose_json');
+    expect(request.form.get('language')).toBe('en');
+    
+    const file = request.form.get('file') as File;
+    expect(file.name).toBe('audio.wav');
+    expect(parseWavHeader(Buffer.from(await file.arrayBuffer()))).toMatchObject({ sampleRate: 16000, channels: 1, dataLength: 3200 });
+    
+    expect(result).toMatchObject({ text: 'Hello there.', confidence: 1, service: 'whisper-api', language: 'en-US' });
+    expect(result.segments).toBeUndefined();
+  });
+  
+  it('maps verbose segments and averages their confidence', async () => {
+    server.body = {
+      text: 'Hola. ¿Qué tal?',
+      language: 'spanish',
+      segments: [
+        { text: ' Hola.', start: 0, end: 0.8, avg_logprob: -0.1, no_speech_prob: 0.05 },
+        { text: ' ¿Qué tal?', start: 0.8, end: 1.6, avg_logprob: -0.5, no_speech_prob: 0 }
+      ]
+    };
+    delete options.apiKey;
+    
+    const result = await new OpenAIWhisperClient(options).transcribe(AUDIO, FORMAT, 'auto');
+    
+    const [request] = server.requests;
+    expect(request.headers.authorization).toBeUndefined();
+    expect(request.form.has('language')).toBe(false);
+    // exp(-0.1) * 0.95 and exp(-0.5)
+    expect(result.segments).toEqual([
+      { text: 'Hola.', start: 0, end: 0.8, confidence: 0.86, language: 'es' },
+      { text: '¿Qué tal?', start: 0.8, end: 1.6, confidence: 0.607, language: 'es' }
+    ]);
+    expect(result).toMatchObject({ confidence: 0.734, language: 'es' });
+  });
+  
+  it('reports the error the server sends back', async () => {
+    server.status = 401;
+    server.body = { error: { message: 'Incorrect API key provided', type: 'invalid_request_error' } };
+    
+    await expect(new OpenAIWhisperClient(options).transcribe(AUDIO, FORMAT)).rejects.toMatchObject({
+      code: AudioErrorCodes.SPEECH_SERVICE_ERROR,
+      message: expect.stringContaining('failed with status 401'),
+      details: { status: 401, error: 'Incorrect API key provided' }
+    });
+    
+    server.status = 502;
+    server.body = 'Bad gateway';
+    await expect(new OpenAIWhisperClient(options).transcribe(AUDIO, FORMAT)).rejects.toMatchObject({
+      details: { status: 502, error: 'Bad gateway' }
+    });
+  });
+  
+  it('fails with a network error when the server is unreachable', async () => {
+    const gone = new StandInServer();
+    const baseUrl = await gone.listen();
+    await gone.close();
+    
+    await expect(new OpenAIWhisperClient({ ...options, baseUrl }).transcribe(AUDIO, FORMAT)).rejects.toMatchObject({
+      code: AudioErrorCodes.NETWORK_ERROR
+    });
+  });
+  
+  it.each([
+    ['https://api.openai.com', 'https://api.openai.com/v1/audio/transcriptions'],
+    ['http://localhost:8000/', 'http://localhost:8000/v1/audio/transcriptions'],
+    ['http://localhost:8080/v1/', 'http://localhost:8080/v1/audio/transcriptions']
+  ])('resolves the endpoint of %s', (baseUrl, url) => {
+    expect(getTranscriptionsUrl(baseUrl)).toBe(url);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { PcmStreamBackend } from '../../src/audio-module/pcm-stream-backend';
+import { AudioMCPError } from '../../src/utils/error-handler';
+
+const CAPTURE = { deviceId: 'pcm', sampleRate: 16000, channels: 1, bufferSizeMs: 100 };
+
+describe('PcmStreamBackend', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('delivers the bytes of a pipe and reports its end', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'pcm-backend-'));
+    const file = path.join(directory, 'input.pcm');
+    writeFileSync(file, Buffer.alloc(640, 1));
+    
+    const backend = new PcmStreamBackend({ source: { type: 'pipe', path: file }, format: 's16le', sampleRate: 16000, channels: 1 });
+    let bytes = 0;
+    backend.setAudioCallback((data) => {
+      bytes += data.length;
+    });
+    const ended = new Promise<AudioMCPError>((resolve) => backend.setErrorCallback(resolve));
+    
+    expect(backend.initialize()).toBe(true);
+    expect(backend.startCapture(CAPTURE)).toBe(true);
+    
+    const error = await ended;
+    expect(bytes).toBe(640);
+    expect(error.message).toBe('PCM input stream ended');
+    
+    backend.cleanup();
+    rmSync(directory, { recursive: true, force: true });
+  });
+  
+  it('reports the sample format of the configured PCM', () => {
+    const backend = new PcmStreamBackend({ source: { type: 'stdin' }, format: 's24le', sampleRate: 48000, channels: 2 });
+    
+    expect(backend.getCaptureFormat()).toEqual({ sampleRate: 48000, channels: 2, sampleFormat: 'PCM24' });
+  });
+  
+  it('leaves the listeners of other stdin consumers in place when stopped', () => {
+    // Stands in for process.stdin, which the stdio MCP transport also reads
+    const stdin = new PassThrough();
+    jest.spyOn(process, 'stdin', 'get').mockReturnValue(stdin as unknown as typeof process.stdin);
+    
+    const transport = { data: () => undefined, end: () => undefined, error: () => undefined };
+    stdin.on('data', transport.data);
+    stdin.on('end', transport.end);
+    stdin.on('error', transport.error);
+    
+    const backend = new PcmStreamBackend({ source: { type: 'stdin' }, format: 's16le', sampleRate: 16000, channels: 1 });
+    const received: Buffer[] = [];
+    backend.setAudioCallback((data) => received.push(data));
+    backend.startCapture(CAPTURE);
+    
+    stdin.write(Buffer.alloc(4));
+    backend.stopCapture();
+    
+    expect(received).toHaveLength(1);
+    expect(stdin.listeners('data')).toEqual([transport.data]);
+    expect(stdin.listeners('end')).toEqual([transport.end]);
+    expect(stdin.listeners('error')).toEqual([transport.error]);
+    expect(stdin.isPaused()).toBe(false);
+    expect(stdin.destroyed).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { ProviderHealth } from '../../src/speech-recognition/provider-health';
+import { ErrorHandler } from '../../src/utils/error-handler';
+
+const T0 = Date.UTC(2024, 0, 1);
+
+describe('ProviderHealth', () => {
+  let health: ProviderHealth;
+  
+  beforeEach(() => {
+    health = new ProviderHealth({ failureThreshold: 2, cooldownMs: 1000 });
+  });
+  
+  it('opens the circuit after the failure threshold', () => {
+    health.recordFailure(new Error('timeout'), 10, T0);
+    expect(health.tryAcquire(T0)).toBe(true);
+    
+    health.recordFailure(ErrorHandler.createSpeechServiceError('unavailable'), 20, T0);
+    expect(health.tryAcquire(T0 + 999)).toBe(false);
+    expect(health.getStatus()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 2,
+      requests: 2,
+      failures: 2,
+      lastError: { message: 'unavailable', code: 'SPEECH_SERVICE_ERROR', at: new Date(T0).toISOString() },
+      retryAt: new Date(T0 + 1000).toISOString()
+    });
+  });
+  
+  it('lets one probe through after the cooldown', () => {
+    health.recordFailure(new Error('a'), 10, T0);
+    health.recordFailure(new Error('b'), 10, T0);
+    
+    expect(health.tryAcquire(T0 + 1000)).toBe(true);
+    expect(health.getStatus().state).toBe('half-open');
+    expect(health.tryAcquire(T0 + 1000)).toBe(false);
+  });
+  
+  it('closes the circuit on a successful probe', () => {
+    health.recordFailure(new Error('a'), 10, T0);
+    health.recordFailure(new Error('b'), 10, T0);
+    health.tryAcquire(T0 + 1000);
+    health.recordSuccess(10, T0 + 1100);
+    
+    expect(health.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    expect(health.tryAcquire(T0 + 1100)).toBe(true);
+  });
+  
+  it('reopens the circuit on a failed probe', () => {
+    health.recordFailure(new Error('a'), 10, T0);
+    health.recordFailure(new Error('b'), 10, T0);
+    health.tryAcquire(T0 + 1000);
+    health.recordFailure(new Error('c'), 10, T0 + 1100);
+    
+    expect(health.getStatus()).toMatchObject({ state: 'open', retryAt: new Date(T0 + 2100).toISOString() });
+    expect(health.tryAcquire(T0 + 1500)).toBe(false);
+  });
+  
+  it('smooths the average latency', () => {
+    health.recordSuccess(100, T0);
+    health.recordSuccess(200, T0);
+    
+    expect(health.getStatus()).toMatchObject({
+      requests: 2,
+      failures: 0,
+      lastLatencyMs: 200,
+      averageLatencyMs: 130,
+      lastSuccessAt: new Date(T0).toISOString()
+    });
+  });
+});
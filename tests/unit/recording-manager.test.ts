@@ -0,0 +1,134 @@
+import { describe, it, expect, jest, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { mkdtempSync, readFileSync, readdirSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { RecordingManager } from '../../src/audio-module/recording-manager';
+import { AudioCaptureManager } from '../../src/audio-module/audio-capture-manager';
+import { decodeWavData, parseWavHeader } from '../../src/audio-module/wav-format';
+import { ConfigManager } from '../../src/utils/config-manager';
+
+const CAPTURE = { deviceId: 'mic', sampleRate: 16000, channels: 2, bufferSizeMs: 100 };
+
+/**
+ * Just enough of AudioCaptureManager for one active session whose audio
+ * chunks the test emits
+ */
+class FakeCapture extends EventEmitter {
+  session = { id: 'session_1', config: CAPTURE, isActive: () => true };
+  
+  resolveSession() {
+    return this.session;
+  }
+  
+  chunk(data: Float32Array, startSample: number) {
+    this.emit('audioChunk', { data, startSample, timestamp: 0, duration: 0, sampleRate: 16000, channels: 2 }, this.session.id);
+  }
+}
+
+function tone(frames: number): Float32Array {
+  return Float32Array.from({ length: frames * 2 }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 440 * Math.floor(i / 2)) / 16000));
+}
+
+describe('RecordingManager', () => {
+  let directory: string;
+  let config: ConfigManager;
+  let capture: FakeCapture;
+  let recordings: RecordingManager;
+  
+  beforeAll(async () => {
+    process.env.CONFIG_PATH = path.join(tmpdir(), 'recording-manager-missing.json');
+    config = ConfigManager.getInstance();
+    await config.load();
+  });
+  
+  afterAll(() => {
+    delete process.env.CONFIG_PATH;
+  });
+  
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'recording-manager-'));
+    config.updateConfig({
+      audio: { ...config.getAudioConfig(), recording: { directory, format: 'wav', bitsPerSample: 16 } }
+    });
+    capture = new FakeCapture();
+    recordings = new RecordingManager(capture as unknown as AudioCaptureManager);
+  });
+  
+  afterEach(async () => {
+    await recordings.cleanup();
+    rmSync(directory, { recursive: true, force: true });
+  });
+  
+  it('writes a WAV file with its metadata sidecar', () => {
+    const started = recordings.startRecording({ name: 'Stand-up' });
+    expect(started).toMatchObject({ status: 'recording', format: 'wav', file: path.join(directory, `${started.id}.wav`) });
+    
+    const audio = tone(1600);
+    capture.chunk(audio.subarray(0, 1600), 4800);
+    capture.chunk(audio.subarray(1600), 5600);
+    const stopped = recordings.stopRecording();
+    
+    const file = readFileSync(stopped.file);
+    const format = parseWavHeader(file);
+    expect(format).toMatchObject({ sampleRate: 16000, channels: 2, bitsPerSample: 16, dataLength: 1600 * 4 });
+    decodeWavData(file, format).forEach((sample, i) => expect(sample).toBeCloseTo(audio[i], 4));
+    expect(file.toString('latin1')).toContain('INAM');
+    
+    expect(stopped).toMatchObject({
+      name: 'Stand-up',
+      status: 'completed',
+      startSample: 4800,
+      frames: 1600,
+      durationSeconds: 0.1,
+      sizeBytes: statSync(stopped.file).size,
+      endedAt: expect.any(String)
+    });
+    expect(JSON.parse(readFileSync(path.join(directory, `${stopped.id}.json`), 'utf8'))).toEqual(stopped);
+  });
+  
+  it('writes a FLAC file and finalizes it when the capture stops', () => {
+    const started = recordings.startRecording({ format: 'flac' });
+    capture.chunk(tone(5000), 0);
+    capture.emit('captureStopped', capture.session.id);
+    
+    expect(recordings.isRecording()).toBe(false);
+    const { info, data } = recordings.getRecording(started.id);
+    expect(info).toMatchObject({ status: 'completed', mimeType: 'audio/flac', frames: 5000, sizeBytes: data.length });
+    
+    // STREAMINFO: 16000 Hz, 2 channels, 16 bits and 5000 samples once finalized
+    expect(data.toString('ascii', 0, 4)).toBe('fLaC');
+    expect(data.readUIntBE(18, 3) >> 4).toBe(16000);
+    expect(((data[20] >> 1) & 0b111) + 1).toBe(2);
+    expect((((data[20] & 1) << 4) | (data[21] >> 4)) + 1).toBe(16);
+    expect(data.readUInt32BE(22)).toBe(5000);
+    expect(data.subarray(26, 42)).not.toEqual(Buffer.alloc(16));
+  });
+  
+  it('lists recordings newest first and serves only completed ones', () => {
+    jest.useFakeTimers({ now: Date.UTC(2024, 0, 1) });
+    const first = recordings.startRecording();
+    recordings.stopRecording();
+    jest.setSystemTime(Date.UTC(2024, 0, 1, 0, 0, 1));
+    const second = recordings.startRecording({ format: 'flac' });
+    jest.useRealTimers();
+    
+    expect(() => recordings.getRecording(second.id)).toThrow('is still in progress');
+    expect(recordings.listRecordings().map(info => [info.id, info.status])).toEqual([
+      [second.id, 'recording'],
+      [first.id, 'completed']
+    ]);
+    
+    recordings.stopRecording();
+    expect(readdirSync(directory).sort()).toEqual(
+      [`${first.id}.json`, `${first.id}.wav`, `${second.id}.flac`, `${second.id}.json`].sort()
+    );
+    expect(() => recordings.getRecording('../config')).toThrow('Recording not found');
+  });
+  
+  it('records a session only once at a time', () => {
+    recordings.startRecording();
+    
+    expect(() => recordings.startRecording()).toThrow('already in progress');
+  });
+});
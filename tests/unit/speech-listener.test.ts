@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { SpeechListener } from '../../src/audio-module/speech-listener';
+import { AudioCaptureManager } from '../../src/audio-module/audio-capture-manager';
+import { encodeWav } from '../../src/audio-module/wav-format';
+import { ConfigManager } from '../../src/utils/config-manager';
+
+const SAMPLE_RATE = 16000;
+const CAPTURE = { sampleRate: SAMPLE_RATE, channels: 1, bufferSizeMs: 20 };
+const OPTIONS = { maxDurationSeconds: 10, silenceTimeoutSeconds: 0.5, startTimeoutSeconds: 5 };
+
+/**
+ * Quiet noise with a burst of speech-like tone from `speechFrom` to
+ * `speechTo` seconds
+ */
+function recording(seconds: number, speechFrom: number, speechTo: number): Float32Array {
+  const audio = new Float32Array(seconds * SAMPLE_RATE);
+  
+  let seed = 1;
+  for (let i = 0; i < audio.length; i++) {
+    seed = (seed * 16807) % 2147483647;
+    audio[i] = 0.001 * (2 * seed / 2147483647 - 1);
+    
+    const time = i / SAMPLE_RATE;
+    if (time >= speechFrom && time < speechTo) {
+      audio[i] += 0.3 * Math.sin((2 * Math.PI * 300 * i) / SAMPLE_RATE) * (1 + 0.5 * Math.sin(2 * Math.PI * 4 * time));
+    }
+  }
+  
+  return audio;
+}
+
+describe('SpeechListener', () => {
+  let directory: string;
+  let config: ConfigManager;
+  let manager: AudioCaptureManager;
+  let listener: SpeechListener;
+  
+  beforeAll(async () => {
+    directory = mkdtempSync(path.join(tmpdir(), 'speech-listener-'));
+    writeFileSync(path.join(directory, 'empty.pcm'), Buffer.alloc(0));
+    writeFileSync(path.join(directory, 'pause.wav'), encodeWav(recording(3, 0.3, 1), { sampleRate: SAMPLE_RATE, channels: 1 }));
+    writeFileSync(path.join(directory, 'cut.wav'), encodeWav(recording(1, 0.3, 1), { sampleRate: SAMPLE_RATE, channels: 1 }));
+    
+    process.env.CONFIG_PATH = path.join(directory, 'config.json');
+    config = ConfigManager.getInstance();
+    await config.load();
+  });
+  
+  afterAll(() => {
+    delete process.env.CONFIG_PATH;
+    rmSync(directory, { recursive: true, force: true });
+  });
+  
+  beforeEach(() => {
+    config.updateConfig({
+      audio: {
+        ...config.getAudioConfig(),
+        wav: { path: directory, loop: false },
+        pcm: { ...config.getAudioConfig().pcm!, source: 'pipe', path: path.join(directory, 'empty.pcm') }
+      }
+    });
+    manager = new AudioCaptureManager();
+    listener = new SpeechListener(manager);
+  });
+  
+  afterEach(async () => {
+    await manager.cleanup();
+  });
+  
+  it('ends after the silence timeout following speech', async () => {
+    const result = await listener.listen({ ...CAPTURE, deviceId: `wav:${path.join(directory, 'pause.wav')}` }, OPTIONS);
+    
+    expect(result.reason).toBe('silence');
+    expect(result.utterances.length).toBeGreaterThan(0);
+    expect(manager.getSession(result.sessionId)).toBeUndefined();
+  });
+  
+  it('returns the utterances so far when the source runs out', async () => {
+    const result = await listener.listen({ ...CAPTURE, deviceId: `wav:${path.join(directory, 'cut.wav')}` }, OPTIONS);
+    
+    expect(result.reason).toBe('captureEnded');
+    expect(result.utterances.length).toBeGreaterThan(0);
+  });
+  
+  it('fails with the capture error when the source fails before any speech', async () => {
+    await expect(listener.listen({ ...CAPTURE, deviceId: `pcm:pipe:${path.join(directory, 'empty.pcm')}` }, OPTIONS))
+      .rejects.toThrow('PCM input stream ended');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { SpeechServiceManager } from '../../src/speech-recognition/speech-service-manager';
+import { SpeechProviderDescriptor } from '../../src/speech-recognition/speech-provider-registry';
+import { ConfigManager, SpeechProviderConfig } from '../../src/utils/config-manager';
+import { AudioErrorCodes } from '../../src/utils/error-handler';
+
+const FORMAT = { sampleRate: 16000, channels: 1 };
+const CHUNK = { data: new Float32Array(1600), timestamp: 0, startSample: 0, duration: 100, ...FORMAT };
+
+/**
+ * A provider type that identifies among at most two candidates and records
+ * the ones it is given
+ */
+function limitedProvider(received: string[][]): SpeechProviderDescriptor {
+  return {
+    type: 'limited',
+    description: 'Test provider',
+    optionsSchema: z.object({}),
+    capabilities: {
+      streaming: false,
+      wordTimestamps: false,
+      languages: ['en-US', 'es-ES', 'fr-FR'],
+      languageFormat: 'locale',
+      languageDetection: 'candidates',
+      maxLanguageCandidates: 2,
+      languageProbability: false,
+      formats: [FORMAT]
+    },
+    create: () => ({
+      initialize: async () => {},
+      transcribe: async (_chunks, _language, candidates = []) => {
+        received.push(candidates);
+        return { text: 'hello', confidence: 1, service: 'limited', timestamp: 0 };
+      },
+      cleanup: async () => {},
+      isAvailable: () => true,
+      getPreferredFormat: () => FORMAT
+    })
+  };
+}
+
+describe('SpeechServiceManager providers', () => {
+  let directory: string;
+  let config: ConfigManager;
+  let manager: SpeechServiceManager;
+  
+  beforeAll(async () => {
+    directory = mkdtempSync(path.join(tmpdir(), 'speech-manager-'));
+    process.env.CONFIG_PATH = path.join(directory, 'config.json');
+    config = ConfigManager.getInstance();
+    await config.load();
+  });
+  
+  afterAll(() => {
+    delete process.env.CONFIG_PATH;
+    rmSync(directory, { recursive: true, force: true });
+  });
+  
+  afterEach(async () => {
+    await manager.cleanup();
+  });
+  
+  async function start(providers: Array<Pick<SpeechProviderConfig, 'name' | 'type' | 'options'>>, types: SpeechProviderDescriptor[] = []) {
+    config.updateConfig({
+      speech: { ...config.getSpeechConfig(), providers: providers.map(provider => ({ enabled: true, ...provider })) }
+    });
+    manager = new SpeechServiceManager();
+    types.forEach(type => manager.registerProvider(type));
+    await manager.initialize();
+  }
+  
+  async function capabilitiesOf(providers: Array<Pick<SpeechProviderConfig, 'name' | 'type' | 'options'>>) {
+    await start(providers);
+    return Object.fromEntries(manager.getProviders().map(provider => [provider.name, provider.capabilities]));
+  }
+  
+  it('limits English-only Whisper models to English without detection', async () => {
+    const capabilities = await capabilitiesOf([
+      { name: 'default', type: 'whisper', options: { backend: 'local', whisperCpp: { modelDirectory: directory } } },
+      { name: 'quantized', type: 'whisper', options: { backend: 'local', whisperCpp: { modelPath: '/models/ggml-small.en-q5_1.bin' } } },
+      { name: 'multilingual', type: 'whisper', options: { backend: 'local', whisperCpp: { model: 'small' } } },
+      { name: 'api', type: 'whisper', options: { backend: 'api', openai: { apiKey: 'key' }, whisperCpp: { model: 'base.en' } } }
+    ]);
+    
+    for (const name of ['default', 'quantized']) {
+      expect(capabilities[name]).toMatchObject({ languages: ['en'], languageDetection: 'none' });
+    }
+    for (const name of ['multilingual', 'api']) {
+      expect(capabilities[name].languageDetection).toBe('any');
+      expect(capabilities[name].languages).toContain('es');
+    }
+    // Only whisper.cpp reports how likely the detected language is
+    expect(capabilities.multilingual.languageProbability).toBe(true);
+    expect(capabilities.api.languageProbability).toBe(false);
+  });
+  
+  it('rejects other languages on an English-only model', async () => {
+    await capabilitiesOf([{ name: 'default', type: 'whisper', options: { backend: 'local' } }]);
+    
+    const languages = manager.getLanguages('es');
+    expect(languages.providers[0]).toMatchObject({ name: 'default', error: expect.stringContaining('does not support') });
+    expect(manager.getLanguages('en-GB').providers[0]).toMatchObject({ code: 'en' });
+  });
+  
+  it('rejects more language candidates than a provider identifies among', async () => {
+    const received: string[][] = [];
+    await start([{ name: 'limited', type: 'limited', options: {} }], [limitedProvider(received)]);
+    
+    const result = await manager.transcribe({
+      service: 'limited', language: 'auto', languageCandidates: ['en', 'en-US', 'es'], audioData: [CHUNK]
+    });
+    expect(result.text).toBe('hello');
+    expect(received).toEqual([['en-US', 'es-ES']]);
+    
+    await expect(manager.transcribe({
+      service: 'limited', language: 'auto', languageCandidates: ['en', 'es', 'fr'], audioData: [CHUNK]
+    })).rejects.toMatchObject({ code: AudioErrorCodes.UNSUPPORTED_LANGUAGE, message: expect.stringContaining('at most 2') });
+    expect(received).toHaveLength(1);
+  });
+});
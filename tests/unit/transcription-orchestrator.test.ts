@@ -0,0 +1,218 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { TranscriptionOrchestrator } from '../../src/mcp-server/transcription-orchestrator';
+import { AudioCaptureManager, AudioChunk } from '../../src/audio-module/audio-capture-manager';
+import { Utterance } from '../../src/audio-module/utterance-segmenter';
+import {
+  SpeechServiceManager,
+  TranscriptionRequest,
+  TranscriptionResult
+} from '../../src/speech-recognition/speech-service-manager';
+import { StreamingSession } from '../../src/speech-recognition/speech-provider-registry';
+
+// Wall-clock time of frame 0 on the capture timeline
+const ORIGIN = Date.UTC(2024, 0, 1);
+
+/**
+ * Just enough of AudioCaptureManager for one active session whose events
+ * the test emits
+ */
+class FakeCapture extends EventEmitter {
+  session = { id: 'session_1', isActive: () => true };
+  
+  resolveSession() {
+    return this.session;
+  }
+}
+
+/**
+ * Just enough of SpeechServiceManager, with one available service
+ */
+class FakeSpeechServices {
+  buffered: AudioChunk[] = [];
+  continuous = false;
+  transcribe = jest.fn<(request: TranscriptionRequest) => Promise<TranscriptionResult>>();
+  openStream = jest.fn<(options: { streamId: string; service: string }) => StreamingSession>();
+  
+  getAvailableServices() {
+    return ['openai'];
+  }
+  
+  addAudioChunk(chunk: AudioChunk) {
+    this.buffered.push(chunk);
+  }
+  
+  async startContinuousTranscription() {
+    this.continuous = true;
+  }
+  
+  async stopContinuousTranscription() {
+    this.continuous = false;
+  }
+}
+
+function chunk(startSample: number, frames: number): AudioChunk {
+  return {
+    data: Float32Array.from({ length: frames }, (_, i) => startSample + i),
+    timestamp: ORIGIN + startSample / 16,
+    startSample,
+    duration: frames / 16,
+    sampleRate: 16000,
+    channels: 1
+  };
+}
+
+function utterance(id: string, startSample: number, frames: number): Utterance {
+  return { ...chunk(startSample, frames), id, endSample: startSample + frames, reason: 'silence' };
+}
+
+function result(text: string): TranscriptionResult {
+  return { text, confidence: 0.9, service: 'openai', timestamp: 0 };
+}
+
+describe('TranscriptionOrchestrator', () => {
+  let capture: FakeCapture;
+  let speech: FakeSpeechServices;
+  let orchestrator: TranscriptionOrchestrator;
+  
+  beforeEach(() => {
+    capture = new FakeCapture();
+    speech = new FakeSpeechServices();
+    orchestrator = new TranscriptionOrchestrator(
+      capture as unknown as AudioCaptureManager,
+      speech as unknown as SpeechServiceManager
+    );
+  });
+  
+  it('feeds every utterance to the speech buffer', () => {
+    const first = utterance('u1', 0, 1600);
+    
+    capture.emit('utterance', first, 'session_1');
+    
+    expect(speech.buffered).toEqual([first]);
+    expect(speech.transcribe).not.toHaveBeenCalled();
+  });
+  
+  it('transcribes utterances in capture order and places them on the timeline', async () => {
+    // The second utterance comes back first
+    let finishFirst: (value: TranscriptionResult) => void = () => {};
+    speech.transcribe
+      .mockReturnValueOnce(new Promise(resolve => { finishFirst = resolve; }))
+      .mockResolvedValueOnce(result(' world '));
+    const transcripts: unknown[] = [];
+    orchestrator.on('transcript', event => transcripts.push(event));
+    
+    const started = await orchestrator.startContinuous({ service: 'openai', language: 'en' });
+    expect(started).toMatchObject({ sessionId: 'session_1', status: 'running', partialResults: false, text: '' });
+    expect(speech.continuous).toBe(true);
+    
+    capture.emit('utterance', utterance('u1', 16000, 8000), 'session_1');
+    capture.emit('utterance', utterance('u2', 32000, 16000), 'session_1');
+    finishFirst(result('Hello'));
+    const stopped = await orchestrator.stopContinuous();
+    
+    expect(speech.transcribe).toHaveBeenCalledWith(expect.objectContaining({
+      service: 'openai',
+      language: 'en',
+      continuous: true,
+      audioData: [expect.objectContaining({ id: 'u1' })]
+    }));
+    expect(stopped).toMatchObject({ status: 'stopped', stoppedAt: expect.any(String), utterances: 2, failedUtterances: 0 });
+    expect(stopped.text).toBe('Hello world');
+    expect(stopped.segments).toEqual([
+      {
+        text: 'Hello',
+        start: 1,
+        end: 1.5,
+        confidence: 0.9,
+        startSample: 16000,
+        endSample: 24000,
+        wallClock: new Date(ORIGIN + 1000).toISOString()
+      },
+      expect.objectContaining({ text: ' world ', start: 2, end: 3, startSample: 32000, endSample: 48000 })
+    ]);
+    expect(transcripts).toEqual([
+      { sessionId: 'session_1', utteranceId: 'u1', segments: [stopped.segments[0]] },
+      { sessionId: 'session_1', utteranceId: 'u2', segments: [stopped.segments[1]] }
+    ]);
+    expect(speech.continuous).toBe(false);
+    
+    // Nothing more is transcribed once stopped, but the transcript is kept
+    capture.emit('utterance', utterance('u3', 64000, 1600), 'session_1');
+    expect(speech.transcribe).toHaveBeenCalledTimes(2);
+    expect(orchestrator.getContinuous()).toEqual([stopped]);
+  });
+  
+  it('counts failed utterances and carries on', async () => {
+    speech.transcribe
+      .mockRejectedValueOnce(new Error('Service unavailable'))
+      .mockResolvedValueOnce(result('Still here'));
+    const errors: unknown[] = [];
+    orchestrator.on('transcriptError', event => errors.push(event));
+    
+    await orchestrator.startContinuous({ service: 'openai', language: 'en' });
+    capture.emit('utterance', utterance('u1', 0, 1600), 'session_1');
+    capture.emit('utterance', utterance('u2', 1600, 1600), 'session_1');
+    const stopped = await orchestrator.stopContinuous('session_1');
+    
+    expect(stopped).toMatchObject({ text: 'Still here', utterances: 2, failedUtterances: 1 });
+    expect(errors).toEqual([{ sessionId: 'session_1', utteranceId: 'u1', error: expect.any(Error) }]);
+  });
+  
+  it('streams the audio of the utterance in progress for partial results', async () => {
+    const pushed: AudioChunk[] = [];
+    const stream = {
+      push: (audio: AudioChunk) => pushed.push(audio),
+      endUtterance: jest.fn(async () => result('Streamed')),
+      close: jest.fn(async () => {})
+    };
+    speech.openStream.mockReturnValue(stream);
+    
+    await orchestrator.startContinuous({ service: 'openai', language: 'en', partialResults: true });
+    expect(speech.openStream).toHaveBeenCalledWith({ streamId: 'session_1', service: 'openai', language: 'en' });
+    
+    // Blocks before the utterance starts are not pushed
+    capture.emit('audioChunk', chunk(0, 1600), 'session_1');
+    // The utterance starts with pre-roll up to frame 2400, inside the next block
+    capture.emit('utteranceStarted', chunk(800, 1600), 'session_1');
+    capture.emit('audioChunk', chunk(1600, 1600), 'session_1');
+    capture.emit('audioChunk', chunk(3200, 1600), 'session_1');
+    capture.emit('utterance', utterance('u1', 800, 4000), 'session_1');
+    capture.emit('audioChunk', chunk(4800, 1600), 'session_1');
+    
+    expect(pushed.map(audio => [audio.startSample, audio.data.length, audio.data[0]])).toEqual([
+      [800, 1600, 800],
+      [2400, 800, 2400],
+      [3200, 1600, 3200]
+    ]);
+    expect(pushed[1]).toMatchObject({ timestamp: ORIGIN + 150, duration: 50 });
+    
+    const stopped = await orchestrator.stopContinuous();
+    expect(stream.endUtterance).toHaveBeenCalledWith(expect.objectContaining({ id: 'u1' }));
+    expect(speech.transcribe).not.toHaveBeenCalled();
+    expect(stopped.text).toBe('Streamed');
+    expect(stream.close).toHaveBeenCalled();
+  });
+  
+  it('stops when the capture stops', async () => {
+    speech.transcribe.mockResolvedValue(result('Last words'));
+    await orchestrator.startContinuous({ service: 'openai', language: 'en' });
+    capture.emit('utterance', utterance('u1', 0, 1600), 'session_1');
+    
+    capture.emit('captureStopped', 'session_1');
+    
+    expect(orchestrator.getContinuous()[0].status).toBe('stopped');
+    expect(await orchestrator.stopContinuous('session_1')).toMatchObject({ text: 'Last words', utterances: 1 });
+  });
+  
+  it('refuses to start without an active capture or an available service, or twice', async () => {
+    await expect(orchestrator.startContinuous({ service: 'azure', language: 'en' })).rejects.toThrow('Service azure is not available');
+    
+    await orchestrator.startContinuous({ service: 'openai', language: 'en' });
+    await expect(orchestrator.startContinuous({ service: 'openai', language: 'en' })).rejects.toThrow('already running');
+    
+    capture.session.isActive = () => false;
+    await expect(orchestrator.startContinuous({ service: 'openai', language: 'en' })).rejects.toThrow('No active audio capture');
+    await expect(orchestrator.stopContinuous('session_2')).rejects.toThrow('No continuous transcription for session session_2');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { Utterance, UtteranceSegmenter } from '../../src/audio-module/utterance-segmenter';
+
+// 1 kHz, so a 10 ms block is 10 frames
+const OPTIONS = { sampleRate: 1000, channels: 1, preRollMs: 30, postRollMs: 50, maxUtteranceMs: 200, minUtteranceMs: 20 };
+const CAPTURE_START = 5000;
+
+describe('UtteranceSegmenter', () => {
+  let segmenter: UtteranceSegmenter;
+  
+  beforeEach(() => {
+    segmenter = new UtteranceSegmenter(OPTIONS, sample => CAPTURE_START + sample);
+  });
+  
+  /**
+   * Feed 10 ms blocks, speech where the pattern has an 'S', and collect the
+   * utterances they complete
+   */
+  function feed(pattern: string): Utterance[] {
+    return Array.from(pattern).flatMap(block => segmenter.process(new Float32Array(10).fill(0.1), block === 'S'));
+  }
+  
+  it('closes an utterance after the post-roll of silence, with pre-roll', () => {
+    const utterances = feed('_____SSSSS_____');
+    
+    expect(utterances).toHaveLength(1);
+    expect(utterances[0]).toMatchObject({
+      reason: 'silence',
+      startSample: 20,
+      endSample: 150,
+      timestamp: CAPTURE_START + 20,
+      duration: 130,
+      sampleRate: 1000,
+      channels: 1
+    });
+    expect(utterances[0].data).toHaveLength(130);
+    expect(segmenter.isInUtterance()).toBe(false);
+  });
+  
+  it('keeps a pause shorter than the post-roll inside the utterance', () => {
+    const utterances = feed('SSSS___SSSS_____');
+    
+    expect(utterances.map(u => [u.startSample, u.endSample])).toEqual([[0, 160]]);
+  });
+  
+  it('drops blips shorter than the minimum utterance', () => {
+    expect(feed('_S_____')).toEqual([]);
+    expect(segmenter.isInUtterance()).toBe(false);
+  });
+  
+  it('splits speech at the maximum length and flushes the rest', () => {
+    const utterances = feed('S'.repeat(25));
+    
+    expect(utterances.map(u => [u.reason, u.startSample, u.endSample])).toEqual([['maxLength', 0, 200]]);
+    expect(segmenter.getActiveAudio()).toMatchObject({ startSample: 200 });
+    expect(segmenter.flush()).toMatchObject({ reason: 'flush', startSample: 200, endSample: 250 });
+    expect(segmenter.flush()).toBeNull();
+  });
+  
+  it('drops the pre-roll buffered before a gap', () => {
+    feed('___');
+    segmenter.addGap();
+    
+    const utterances = feed('SSS_____');
+    expect(utterances[0]).toMatchObject({ startSample: 30, endSample: 110 });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  SpectralVoiceActivityDetector,
+  VoiceActivityDetection,
+  VoiceActivityDetector
+} from '../../src/audio-module/voice-activity-detector';
+
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 30;
+const FRAME_SAMPLES = (SAMPLE_RATE * FRAME_MS) / 1000;
+
+const SPECTRAL = {
+  sampleRate: SAMPLE_RATE,
+  channels: 1,
+  speechThreshold: 0.5,
+  snrThresholdDb: 6,
+  flatnessThreshold: 0.5,
+  noiseAdaptation: 0.95,
+  minSpeechDuration: 90,
+  minSilenceDuration: 150
+};
+
+let seed = 1;
+
+/**
+ * Deterministic white noise of the given RMS
+ */
+function noise(rms: number): Float32Array {
+  return Float32Array.from({ length: FRAME_SAMPLES }, () => {
+    seed = (seed * 16807) % 2147483647;
+    return rms * Math.sqrt(3) * (2 * seed / 2147483647 - 1);
+  });
+}
+
+/**
+ * A voiced frame: a 150 Hz fundamental with falling harmonics up to 3 kHz
+ * over background noise
+ */
+function voiced(rms: number, background: number): Float32Array {
+  const frame = noise(background);
+  for (let i = 0; i < frame.length; i++) {
+    for (let harmonic = 1; harmonic * 150 <= 3000; harmonic++) {
+      frame[i] += (rms / harmonic) * Math.sin((2 * Math.PI * 150 * harmonic * i) / SAMPLE_RATE);
+    }
+  }
+  return frame;
+}
+
+/**
+ * Run frames through a detector and collect its smoothed decisions
+ */
+function run(vad: VoiceActivityDetection, frames: Float32Array[], startMs = 0): boolean[] {
+  return frames.map((frame, i) => vad.processAudio(frame, startMs + i * FRAME_MS));
+}
+
+function repeat(count: number, frame: () => Float32Array): Float32Array[] {
+  return Array.from({ length: count }, frame);
+}
+
+describe('SpectralVoiceActivityDetector', () => {
+  it('classifies voiced frames over a learned noise floor as speech', () => {
+    const vad = new SpectralVoiceActivityDetector(SPECTRAL);
+    
+    expect(run(vad, repeat(20, () => noise(0.01)))).not.toContain(true);
+    
+    const speech = run(vad, repeat(10, () => voiced(0.1, 0.01)), 20 * FRAME_MS);
+    // Onset smoothing holds the first frames back
+    expect(speech.slice(0, 3)).toEqual([false, false, false]);
+    expect(speech.slice(4)).not.toContain(false);
+    
+    const decision = vad.getLastDecision()!;
+    expect(decision).toMatchObject({ isSpeech: true, rawSpeech: true, timestamp: 29 * FRAME_MS });
+    expect(decision.probability).toBeGreaterThan(0.5);
+    expect(decision.features!.snrDb).toBeGreaterThan(10);
+  });
+  
+  it('releases speech after the hangover', () => {
+    const vad = new SpectralVoiceActivityDetector(SPECTRAL);
+    run(vad, repeat(20, () => noise(0.01)));
+    run(vad, repeat(10, () => voiced(0.1, 0.01)), 20 * FRAME_MS);
+    
+    const after = run(vad, repeat(10, () => noise(0.01)), 30 * FRAME_MS);
+    
+    expect(after.slice(0, 5)).toEqual([true, true, true, true, true]);
+    expect(after.slice(6)).not.toContain(true);
+  });
+  
+  it('does not take steady broadband noise for speech', () => {
+    const vad = new SpectralVoiceActivityDetector(SPECTRAL);
+    
+    expect(run(vad, repeat(100, () => noise(0.2)))).not.toContain(true);
+    expect(vad.getLastDecision()!.features!.spectralFlatness).toBeGreaterThan(SPECTRAL.flatnessThreshold);
+  });
+  
+  it('follows a falling noise floor', () => {
+    const vad = new SpectralVoiceActivityDetector(SPECTRAL);
+    run(vad, repeat(20, () => noise(0.1)));
+    const loudFloor = vad.getLastDecision()!.features!.noiseFloor;
+    
+    expect(run(vad, repeat(100, () => noise(0.01)), 20 * FRAME_MS)).not.toContain(true);
+    expect(vad.getLastDecision()!.features!.noiseFloor).toBeLessThan(loudFloor / 10);
+  });
+});
+
+describe('VoiceActivityDetector', () => {
+  it('applies onset and hangover around frames above the energy threshold', () => {
+    const vad = new VoiceActivityDetector(0.05, 0.02, 60, 90);
+    const loud = () => new Float32Array(FRAME_SAMPLES).fill(0.1);
+    const quiet = () => new Float32Array(FRAME_SAMPLES).fill(0.01);
+    
+    expect(run(vad, [...repeat(5, loud), ...repeat(6, quiet)])).toEqual([
+      false, false, false, true, true,
+      true, true, true, true, false, false
+    ]);
+    expect(vad.getLastDecision()).toMatchObject({ rawSpeech: false, probability: 0, energy: expect.closeTo(0.01) });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { WavFileBackend } from '../../src/audio-module/wav-file-backend';
+import { encodeWav } from '../../src/audio-module/wav-format';
+import { AudioMCPError } from '../../src/utils/error-handler';
+
+const SAMPLE_RATE = 16000;
+const CAPTURE = { deviceId: 'wav', sampleRate: SAMPLE_RATE, channels: 1, bufferSizeMs: 10 };
+
+describe('WavFileBackend', () => {
+  let directory: string;
+  let file: string;
+  let backend: WavFileBackend;
+  
+  beforeAll(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'wav-backend-'));
+    file = path.join(directory, 'tone.wav');
+    // 50 ms, short enough to run out within a test
+    writeFileSync(file, encodeWav(new Float32Array(800).fill(0.25), { sampleRate: SAMPLE_RATE, channels: 1 }));
+  });
+  
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+  
+  afterEach(() => {
+    backend?.cleanup();
+  });
+  
+  /**
+   * Run one capture until the source reports its end
+   */
+  function captureToEnd(): Promise<{ frames: number; error: AudioMCPError }> {
+    return new Promise((resolve) => {
+      let frames = 0;
+      backend.setAudioCallback((data) => {
+        frames += data.length / Float32Array.BYTES_PER_ELEMENT;
+      });
+      backend.setErrorCallback((error) => resolve({ frames, error }));
+      expect(backend.startCapture(CAPTURE)).toBe(true);
+    });
+  }
+  
+  it('reports the format of the file as Float32', () => {
+    backend = new WavFileBackend({ path: file, loop: false });
+    
+    expect(backend.initialize()).toBe(true);
+    expect(backend.getCaptureFormat()).toEqual({ sampleRate: SAMPLE_RATE, channels: 1, sampleFormat: 'Float32' });
+  });
+  
+  it('reports the end of a source that does not loop', async () => {
+    backend = new WavFileBackend({ path: file, loop: false });
+    backend.initialize();
+    
+    const { frames, error } = await captureToEnd();
+    
+    expect(frames).toBe(800);
+    expect(error).toBeInstanceOf(AudioMCPError);
+    expect(error.message).toBe('WAV capture source exhausted');
+  });
+  
+  it('plays the source from the start again when restarted', async () => {
+    backend = new WavFileBackend({ path: file, loop: false });
+    backend.initialize();
+    
+    await captureToEnd();
+    const { frames } = await captureToEnd();
+    
+    expect(frames).toBe(800);
+  });
+  
+  it('fails to initialize without WAV files', () => {
+    backend = new WavFileBackend({ path: path.join(directory, 'missing.wav'), loop: false });
+    
+    expect(backend.initialize()).toBe(false);
+  });
+});
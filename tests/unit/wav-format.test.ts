@@ -0,0 +1,88 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  createWavHeader,
+  decodeWavData,
+  encodeWav,
+  parseWavHeader,
+  updateWavHeader
+} from '../../src/audio-module/wav-format';
+
+const FORMAT = { sampleRate: 16000, channels: 2 };
+const SAMPLES = Float32Array.from([0, 0.5, -0.5, 0.25, -1, 0.75]);
+
+describe('wav-format', () => {
+  it.each([16, 24] as const)('round-trips %i-bit PCM', (bitsPerSample) => {
+    const file = encodeWav(SAMPLES, FORMAT, bitsPerSample);
+    const format = parseWavHeader(file);
+    
+    expect(format).toMatchObject({
+      audioFormat: 1,
+      sampleRate: 16000,
+      channels: 2,
+      bitsPerSample,
+      blockAlign: 2 * bitsPerSample / 8,
+      dataOffset: 44,
+      dataLength: SAMPLES.length * bitsPerSample / 8
+    });
+    decodeWavData(file, format).forEach((sample, i) => expect(sample).toBeCloseTo(SAMPLES[i], 4));
+  });
+  
+  it('skips the LIST/INFO chunk it writes', () => {
+    const file = encodeWav(SAMPLES, FORMAT, 16, { INAM: 'Meeting', ISFT: 'audio-mcp', ICRD: '' });
+    
+    const format = parseWavHeader(file);
+    expect(format.dataOffset).toBeGreaterThan(44);
+    expect(format.dataLength).toBe(SAMPLES.length * 2);
+    const text = file.toString('latin1');
+    expect(text).toContain('LIST');
+    expect(text).toContain('INAM\x08\0\0\0Meeting\0');
+    // Empty values are left out
+    expect(text).not.toContain('ICRD');
+  });
+  
+  it('decodes 8-bit PCM and 32-bit float data', () => {
+    const pcm8 = createWav(1, 8, Buffer.from([128, 192, 64, 0]));
+    expect(Array.from(decodeWavData(pcm8, parseWavHeader(pcm8)))).toEqual([0, 0.5, -0.5, -1]);
+    
+    const floats = Buffer.alloc(8);
+    floats.writeFloatLE(0.125, 0);
+    floats.writeFloatLE(-0.25, 4);
+    const float32 = createWav(3, 32, floats);
+    expect(Array.from(decodeWavData(float32, parseWavHeader(float32)))).toEqual([0.125, -0.25]);
+  });
+  
+  it('clamps a data size left unset by a streaming writer', () => {
+    const file = encodeWav(SAMPLES, FORMAT);
+    file.writeUInt32LE(0xffffffff, 40);
+    
+    expect(parseWavHeader(file).dataLength).toBe(SAMPLES.length * 2);
+  });
+  
+  it('patches the sizes of a streamed header', () => {
+    const header = createWavHeader(FORMAT, 16, 0);
+    updateWavHeader(header, 12);
+    
+    const file = Buffer.concat([header, Buffer.alloc(12)]);
+    expect(file.readUInt32LE(4)).toBe(file.length - 8);
+    expect(parseWavHeader(file).dataLength).toBe(12);
+  });
+  
+  it('rejects files that are not PCM or float WAV', () => {
+    expect(() => parseWavHeader(Buffer.from('RIFF\0\0\0\0AVI LIST'))).toThrow('Not a RIFF/WAVE file');
+    expect(() => parseWavHeader(encodeWav(SAMPLES, FORMAT).subarray(0, 36))).toThrow('WAV file has no data chunk');
+    
+    const alaw = createWav(6, 8, Buffer.alloc(4));
+    expect(() => decodeWavData(alaw, parseWavHeader(alaw))).toThrow('Unsupported WAV audio format: 6');
+  });
+});
+
+/**
+ * A mono 8 kHz WAV file of any audio format and bit depth
+ */
+function createWav(audioFormat: number, bitsPerSample: number, data: Buffer): Buffer {
+  const header = createWavHeader({ sampleRate: 8000, channels: 1 }, 16, data.length);
+  header.writeUInt16LE(audioFormat, 20);
+  header.writeUInt16LE(bitsPerSample / 8, 32);
+  header.writeUInt16LE(bitsPerSample, 34);
+  return Buffer.concat([header, data]);
+}